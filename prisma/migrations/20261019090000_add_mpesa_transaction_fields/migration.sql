@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "phoneNumber" TEXT,
+ADD COLUMN     "receiptNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_gatewayTxId_idx" ON "transactions"("gatewayTxId");
+
+-- CreateIndex
+CREATE INDEX "transactions_status_updatedAt_idx" ON "transactions"("status", "updatedAt");
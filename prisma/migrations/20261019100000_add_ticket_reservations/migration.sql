@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ticket_reservations" (
+    "id" VARCHAR(36) NOT NULL,
+    "ticketId" VARCHAR(36) NOT NULL,
+    "userId" VARCHAR(36) NOT NULL,
+    "orderId" VARCHAR(36),
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "extendedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_reservations_ticketId_status_idx" ON "ticket_reservations"("ticketId", "status");
+
+-- CreateIndex
+CREATE INDEX "ticket_reservations_userId_status_idx" ON "ticket_reservations"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "ticket_reservations_orderId_idx" ON "ticket_reservations"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ticket_reservations_status_expiresAt_idx" ON "ticket_reservations"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ticket_reservations" ADD CONSTRAINT "ticket_reservations_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_reservations" ADD CONSTRAINT "ticket_reservations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_reservations" ADD CONSTRAINT "ticket_reservations_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
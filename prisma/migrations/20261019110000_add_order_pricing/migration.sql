@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "flashSaleId" VARCHAR(36),
+ADD COLUMN     "pricingBreakdown" JSONB,
+ADD COLUMN     "subtotal" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "orders_flashSaleId_idx" ON "orders"("flashSaleId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_flashSaleId_fkey" FOREIGN KEY ("flashSaleId") REFERENCES "flash_sales"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "refund_requests" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "gatewayRef" TEXT,
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "receiptNumber" TEXT,
+ADD COLUMN     "refundMethod" TEXT;
+
+-- CreateIndex
+CREATE INDEX "refund_requests_gatewayRef_idx" ON "refund_requests"("gatewayRef");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "refund_requests" ADD COLUMN     "batchId" VARCHAR(36);
+
+-- CreateTable
+CREATE TABLE "refund_batches" (
+    "id" VARCHAR(36) NOT NULL,
+    "eventId" VARCHAR(36) NOT NULL,
+    "initiatedBy" VARCHAR(36) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "totalRequests" INTEGER NOT NULL DEFAULT 0,
+    "totalAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refund_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refund_batches_eventId_key" ON "refund_batches"("eventId");
+
+-- CreateIndex
+CREATE INDEX "refund_batches_status_idx" ON "refund_batches"("status");
+
+-- CreateIndex
+CREATE INDEX "refund_requests_batchId_status_idx" ON "refund_requests"("batchId", "status");
+
+-- AddForeignKey
+ALTER TABLE "refund_requests" ADD CONSTRAINT "refund_requests_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "refund_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund_batches" ADD CONSTRAINT "refund_batches_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "refund_requests" ADD COLUMN     "refundPercent" INTEGER,
+ADD COLUMN     "ticketPurchaseIds" JSONB;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "refundPolicy" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "refundPolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "refund_requests" ADD COLUMN     "autoApproved" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "processingFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
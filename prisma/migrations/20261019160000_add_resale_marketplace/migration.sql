@@ -0,0 +1,67 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TICKET_RESALE';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "resaleEnabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "resalePriceCapPercent" INTEGER NOT NULL DEFAULT 110,
+ADD COLUMN     "resaleRoyaltyPercent" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "resale_listings" (
+    "id" VARCHAR(36) NOT NULL,
+    "ticketPurchaseId" VARCHAR(36) NOT NULL,
+    "eventId" VARCHAR(36) NOT NULL,
+    "sellerId" VARCHAR(36) NOT NULL,
+    "buyerId" VARCHAR(36),
+    "orderId" VARCHAR(36),
+    "price" DOUBLE PRECISION NOT NULL,
+    "faceValue" DOUBLE PRECISION NOT NULL,
+    "royaltyPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "royaltyAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sellerProceeds" DOUBLE PRECISION NOT NULL,
+    "payoutPhone" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "reservedUntil" TIMESTAMP(3),
+    "soldAt" TIMESTAMP(3),
+    "payoutStatus" TEXT,
+    "payoutRef" TEXT,
+    "payoutReceipt" TEXT,
+    "payoutFailureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "resale_listings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "resale_listings_orderId_key" ON "resale_listings"("orderId");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_eventId_status_idx" ON "resale_listings"("eventId", "status");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_ticketPurchaseId_status_idx" ON "resale_listings"("ticketPurchaseId", "status");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_sellerId_idx" ON "resale_listings"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_status_reservedUntil_idx" ON "resale_listings"("status", "reservedUntil");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_payoutRef_idx" ON "resale_listings"("payoutRef");
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_ticketPurchaseId_fkey" FOREIGN KEY ("ticketPurchaseId") REFERENCES "ticket_purchases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
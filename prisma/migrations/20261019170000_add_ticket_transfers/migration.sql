@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TICKET_TRANSFER';
+
+-- CreateTable
+CREATE TABLE "ticket_transfers" (
+    "id" VARCHAR(36) NOT NULL,
+    "ticketPurchaseId" VARCHAR(36) NOT NULL,
+    "senderId" VARCHAR(36) NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "recipientId" VARCHAR(36),
+    "tokenHash" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ticket_transfers_tokenHash_key" ON "ticket_transfers"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "ticket_transfers_ticketPurchaseId_status_idx" ON "ticket_transfers"("ticketPurchaseId", "status");
+
+-- CreateIndex
+CREATE INDEX "ticket_transfers_senderId_idx" ON "ticket_transfers"("senderId");
+
+-- CreateIndex
+CREATE INDEX "ticket_transfers_recipientEmail_status_idx" ON "ticket_transfers"("recipientEmail", "status");
+
+-- AddForeignKey
+ALTER TABLE "ticket_transfers" ADD CONSTRAINT "ticket_transfers_ticketPurchaseId_fkey" FOREIGN KEY ("ticketPurchaseId") REFERENCES "ticket_purchases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_transfers" ADD CONSTRAINT "ticket_transfers_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_transfers" ADD CONSTRAINT "ticket_transfers_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ticket_purchases" ADD COLUMN     "rotatingSecret" TEXT;
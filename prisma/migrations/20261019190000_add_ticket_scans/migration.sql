@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ticket_scans" (
+    "id" VARCHAR(36) NOT NULL,
+    "eventId" VARCHAR(36) NOT NULL,
+    "ticketPurchaseId" VARCHAR(36),
+    "ticketNumber" TEXT,
+    "deviceId" TEXT,
+    "clientScanId" TEXT,
+    "gate" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'ONLINE',
+    "result" TEXT NOT NULL,
+    "reason" TEXT,
+    "duplicateOfId" VARCHAR(36),
+    "crossGate" BOOLEAN NOT NULL DEFAULT false,
+    "scannedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ticket_scans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ticket_scans_deviceId_clientScanId_key" ON "ticket_scans"("deviceId", "clientScanId");
+
+-- CreateIndex
+CREATE INDEX "ticket_scans_eventId_result_idx" ON "ticket_scans"("eventId", "result");
+
+-- CreateIndex
+CREATE INDEX "ticket_scans_ticketPurchaseId_result_idx" ON "ticket_scans"("ticketPurchaseId", "result");
+
+-- AddForeignKey
+ALTER TABLE "ticket_scans" ADD CONSTRAINT "ticket_scans_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_scans" ADD CONSTRAINT "ticket_scans_ticketPurchaseId_fkey" FOREIGN KEY ("ticketPurchaseId") REFERENCES "ticket_purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'STAFF';
+
+-- AlterTable
+ALTER TABLE "ticket_scans" ADD COLUMN     "scannedById" VARCHAR(36);
+
+-- CreateTable
+CREATE TABLE "event_staff" (
+    "id" VARCHAR(36) NOT NULL,
+    "eventId" VARCHAR(36) NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" VARCHAR(36),
+    "invitedById" VARCHAR(36) NOT NULL,
+    "gates" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "tokenHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_staff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_staff_tokenHash_key" ON "event_staff"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "event_staff_userId_status_idx" ON "event_staff"("userId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_staff_eventId_email_key" ON "event_staff"("eventId", "email");
+
+-- AddForeignKey
+ALTER TABLE "ticket_scans" ADD CONSTRAINT "ticket_scans_scannedById_fkey" FOREIGN KEY ("scannedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
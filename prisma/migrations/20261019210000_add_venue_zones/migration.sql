@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "maxReentries" INTEGER DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ticket_purchases" ADD COLUMN     "entryCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "insideVenue" BOOLEAN NOT NULL DEFAULT false;
+
+-- Tickets already checked in count as one entry
+UPDATE "ticket_purchases" SET "entryCount" = 1, "insideVenue" = true WHERE "status" = 'USED';
+
+-- AlterTable
+ALTER TABLE "ticket_scans" ADD COLUMN     "zoneId" VARCHAR(36),
+ADD COLUMN     "direction" TEXT NOT NULL DEFAULT 'ENTRY';
+
+-- CreateTable
+CREATE TABLE "venue_zones" (
+    "id" VARCHAR(36) NOT NULL,
+    "eventId" VARCHAR(36) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "allowedCategories" JSONB NOT NULL,
+    "maxReentries" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "venue_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "venue_zones_eventId_name_key" ON "venue_zones"("eventId", "name");
+
+-- CreateIndex
+CREATE INDEX "ticket_scans_ticketPurchaseId_zoneId_scannedAt_idx" ON "ticket_scans"("ticketPurchaseId", "zoneId", "scannedAt");
+
+-- AddForeignKey
+ALTER TABLE "ticket_scans" ADD CONSTRAINT "ticket_scans_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "venue_zones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "venue_zones" ADD CONSTRAINT "venue_zones_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WAITLIST_OFFER';
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" VARCHAR(36) NOT NULL,
+    "ticketId" VARCHAR(36) NOT NULL,
+    "userId" VARCHAR(36) NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "status" TEXT NOT NULL DEFAULT 'WAITING',
+    "reservationId" VARCHAR(36),
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_entries_reservationId_key" ON "waitlist_entries"("reservationId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_ticketId_status_createdAt_idx" ON "waitlist_entries"("ticketId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_userId_status_idx" ON "waitlist_entries"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "ticket_reservations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
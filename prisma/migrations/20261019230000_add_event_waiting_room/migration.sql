@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "waitingRoomEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "waitingRoomRate" INTEGER NOT NULL DEFAULT 200;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "maxTicketsPerUser" INTEGER;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "deviceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_ipAddress_createdAt_idx" ON "orders"("ipAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "orders_deviceId_createdAt_idx" ON "orders"("deviceId", "createdAt");
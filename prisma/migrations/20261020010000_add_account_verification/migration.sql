@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "phoneVerifiedAt" TIMESTAMP(3);
+
+-- Accounts already marked verified keep their status
+UPDATE "users" SET "emailVerifiedAt" = "updatedAt" WHERE "isVerified" = true;
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "requireVerifiedBuyers" BOOLEAN NOT NULL DEFAULT false;
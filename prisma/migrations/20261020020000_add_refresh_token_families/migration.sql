@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "familyId" VARCHAR(36),
+ADD COLUMN     "sessionStartedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "userAgent" TEXT,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedReason" TEXT;
+
+-- Existing tokens each become their own session
+UPDATE "refresh_tokens" SET "familyId" = "id", "sessionStartedAt" = "createdAt";
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
@@ -15,6 +15,7 @@ import { redis } from './lib/redis';
 // Note: Upstash Redis is stateless (HTTP-based) - no connection management needed
 import errorHandlerPlugin from './middleware/errorHandler';
 import authPlugin from './middleware/auth';
+import { requireRole } from './middleware/rbac';
 
 // Import domain modules (routes)
 import authRoutes from './modules/auth/auth.routes';
@@ -29,6 +30,12 @@ import organizerRoutes from './modules/organizer/organizer.routes';
 import paymentRoutes from './modules/payments/payments.routes';
 import alertsRoutes from './modules/alerts/alerts.routes';
 import analyticsRoutes from './modules/tickets/analytics.routes';
+import resaleRoutes from './modules/resale/resale.routes';
+import scannerRoutes from './modules/scanner/scanner.routes';
+import staffRoutes from './modules/staff/staff.routes';
+import waitlistRoutes from './modules/waitlist/waitlist.routes';
+import waitingRoomRoutes from './modules/waitingroom/waitingroom.routes';
+import { getLiveCheckInSnapshot } from './modules/scanner/live.service';
 
 // ────────────────────────────────────────────────
 // Create Fastify instance with Zod Type Provider
@@ -53,7 +60,7 @@ fastify.register(cors, {
   origin: envConfig.CORS_ORIGIN.split(',').map(origin => origin.trim()),
   credentials: envConfig.CORS_CREDENTIALS,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Queue-Token', 'X-Device-Id'],
   exposedHeaders: ['Content-Range', 'X-Content-Range'],
   maxAge: 86400, // 24 hours
 });
@@ -157,6 +164,11 @@ fastify.register(organizerRoutes,  { prefix: '/api/organizer' });
 fastify.register(paymentRoutes,    { prefix: '/api/payments' });
 fastify.register(alertsRoutes,     { prefix: '/api/admin/alerts' });
 fastify.register(analyticsRoutes,  { prefix: '/api/analytics' });
+fastify.register(resaleRoutes,     { prefix: '/api/resale' });
+fastify.register(scannerRoutes,    { prefix: '/api/scanner' });
+fastify.register(staffRoutes,      { prefix: '/api/staff' });
+fastify.register(waitlistRoutes,   { prefix: '/api/waitlist' });
+fastify.register(waitingRoomRoutes, { prefix: '/api/waiting-room' });
 
 // QStash Webhook endpoints (for background job processing)
 // These endpoints are called by Upstash QStash, not by users directly
@@ -249,6 +261,84 @@ export const broadcastSSENotification = (data: Record<string, unknown>) => {
   });
 };
 
+// Live check-in streams per event (organizer dashboards on event night)
+const checkInStreams = new Map<string, Set<NodeJS.WritableStream>>();
+
+fastify.register(async (instance) => {
+  instance.get('/api/sse/events/:eventId/check-ins', {
+    preHandler: [instance.authenticate, requireRole(['ORGANIZER', 'ADMIN'])],
+  }, async (request, reply) => {
+    const { eventId } = request.params as { eventId: string };
+
+    // Check access before switching the response over to a stream
+    let snapshot;
+    try {
+      snapshot = await getLiveCheckInSnapshot(eventId, request.user!.id, request.user!.role);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                        errorMessage.includes('not found') ? 404 : 400;
+      return reply.status(statusCode).send({ error: errorMessage });
+    }
+
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    });
+
+    if (!checkInStreams.has(eventId)) {
+      checkInStreams.set(eventId, new Set());
+    }
+    checkInStreams.get(eventId)!.add(reply.raw);
+
+    // Current totals first, then every scan as it happens
+    reply.raw.write(`data: ${JSON.stringify({ type: 'snapshot', ...snapshot })}\n\n`);
+
+    const pingInterval = setInterval(() => {
+      try {
+        reply.raw.write(`: ping\n\n`);
+      } catch {
+        clearInterval(pingInterval);
+      }
+    }, 30000);
+
+    request.raw.on('close', () => {
+      clearInterval(pingInterval);
+      const eventStreams = checkInStreams.get(eventId);
+      if (eventStreams) {
+        eventStreams.delete(reply.raw);
+        if (eventStreams.size === 0) {
+          checkInStreams.delete(eventId);
+        }
+      }
+      instance.log.info(`Check-in stream closed for event ${eventId}`);
+    });
+
+    return reply;
+  });
+});
+
+// Whether anyone is watching an event's check-ins (skips building totals when nobody is)
+export const hasCheckInStreamListeners = (eventId: string) => (checkInStreams.get(eventId)?.size ?? 0) > 0;
+
+// Push a check-in update to every dashboard watching an event
+export const sendCheckInStreamUpdate = (eventId: string, data: Record<string, unknown>) => {
+  const eventStreams = checkInStreams.get(eventId);
+  if (eventStreams) {
+    const message = `data: ${JSON.stringify(data)}\n\n`;
+    eventStreams.forEach((stream) => {
+      try {
+        stream.write(message);
+      } catch {
+        // Connection might be closed, ignore
+      }
+    });
+  }
+};
+
 // ────────────────────────────────────────────────
 // Catch-all 404 Handler
 // ────────────────────────────────────────────────
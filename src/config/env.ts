@@ -48,12 +48,54 @@ const envSchema = z.object({
   // CORS Configuration
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
   CORS_CREDENTIALS: z.coerce.boolean().default(true),
+  // Public URL of the web app, used for links in emails (defaults to the first CORS origin)
+  FRONTEND_URL: z.string().url().optional(),
 
   // Resend Email Configuration
   // Get your API key from: https://resend.com/api-keys
   RESEND_API_KEY: z.string().min(1, 'RESEND_API_KEY is required'),
   // Sender email (must be verified in Resend or use onboarding@resend.dev for testing)
   EMAIL_FROM: z.string().default('MobiTickets <onboarding@resend.dev>'),
+
+  // Payment provider ('fake' simulates M-Pesa callbacks locally, 'daraja' talks to Safaricom; production must use daraja)
+  PAYMENT_PROVIDER: z.enum(['daraja', 'fake']).default('fake'),
+
+  // Safaricom Daraja (M-Pesa) - required when PAYMENT_PROVIDER=daraja
+  MPESA_ENVIRONMENT: z.enum(['sandbox', 'production']).default('sandbox'),
+  MPESA_CONSUMER_KEY: z.string().optional(),
+  MPESA_CONSUMER_SECRET: z.string().optional(),
+  MPESA_SHORTCODE: z.string().optional(),
+  MPESA_PASSKEY: z.string().optional(),
+  // Public URL Safaricom posts STK results to (defaults to WEBHOOK_BASE_URL + /api/payments/callback/mpesa).
+  // Each payment appends its own signed token, so only Safaricom can post a result for it.
+  MPESA_CALLBACK_URL: z.string().url().optional(),
+  // M-Pesa B2C (refund payouts) - required to pay refunds out when PAYMENT_PROVIDER=daraja
+  MPESA_B2C_SHORTCODE: z.string().optional(), // Defaults to MPESA_SHORTCODE
+  MPESA_B2C_INITIATOR_NAME: z.string().optional(),
+  MPESA_B2C_SECURITY_CREDENTIAL: z.string().optional(), // Initiator password encrypted with Safaricom's certificate
+  // Ed25519 keys that sign ticket QR codes: "kid:<base64 PKCS#8 DER>", comma-separated, newest first.
+  // Required in production; gate devices fetch the public keys from /api/tickets/signing-keys
+  TICKET_SIGNING_KEYS: z.string().optional(),
+  // Public keys of rotated-out signing keys that should still verify: "kid:<base64 SPKI DER>", comma-separated
+  TICKET_RETIRED_PUBLIC_KEYS: z.string().optional(),
+  // Delay before the fake provider fires its simulated callback
+  MPESA_FAKE_CALLBACK_DELAY_MS: z.coerce.number().default(3000),
+
+  // SMS provider for phone verification codes ('fake' prints messages to the console)
+  SMS_PROVIDER: z.enum(['africastalking', 'fake']).default('fake'),
+  // Africa's Talking - required when SMS_PROVIDER=africastalking (username "sandbox" uses the test environment)
+  AFRICASTALKING_USERNAME: z.string().optional(),
+  AFRICASTALKING_API_KEY: z.string().optional(),
+  SMS_SENDER_ID: z.string().optional(), // Registered alphanumeric sender ID, e.g. MOBITICKET
+}).superRefine((data, ctx) => {
+  // The fake provider lets buyers confirm their own M-Pesa payments - never run it in production
+  if (data.NODE_ENV === 'production' && data.PAYMENT_PROVIDER !== 'daraja') {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['PAYMENT_PROVIDER'],
+      message: 'PAYMENT_PROVIDER must be daraja in production',
+    });
+  }
 });
 
 const env = envSchema.safeParse(process.env);
@@ -11,6 +11,14 @@ export const resend = new Resend(envConfig.RESEND_API_KEY);
 // Default sender email (must be verified in Resend dashboard)
 const DEFAULT_FROM = envConfig.EMAIL_FROM || 'MobiTickets <noreply@mobitickets.com>';
 
+/**
+ * Base URL of the web app for links in emails
+ */
+export function getFrontendUrl(): string {
+  const url = envConfig.FRONTEND_URL || (envConfig.CORS_ORIGIN.split(',')[0] ?? '').trim();
+  return url.replace(/\/$/, '');
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Email Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -565,6 +573,280 @@ export async function sendRefundConfirmation(
   });
 }
 
+export interface TicketTransferInviteData {
+  transferId: string;
+  senderName: string;
+  eventName: string;
+  ticketType: string;
+  eventDate: string;
+  acceptLink: string;
+  expiresIn: string;
+}
+
+/**
+ * Send a ticket transfer invite to someone without a MobiTickets account
+ */
+export async function sendTicketTransferInvite(
+  to: string,
+  data: TicketTransferInviteData
+): Promise<EmailResult> {
+  const html = emailWrapper(
+    `
+    <h1>🎁 You've been sent a ticket!</h1>
+    <p>${data.senderName} wants to give you their ticket to <strong>${data.eventName}</strong>.</p>
+
+    <div class="ticket-card">
+      <h3>${data.eventName}</h3>
+      <p>🎫 ${data.ticketType}</p>
+      <p>📅 ${data.eventDate}</p>
+    </div>
+
+    <p>Create a free MobiTickets account with this email address, then accept the transfer to get your own QR code:</p>
+
+    <p style="text-align: center;">
+      <a href="${data.acceptLink}" class="button">Accept Ticket</a>
+    </p>
+
+    <div class="warning">
+      <strong>⏰ This invite expires in ${data.expiresIn}</strong><br>
+      ${data.senderName} can cancel the transfer until you accept it.
+    </div>
+
+    <p style="font-size: 12px; color: #6b7280;">
+      If the button doesn't work, copy and paste this link into your browser:<br>
+      <a href="${data.acceptLink}" style="word-break: break-all;">${data.acceptLink}</a>
+    </p>
+  `,
+    `${data.senderName} sent you a ticket to ${data.eventName}`
+  );
+
+  return sendEmail({
+    to,
+    subject: `🎁 ${data.senderName} sent you a ticket to ${data.eventName}`,
+    html,
+    text: `${data.senderName} sent you a ${data.ticketType} ticket to ${data.eventName} (${data.eventDate}). Accept it here: ${data.acceptLink}. This invite expires in ${data.expiresIn}.`,
+    tags: [{ name: 'category', value: 'ticket-transfer' }],
+  });
+}
+
+export interface StaffInviteData {
+  staffId: string;
+  inviterName: string;
+  eventName: string;
+  eventDate: string;
+  gates: string;
+  acceptLink: string;
+  expiresIn: string;
+}
+
+/**
+ * Send a door staff invite for an event
+ */
+export async function sendStaffInvite(
+  to: string,
+  data: StaffInviteData
+): Promise<EmailResult> {
+  const html = emailWrapper(
+    `
+    <h1>🚪 You're on the door team</h1>
+    <p>${data.inviterName} has invited you to scan tickets at <strong>${data.eventName}</strong>.</p>
+
+    <div class="ticket-details">
+      <table>
+        <tr>
+          <td>Event</td>
+          <td>${data.eventName}</td>
+        </tr>
+        <tr>
+          <td>Date</td>
+          <td>${data.eventDate}</td>
+        </tr>
+        <tr>
+          <td>Gates</td>
+          <td>${data.gates}</td>
+        </tr>
+      </table>
+    </div>
+
+    <p>Sign in (or create a free account) with this email address and accept the invite to start scanning:</p>
+
+    <p style="text-align: center;">
+      <a href="${data.acceptLink}" class="button">Accept Invite</a>
+    </p>
+
+    <div class="warning">
+      <strong>⏰ This invite expires in ${data.expiresIn}</strong>
+    </div>
+
+    <p style="font-size: 12px; color: #6b7280;">
+      If the button doesn't work, copy and paste this link into your browser:<br>
+      <a href="${data.acceptLink}" style="word-break: break-all;">${data.acceptLink}</a>
+    </p>
+  `,
+    `${data.inviterName} invited you to scan tickets at ${data.eventName}`
+  );
+
+  return sendEmail({
+    to,
+    subject: `You've been invited to scan tickets at ${data.eventName}`,
+    html,
+    text: `${data.inviterName} invited you to scan tickets at ${data.eventName} (${data.eventDate}), gates: ${data.gates}. Accept here: ${data.acceptLink}. This invite expires in ${data.expiresIn}.`,
+    tags: [{ name: 'category', value: 'staff-invite' }],
+  });
+}
+
+export interface WaitlistOfferData {
+  entryId: string;
+  customerName: string;
+  eventName: string;
+  ticketType: string;
+  quantity: number;
+  eventDate: string;
+  checkoutLink: string;
+  expiresIn: string;
+}
+
+/**
+ * Tell someone on a waitlist that tickets are being held for them
+ */
+export async function sendWaitlistOffer(
+  to: string,
+  data: WaitlistOfferData
+): Promise<EmailResult> {
+  const html = emailWrapper(
+    `
+    <h1>🎉 Your tickets are waiting</h1>
+    <p>Hi ${data.customerName},</p>
+    <p>Good news - ${data.quantity} ${data.ticketType} ticket(s) for <strong>${data.eventName}</strong> just became available and we're holding them for you.</p>
+
+    <div class="ticket-card">
+      <h3>${data.eventName}</h3>
+      <p>🎫 ${data.quantity} × ${data.ticketType}</p>
+      <p>📅 ${data.eventDate}</p>
+    </div>
+
+    <p style="text-align: center;">
+      <a href="${data.checkoutLink}" class="button">Complete Purchase</a>
+    </p>
+
+    <div class="warning">
+      <strong>⏰ This offer expires in ${data.expiresIn}</strong><br>
+      If you don't check out in time, the tickets go to the next person on the waitlist.
+    </div>
+
+    <p style="font-size: 12px; color: #6b7280;">
+      If the button doesn't work, copy and paste this link into your browser:<br>
+      <a href="${data.checkoutLink}" style="word-break: break-all;">${data.checkoutLink}</a>
+    </p>
+  `,
+    `Tickets for ${data.eventName} are being held for you`
+  );
+
+  return sendEmail({
+    to,
+    subject: `🎉 Tickets for ${data.eventName} are available - offer expires in ${data.expiresIn}`,
+    html,
+    text: `Hi ${data.customerName}, ${data.quantity} ${data.ticketType} ticket(s) for ${data.eventName} (${data.eventDate}) are being held for you. Complete your purchase here: ${data.checkoutLink}. This offer expires in ${data.expiresIn}.`,
+    tags: [{ name: 'category', value: 'waitlist-offer' }],
+  });
+}
+
+export interface EmailVerificationData {
+  name: string;
+  verifyLink: string;
+  expiresIn: string;
+}
+
+/**
+ * Ask a new (or changed) email address to confirm it belongs to the account
+ */
+export async function sendEmailVerification(
+  to: string,
+  data: EmailVerificationData
+): Promise<EmailResult> {
+  const html = emailWrapper(
+    `
+    <h1>Confirm your email address</h1>
+    <p>Hey ${data.name},</p>
+    <p>Please confirm this is your email address so you can buy tickets to events that only sell to verified accounts.</p>
+
+    <p style="text-align: center;">
+      <a href="${data.verifyLink}" class="button">Confirm Email</a>
+    </p>
+
+    <div class="warning">
+      <strong>⏰ Link expires in ${data.expiresIn}</strong><br>
+      You can request a new link from your account settings.
+    </div>
+
+    <p>If you didn't create a MobiTickets account, you can safely ignore this email.</p>
+
+    <p style="font-size: 12px; color: #6b7280;">
+      If the button doesn't work, copy and paste this link into your browser:<br>
+      <a href="${data.verifyLink}" style="word-break: break-all;">${data.verifyLink}</a>
+    </p>
+  `,
+    'Confirm your MobiTickets email address'
+  );
+
+  return sendEmail({
+    to,
+    subject: 'Confirm Your MobiTickets Email Address',
+    html,
+    text: `Hey ${data.name}, confirm your email address for MobiTickets here: ${data.verifyLink}. This link expires in ${data.expiresIn}.`,
+    tags: [{ name: 'category', value: 'email-verification' }],
+  });
+}
+
+export interface AccountUnlockData {
+  name: string;
+  unlockLink: string;
+  lockedFor: string;
+  failedAttempts: number;
+  resetLink: string;
+}
+
+/**
+ * Tell the owner their account was locked after repeated failed sign-ins, with a link to unlock it
+ */
+export async function sendAccountUnlock(
+  to: string,
+  data: AccountUnlockData
+): Promise<EmailResult> {
+  const html = emailWrapper(
+    `
+    <h1>Your account has been locked</h1>
+    <p>Hey ${data.name},</p>
+    <p>There were ${data.failedAttempts} failed attempts to sign in to your MobiTickets account, so we've locked it for ${data.lockedFor} to keep it safe.</p>
+
+    <p>If that was you, you can unlock your account straight away:</p>
+
+    <p style="text-align: center;">
+      <a href="${data.unlockLink}" class="button">Unlock My Account</a>
+    </p>
+
+    <div class="warning">
+      <strong>🔒 Wasn't you?</strong><br>
+      Someone may be trying to guess your password. <a href="${data.resetLink}">Reset your password</a> and turn on two-factor authentication.
+    </div>
+
+    <p style="font-size: 12px; color: #6b7280;">
+      If the button doesn't work, copy and paste this link into your browser:<br>
+      <a href="${data.unlockLink}" style="word-break: break-all;">${data.unlockLink}</a>
+    </p>
+  `,
+    'Your MobiTickets account has been locked'
+  );
+
+  return sendEmail({
+    to,
+    subject: 'Your MobiTickets Account Has Been Locked',
+    html,
+    text: `Hey ${data.name}, after ${data.failedAttempts} failed sign-in attempts your MobiTickets account is locked for ${data.lockedFor}. Unlock it here: ${data.unlockLink}. If this wasn't you, reset your password: ${data.resetLink}`,
+    tags: [{ name: 'category', value: 'account-unlock' }],
+  });
+}
+
 /**
  * Test email connectivity
  */
@@ -77,6 +77,25 @@ export async function queueEmail(payload: EmailJobPayload): Promise<string> {
   return response.messageId;
 }
 
+/**
+ * Queue an email rendered from one of the templates in lib/email.ts
+ * The email webhook picks the template from the payload's `type`
+ */
+export async function queueTemplatedEmail(
+  payload: { type: string; to: string } & Record<string, unknown>
+): Promise<string> {
+  const baseUrl = getWebhookBaseUrl();
+
+  const response = await qstash.publishJSON({
+    url: `${baseUrl}/api/webhooks/email`,
+    body: payload,
+    retries: 3,
+  });
+
+  console.log(`📧 ${payload.type} email job queued: ${response.messageId}`);
+  return response.messageId;
+}
+
 /**
  * Queue an NFT to be minted
  * QStash will call POST /api/webhooks/nft-mint with the payload
@@ -111,6 +130,28 @@ export async function queueNotification(payload: NotificationJobPayload): Promis
   return response.messageId;
 }
 
+/**
+ * Queue a one-off background task
+ * QStash will call POST /api/webhooks/scheduled-task with { taskType, payload }
+ */
+export async function queueTask(
+  taskType: string,
+  payload: Record<string, unknown>,
+  delaySeconds?: number
+): Promise<string> {
+  const baseUrl = getWebhookBaseUrl();
+
+  const response = await qstash.publishJSON({
+    url: `${baseUrl}/api/webhooks/scheduled-task`,
+    body: { taskType, payload },
+    retries: 3,
+    ...(delaySeconds ? { delay: delaySeconds } : {}),
+  });
+
+  console.log(`⚙️ ${taskType} task queued: ${response.messageId}`);
+  return response.messageId;
+}
+
 /**
  * Schedule a job to run at a specific time
  * Useful for reminders, scheduled notifications, etc.
@@ -6,8 +6,10 @@
 
 import {
   queueEmail,
+  queueTemplatedEmail,
   queueNftMint,
   queueNotification,
+  queueTask,
   scheduleJob,
   createCronJob,
   deleteCronJob,
@@ -16,6 +18,15 @@ import {
   NftMintJobPayload,
   NotificationJobPayload,
 } from './qstash';
+import type {
+  RefundConfirmationData,
+  TicketTransferInviteData,
+  StaffInviteData,
+  WaitlistOfferData,
+  PasswordResetData,
+  EmailVerificationData,
+  AccountUnlockData,
+} from './email';
 
 // Re-export types for convenience
 export type { EmailJobPayload, NftMintJobPayload, NotificationJobPayload };
@@ -77,6 +88,76 @@ See you at the event!
   });
 }
 
+/**
+ * Send a refund confirmation email (rendered with the refund template)
+ */
+export async function sendRefundConfirmationEmail(
+  to: string,
+  data: RefundConfirmationData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'refund-confirmation', to, ...data });
+}
+
+/**
+ * Send a ticket transfer invite (rendered with the transfer invite template)
+ */
+export async function sendTicketTransferInviteEmail(
+  to: string,
+  data: TicketTransferInviteData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'ticket-transfer-invite', to, ...data });
+}
+
+/**
+ * Send a door staff invite (rendered with the staff invite template)
+ */
+export async function sendStaffInviteEmail(
+  to: string,
+  data: StaffInviteData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'staff-invite', to, ...data });
+}
+
+/**
+ * Send a waitlist offer (rendered with the waitlist offer template)
+ */
+export async function sendWaitlistOfferEmail(
+  to: string,
+  data: WaitlistOfferData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'waitlist-offer', to, ...data });
+}
+
+/**
+ * Send a password reset link (rendered with the password reset template)
+ */
+export async function sendPasswordResetEmail(
+  to: string,
+  data: PasswordResetData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'password-reset', to, ...data });
+}
+
+/**
+ * Send an email address confirmation link (rendered with the email verification template)
+ */
+export async function sendEmailVerificationEmail(
+  to: string,
+  data: EmailVerificationData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'email-verification', to, ...data });
+}
+
+/**
+ * Send an account unlock link after a lockout (rendered with the account unlock template)
+ */
+export async function sendAccountUnlockEmail(
+  to: string,
+  data: AccountUnlockData
+): Promise<string> {
+  return queueTemplatedEmail({ type: 'account-unlock', to, ...data });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // NFT Minting Queue
 // ─────────────────────────────────────────────────────────────────────────────
@@ -168,6 +249,17 @@ export async function scheduleEventReminder(
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Background Tasks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue the next slice of a cancelled event's bulk refund run
+ */
+export async function queueRefundBatch(batchId: string, delaySeconds?: number): Promise<string> {
+  return queueTask('process-refund-batch', { batchId }, delaySeconds);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Cron Jobs (Recurring Tasks)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -198,5 +290,44 @@ export async function setupDailyReportCron(): Promise<string> {
   );
 }
 
+/**
+ * Set up reconciliation of M-Pesa payments whose callback never arrived
+ * Runs every 5 minutes
+ */
+export async function setupPaymentReconciliationCron(): Promise<string> {
+  return createCronJob(
+    'reconcile-pending-payments',
+    '/api/webhooks/scheduled-task',
+    '*/5 * * * *', // Every 5 minutes
+    { taskType: 'reconcile-pending-payments' }
+  );
+}
+
+/**
+ * Set up the sweeper that releases expired ticket reservations
+ * Runs every minute
+ */
+export async function setupReservationSweepCron(): Promise<string> {
+  return createCronJob(
+    'release-expired-reservations',
+    '/api/webhooks/scheduled-task',
+    '* * * * *', // Every minute
+    { taskType: 'release-expired-reservations' }
+  );
+}
+
+/**
+ * Set up the batch admissions for event waiting rooms
+ * Runs every minute
+ */
+export async function setupWaitingRoomCron(): Promise<string> {
+  return createCronJob(
+    'admit-waiting-rooms',
+    '/api/webhooks/scheduled-task',
+    '* * * * *', // Every minute
+    { taskType: 'admit-waiting-rooms' }
+  );
+}
+
 // Re-export cron job management functions
 export { createCronJob, deleteCronJob, listCronJobs };
@@ -355,6 +355,9 @@ interface PrismaRefundRequestInput {
   reason: string;
   status: string;
   amount: any; // Decimal
+  failureReason?: string | null;
+  processedAt?: Date | null;
+  autoApproved?: boolean;
   createdAt: Date;
   user?: {
     id: string;
@@ -378,9 +381,12 @@ export interface FrontendRefundRequest {
   userName: string;
   eventTitle: string;
   reason: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'processing' | 'completed' | 'failed';
   requestDate: string;
   amount: number;
+  failureReason: string | null;
+  processedDate: string | null;
+  autoApproved: boolean;
 }
 
 export function mapRefundRequestToFrontend(req: PrismaRefundRequestInput): FrontendRefundRequest {
@@ -394,5 +400,8 @@ export function mapRefundRequestToFrontend(req: PrismaRefundRequestInput): Front
     status: req.status.toLowerCase() as FrontendRefundRequest['status'],
     requestDate: req.createdAt.toISOString().split('T')[0]!,
     amount: Number(req.amount) || 0,
+    failureReason: req.failureReason ?? null,
+    processedDate: req.processedAt ? req.processedAt.toISOString().split('T')[0]! : null,
+    autoApproved: req.autoApproved ?? false,
   };
 }
@@ -0,0 +1,82 @@
+// src/lib/sms/africastalking.provider.ts
+// Africa's Talking bulk SMS integration (Kenyan networks)
+import { envConfig } from '../../config/env';
+import type { SmsMessage, SmsProvider, SmsResult } from './sms-provider';
+
+const AFRICASTALKING_BASE_URLS = {
+  sandbox: 'https://api.sandbox.africastalking.com',
+  production: 'https://api.africastalking.com',
+} as const;
+
+interface AfricasTalkingConfig {
+  baseUrl: string;
+  username: string;
+  apiKey: string;
+  senderId?: string;
+}
+
+interface AfricasTalkingResponse {
+  SMSMessageData?: {
+    Message?: string;
+    Recipients?: Array<{ number: string; status: string; statusCode: number; messageId: string }>;
+  };
+}
+
+// Recipient status codes that mean the message was accepted for delivery
+const ACCEPTED_STATUS_CODES = [100, 101, 102];
+
+export function createAfricasTalkingProvider(config: AfricasTalkingConfig): SmsProvider {
+  return {
+    name: 'africastalking',
+
+    async send(message: SmsMessage): Promise<SmsResult> {
+      const form = new URLSearchParams({
+        username: config.username,
+        to: message.to,
+        message: message.body,
+      });
+      if (config.senderId) {
+        form.set('from', config.senderId);
+      }
+
+      const response = await fetch(`${config.baseUrl}/version1/messaging`, {
+        method: 'POST',
+        headers: {
+          apiKey: config.apiKey,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`SMS gateway rejected the request (${response.status})`);
+      }
+
+      const data = (await response.json()) as AfricasTalkingResponse;
+      const recipient = data.SMSMessageData?.Recipients?.[0];
+
+      if (!recipient || !ACCEPTED_STATUS_CODES.includes(recipient.statusCode)) {
+        throw new Error(`SMS could not be sent: ${recipient?.status ?? data.SMSMessageData?.Message ?? 'unknown error'}`);
+      }
+
+      return { messageId: recipient.messageId };
+    },
+  };
+}
+
+export function createAfricasTalkingProviderFromEnv(): SmsProvider {
+  const { AFRICASTALKING_USERNAME, AFRICASTALKING_API_KEY, SMS_SENDER_ID } = envConfig;
+
+  if (!AFRICASTALKING_USERNAME || !AFRICASTALKING_API_KEY) {
+    throw new Error('SMS_PROVIDER=africastalking requires AFRICASTALKING_USERNAME and AFRICASTALKING_API_KEY');
+  }
+
+  return createAfricasTalkingProvider({
+    // Africa's Talking reserves the "sandbox" username for its test environment
+    baseUrl: AFRICASTALKING_BASE_URLS[AFRICASTALKING_USERNAME === 'sandbox' ? 'sandbox' : 'production'],
+    username: AFRICASTALKING_USERNAME,
+    apiKey: AFRICASTALKING_API_KEY,
+    senderId: SMS_SENDER_ID,
+  });
+}
@@ -0,0 +1,17 @@
+// src/lib/sms/fake.provider.ts
+// Local stand-in for the SMS gateway: prints messages to the console instead of sending them.
+// Use for development and demos only.
+import crypto from 'crypto';
+import type { SmsMessage, SmsProvider, SmsResult } from './sms-provider';
+
+export function createFakeSmsProvider(): SmsProvider {
+  return {
+    name: 'fake',
+
+    async send(message: SmsMessage): Promise<SmsResult> {
+      const messageId = `FAKESMS${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+      console.log(`📱 [Fake SMS] ${messageId} to ${message.to}: ${message.body}`);
+      return { messageId };
+    },
+  };
+}
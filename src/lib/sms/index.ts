@@ -0,0 +1,23 @@
+// src/lib/sms/index.ts
+// Selects the SMS provider configured via SMS_PROVIDER
+import { envConfig } from '../../config/env';
+import type { SmsProvider } from './sms-provider';
+import { createAfricasTalkingProviderFromEnv } from './africastalking.provider';
+import { createFakeSmsProvider } from './fake.provider';
+
+export * from './sms-provider';
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Lazily create the configured provider (one instance per process)
+ */
+export function getSmsProvider(): SmsProvider {
+  if (provider) {
+    return provider;
+  }
+
+  provider = envConfig.SMS_PROVIDER === 'africastalking' ? createAfricasTalkingProviderFromEnv() : createFakeSmsProvider();
+
+  return provider;
+}
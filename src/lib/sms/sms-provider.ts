@@ -0,0 +1,18 @@
+// src/lib/sms/sms-provider.ts
+// Contract every SMS gateway integration must satisfy
+
+export interface SmsMessage {
+  to: string; // E.164: +2547XXXXXXXX
+  body: string;
+}
+
+export interface SmsResult {
+  messageId: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+
+  /** Send a single text message; throws if the gateway rejects it */
+  send(message: SmsMessage): Promise<SmsResult>;
+}
@@ -0,0 +1,112 @@
+// src/lib/ticket-keys.ts
+// Ed25519 key ring for signing ticket QR codes. Gate devices verify offline with the public keys.
+import crypto, { KeyObject } from 'crypto';
+import { envConfig } from '../config/env';
+
+export interface TicketSigningKey {
+  kid: string;
+  privateKey: KeyObject | null; // null for retired keys that only verify
+  publicKey: KeyObject;
+}
+
+let keyRing: { active: TicketSigningKey; keys: Map<string, TicketSigningKey> } | null = null;
+
+/**
+ * Parse TICKET_SIGNING_KEYS ("kid:base64-pkcs8-der,kid:...") and TICKET_RETIRED_PUBLIC_KEYS
+ * ("kid:base64-spki-der,..."). The first signing key signs new tickets; every other key
+ * still verifies tickets issued before a rotation.
+ */
+function loadKeyRing() {
+  const keys = new Map<string, TicketSigningKey>();
+  const entries = (value?: string) =>
+    (value ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.indexOf(':');
+        const kid = entry.slice(0, separator);
+        if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(kid)) {
+          throw new Error('Ticket keys must be formatted as <kid>:<base64 DER>, with a kid of letters, digits, - or _');
+        }
+        return { kid, der: Buffer.from(entry.slice(separator + 1), 'base64') };
+      });
+
+  for (const { kid, der } of entries(envConfig.TICKET_SIGNING_KEYS)) {
+    const privateKey = crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Ticket signing key ${kid} is not an Ed25519 key`);
+    }
+    keys.set(kid, { kid, privateKey, publicKey: crypto.createPublicKey(privateKey) });
+  }
+
+  const active = keys.values().next().value as TicketSigningKey | undefined;
+
+  for (const { kid, der } of entries(envConfig.TICKET_RETIRED_PUBLIC_KEYS)) {
+    if (!keys.has(kid)) {
+      keys.set(kid, { kid, privateKey: null, publicKey: crypto.createPublicKey({ key: der, format: 'der', type: 'spki' }) });
+    }
+  }
+
+  if (active) {
+    return { active, keys };
+  }
+
+  if (envConfig.NODE_ENV === 'production') {
+    throw new Error('TICKET_SIGNING_KEYS must be set in production');
+  }
+
+  // Development only: tickets signed with this key stop verifying after a restart
+  console.warn('⚠️  TICKET_SIGNING_KEYS not set - using a temporary ticket signing key');
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const devKey = { kid: 'dev', privateKey, publicKey };
+  keys.set(devKey.kid, devKey);
+  return { active: devKey, keys };
+}
+
+function getKeyRing() {
+  if (!keyRing) {
+    keyRing = loadKeyRing();
+  }
+  return keyRing;
+}
+
+/**
+ * Key new tickets are signed with
+ */
+export function getActiveTicketKey(): TicketSigningKey {
+  return getKeyRing().active;
+}
+
+/**
+ * Key for a kid found in a ticket token, if we know it
+ */
+export function getTicketKey(kid: string): TicketSigningKey | undefined {
+  return getKeyRing().keys.get(kid);
+}
+
+/**
+ * Public keys as a JWK set for gate devices
+ */
+export function getTicketPublicKeys() {
+  const { active, keys } = getKeyRing();
+
+  return [...keys.values()].map((key) => ({
+    ...(key.publicKey.export({ format: 'jwk' }) as { kty: string; crv: string; x: string }),
+    kid: key.kid,
+    use: 'sig',
+    alg: 'EdDSA',
+    status: key.kid === active.kid ? 'active' : 'retired',
+  }));
+}
+
+/**
+ * Sign arbitrary data (e.g. a scanner manifest) with the active ticket key
+ */
+export function signWithTicketKey(data: string) {
+  const key = getActiveTicketKey();
+  return {
+    kid: key.kid,
+    signature: crypto.sign(null, Buffer.from(data), key.privateKey!).toString('base64url'),
+  };
+}
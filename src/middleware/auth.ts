@@ -34,6 +34,7 @@ const authPlugin: FastifyPluginAsync = async (fastify) => {
           email: string;
           role: string;
           address?: string;
+          sid?: string;
         };
       } catch (err) {
         fastify.log.error({ err }, 'JWT verification failed');
@@ -13,11 +13,23 @@ import {
   reviewOrganizerRequest,
   getRefundRequests,
   reviewRefundRequest,
+  retryRefundRequest,
+  resolveRefundPayout,
+  recordRefundPayout,
   changeUserRole,
   exportAuditLogs,
   adminCancelEvent,
 } from './admin.service';
-import { featureEventSchema, reviewRequestSchema } from './admin.schema';
+import {
+  featureEventSchema,
+  reviewRequestSchema,
+  resolvePayoutSchema,
+  recordPayoutSchema,
+  twoFactorPolicySchema,
+} from './admin.schema';
+import { resumeRefundBatch } from '../refunds/event-refunds.service';
+import { retrySellerPayout, resolveUnconfirmedSellerPayout } from '../resale/resale.service';
+import { getTwoFactorPolicy, updateTwoFactorPolicy } from '../auth/two-factor.service';
 
 export default async (fastify: FastifyInstance) => {
   // Admin dashboard stats
@@ -122,7 +134,7 @@ export default async (fastify: FastifyInstance) => {
     async (request, reply) => {
       try {
         const { userId } = request.params as { userId: string };
-        const { role } = request.body as { role: 'ATTENDEE' | 'ORGANIZER' | 'ADMIN' };
+        const { role } = request.body as { role: 'ATTENDEE' | 'ORGANIZER' | 'ADMIN' | 'STAFF' };
         const result = await changeUserRole(userId, role, request.user!.id);
         reply.send(result);
       } catch (error) {
@@ -336,4 +348,140 @@ export default async (fastify: FastifyInstance) => {
       }
     }
   );
+
+  // Retry a failed refund payout
+  fastify.post(
+    '/refund-requests/:requestId/retry',
+    { preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { requestId } = request.params as { requestId: string };
+        const result = await retryRefundRequest(requestId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Record whether an unconfirmed (timed-out) refund payout reached the customer
+  fastify.post(
+    '/refund-requests/:requestId/resolve-payout',
+    { schema: resolvePayoutSchema, preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { requestId } = request.params as { requestId: string };
+        const { outcome, receiptNumber } = request.body as { outcome: 'PAID' | 'NOT_PAID'; receiptNumber?: string };
+        const result = await resolveRefundPayout(requestId, request.user!.id, outcome, receiptNumber);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Record a manual (card/crypto) refund as paid out - the customer is notified from here
+  fastify.post(
+    '/refund-requests/:requestId/record-payout',
+    { schema: recordPayoutSchema, preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { requestId } = request.params as { requestId: string };
+        const { reference } = (request.body ?? {}) as { reference?: string };
+        const result = await recordRefundPayout(requestId, request.user!.id, reference);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Re-queue a cancelled event's refund batch
+  fastify.post(
+    '/refund-batches/:batchId/resume',
+    { preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { batchId } = request.params as { batchId: string };
+        const result = await resumeRefundBatch(batchId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Retry a failed resale seller payout
+  fastify.post(
+    '/resale-listings/:listingId/retry-payout',
+    { preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { listingId } = request.params as { listingId: string };
+        const result = await retrySellerPayout(listingId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Record whether an unconfirmed (timed-out) seller payout reached the seller
+  fastify.post(
+    '/resale-listings/:listingId/resolve-payout',
+    { schema: resolvePayoutSchema, preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { listingId } = request.params as { listingId: string };
+        const { outcome, receiptNumber } = request.body as { outcome: 'PAID' | 'NOT_PAID'; receiptNumber?: string };
+        const result = await resolveUnconfirmedSellerPayout(listingId, request.user!.id, outcome, receiptNumber);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Roles that must use two-factor authentication
+  fastify.get(
+    '/security/two-factor',
+    { preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (_request, reply) => {
+      try {
+        const result = await getTwoFactorPolicy();
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Force two-factor authentication for roles (e.g. ORGANIZER and ADMIN)
+  fastify.put(
+    '/security/two-factor',
+    { schema: twoFactorPolicySchema, preHandler: [fastify.authenticate, requireRole(['ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { requiredRoles } = request.body as { requiredRoles: ('ORGANIZER' | 'ADMIN' | 'STAFF')[] };
+        const result = await updateTwoFactorPolicy(requiredRoles, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
 };
@@ -30,7 +30,7 @@ export const banToggleSchema = z.object({
 
 export const changeRoleSchema = z.object({
   body: z.object({
-    role: z.enum(['ATTENDEE', 'ORGANIZER', 'ADMIN']),
+    role: z.enum(['ATTENDEE', 'ORGANIZER', 'ADMIN', 'STAFF']),
   }),
 });
 
@@ -38,4 +38,23 @@ export const adminCancelEventSchema = z.object({
   body: z.object({
     reason: z.string().min(10, 'Please provide a detailed reason for cancellation'),
   }),
-});
\ No newline at end of file
+});
+
+export const twoFactorPolicySchema = z.object({
+  body: z.object({
+    requiredRoles: z.array(z.enum(['ORGANIZER', 'ADMIN', 'STAFF'])),
+  }),
+});
+
+export const resolvePayoutSchema = z.object({
+  body: z.object({
+    outcome: z.enum(['PAID', 'NOT_PAID']),
+    receiptNumber: z.string().trim().min(1).max(50).optional(),
+  }),
+});
+
+export const recordPayoutSchema = z.object({
+  body: z.object({
+    reference: z.string().trim().min(1).max(100).optional(),
+  }),
+});
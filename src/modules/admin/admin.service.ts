@@ -11,6 +11,12 @@ import {
 } from '../../lib/response-mappers';
 import { cancelEvent } from '../events/events.service';
 import { createSystemAlert } from '../alerts/alerts.service';
+import {
+  processRefund,
+  retryRefund,
+  resolveUnconfirmedRefund,
+  recordManualRefundPayout,
+} from '../refunds/refunds.service';
 
 export const getDashboardStats = async () => {
   const [totalEvents, totalUsers, recentOrders, totalRevenue] = await Promise.all([
@@ -134,7 +140,7 @@ export const unbanUser = async (userId: string, adminId: string) => {
 // Change user role
 export const changeUserRole = async (
   userId: string,
-  newRole: 'ATTENDEE' | 'ORGANIZER' | 'ADMIN',
+  newRole: 'ATTENDEE' | 'ORGANIZER' | 'ADMIN' | 'STAFF',
   adminId: string
 ) => {
   const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
@@ -519,8 +525,8 @@ export const reviewRefundRequest = async (
     throw new Error('Refund request has already been reviewed');
   }
 
-  await prisma.refundRequest.update({
-    where: { id: requestId },
+  const { count } = await prisma.refundRequest.updateMany({
+    where: { id: requestId, status: 'PENDING' },
     data: {
       status,
       reviewedBy: adminId,
@@ -528,18 +534,8 @@ export const reviewRefundRequest = async (
     },
   });
 
-  // If approved, mark order as refunded
-  if (status === 'APPROVED') {
-    await prisma.order.update({
-      where: { id: refundReq.orderId },
-      data: { status: 'REFUNDED' },
-    });
-
-    // Mark related ticket purchases as refunded
-    await prisma.ticketPurchase.updateMany({
-      where: { orderId: refundReq.orderId },
-      data: { status: 'REFUNDED' },
-    });
+  if (count === 0) {
+    throw new Error('Refund request has already been reviewed');
   }
 
   // Notify user
@@ -549,7 +545,7 @@ export const reviewRefundRequest = async (
     type: 'REFUND_PROCESSED',
     title: status === 'APPROVED' ? 'Refund Approved' : 'Refund Request Update',
     message: status === 'APPROVED'
-      ? `Your refund of KES ${refundReq.amount} has been approved and will be processed shortly.`
+      ? `Your refund of KES ${refundReq.amount} has been approved and is being processed.`
       : `Your refund request has been reviewed. Status: ${status}.${notes ? ` Notes: ${notes}` : ''}`,
     data: { refundRequestId: requestId, status, amount: refundReq.amount },
   });
@@ -561,5 +557,40 @@ export const reviewRefundRequest = async (
     orderId: refundReq.orderId,
   });
 
+  // Approved refunds are paid out; the order and tickets are unwound once the payout completes
+  if (status === 'APPROVED') {
+    const refund = await processRefund(requestId);
+    return { message: 'Refund request approved successfully', refundStatus: refund.status };
+  }
+
   return { message: `Refund request ${status.toLowerCase()} successfully` };
 };
+
+// Retry a refund whose payout failed
+export const retryRefundRequest = async (requestId: string, adminId: string) => {
+  const refund = await retryRefund(requestId, adminId);
+  return {
+    message: refund.status === 'FAILED' ? 'Refund payout failed again' : 'Refund payout retried',
+    refundStatus: refund.status,
+    failureReason: refund.failureReason,
+  };
+};
+
+export const resolveRefundPayout = async (
+  requestId: string,
+  adminId: string,
+  outcome: 'PAID' | 'NOT_PAID',
+  receiptNumber?: string
+) => {
+  const refund = await resolveUnconfirmedRefund(requestId, adminId, outcome, receiptNumber);
+  return {
+    message: refund.status === 'COMPLETED' ? 'Refund payout recorded as paid' : 'Refund payout recorded as not paid',
+    refundStatus: refund.status,
+    failureReason: refund.failureReason,
+  };
+};
+
+export const recordRefundPayout = async (requestId: string, adminId: string, reference?: string) => {
+  const refund = await recordManualRefundPayout(requestId, adminId, reference);
+  return { message: 'Refund payout recorded', refundStatus: refund.status };
+};
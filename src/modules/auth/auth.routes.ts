@@ -1,4 +1,4 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import {
@@ -7,27 +7,67 @@ import {
   refreshSchema,
   walletLoginSchema,
   resetPasswordSchema,
+  confirmPasswordResetSchema,
+  confirmEmailVerificationSchema,
+  sendPhoneVerificationSchema,
+  confirmPhoneVerificationSchema,
+  verificationStatusSchema,
   logoutSchema,
   userResponseSchema,
   authResponseSchema,
   validateTokenResponseSchema,
+  twoFactorChallengeSchema,
+  twoFactorChallengeTokenSchema,
+  twoFactorLoginSchema,
+  twoFactorLoginResponseSchema,
+  twoFactorProvisioningSchema,
+  twoFactorStatusSchema,
+  enableTwoFactorSchema,
+  disableTwoFactorSchema,
+  regenerateRecoveryCodesSchema,
+  unlockAccountSchema,
 } from './auth.schema';
 import {
   registerUser,
   registerAndLogin,
   loginUser,
+  completeTwoFactorLogin,
   refreshAccessToken,
   walletLogin,
   requestPasswordReset,
+  confirmPasswordReset,
   validateToken,
   logoutUser,
+  SessionClient,
 } from './auth.service';
+import {
+  sendEmailVerification,
+  confirmEmailVerification,
+  sendPhoneVerification,
+  confirmPhoneVerification,
+  getVerificationStatus,
+} from './verification.service';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  setupTwoFactorForChallenge,
+} from './two-factor.service';
+import { unlockAccount } from './login-protection.service';
 
 // Error response schema for validation
 const errorResponseSchema = z.object({
   error: z.string(),
 });
 
+// Device details recorded on the session's refresh tokens
+const getSessionClient = (request: FastifyRequest): SessionClient => ({
+  userAgent: request.headers['user-agent'],
+  ipAddress: request.ip,
+});
+
 export default async (fastify: FastifyInstance) => {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
 
@@ -47,7 +87,7 @@ export default async (fastify: FastifyInstance) => {
     },
     async (request, reply) => {
       try {
-        const result = await registerAndLogin(request.body, fastify);
+        const result = await registerAndLogin(request.body, fastify, getSessionClient(request));
         return reply.status(201).send(result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Registration failed';
@@ -63,22 +103,24 @@ export default async (fastify: FastifyInstance) => {
     '/login',
     {
       schema: {
-        description: 'Login with email and password',
+        description: 'Login with email and password (returns a 2FA challenge instead of tokens when required)',
         tags: ['auth'],
         body: loginSchema,
         response: {
-          200: authResponseSchema,
+          200: z.union([authResponseSchema, twoFactorChallengeSchema]),
           401: errorResponseSchema,
+          429: errorResponseSchema,
         },
       },
     },
     async (request, reply) => {
       try {
-        const tokens = await loginUser(request.body, fastify);
+        const tokens = await loginUser(request.body, fastify, getSessionClient(request));
         return reply.send(tokens);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Login failed';
-        return reply.status(401).send({
+        const statusCode = errorMessage.includes('Too many') ? 429 : 401;
+        return reply.status(statusCode).send({
           error: errorMessage,
         });
       }
@@ -101,7 +143,7 @@ export default async (fastify: FastifyInstance) => {
     },
     async (request, reply) => {
       try {
-        const tokens = await refreshAccessToken(request.body, fastify);
+        const tokens = await refreshAccessToken(request.body, fastify, getSessionClient(request));
         return reply.send(tokens);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Token refresh failed';
@@ -117,18 +159,18 @@ export default async (fastify: FastifyInstance) => {
     '/wallet-login',
     {
       schema: {
-        description: 'Login with Web3 wallet signature',
+        description: 'Login with Web3 wallet signature (returns a 2FA challenge instead of tokens when required)',
         tags: ['auth'],
         body: walletLoginSchema,
         response: {
-          200: authResponseSchema,
+          200: z.union([authResponseSchema, twoFactorChallengeSchema]),
           401: errorResponseSchema,
         },
       },
     },
     async (request, reply) => {
       try {
-        const tokens = await walletLogin(request.body, fastify);
+        const tokens = await walletLogin(request.body, fastify, getSessionClient(request));
         return reply.send(tokens);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Wallet login failed';
@@ -139,6 +181,83 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
+  // Second login step - exchange the challenge and a TOTP or recovery code for tokens
+  server.post(
+    '/login/2fa',
+    {
+      schema: {
+        description: 'Complete sign-in with a two-factor code or recovery code',
+        tags: ['auth'],
+        body: twoFactorLoginSchema,
+        response: {
+          200: twoFactorLoginResponseSchema,
+          401: errorResponseSchema,
+          429: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const tokens = await completeTwoFactorLogin(request.body, fastify);
+        return reply.send(tokens);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Two-factor verification failed';
+        const statusCode = errorMessage.includes('Too many failed') ? 429 : 401;
+        return reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Enrol during sign-in, for accounts the 2FA policy covers that haven't set it up yet
+  server.post(
+    '/login/2fa/setup',
+    {
+      schema: {
+        description: 'Get an authenticator secret and QR code for a sign-in that requires 2FA setup',
+        tags: ['auth'],
+        body: twoFactorChallengeTokenSchema,
+        response: {
+          200: twoFactorProvisioningSchema,
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await setupTwoFactorForChallenge(request.body.challengeToken);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Two-factor setup failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Unlock an account from the link emailed after a lockout (public - the link is the proof)
+  server.post(
+    '/unlock',
+    {
+      schema: {
+        description: 'Unlock an account locked after repeated failed sign-ins',
+        tags: ['auth'],
+        body: unlockAccountSchema,
+        response: {
+          200: z.object({ message: z.string() }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await unlockAccount(request.body.token);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Account unlock failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
   // Password reset request
   server.post(
     '/reset-password',
@@ -164,6 +283,292 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
+  // Password reset confirmation - sets the new password and signs out every session
+  server.post(
+    '/reset-password/confirm',
+    {
+      schema: {
+        description: 'Set a new password using a reset link token',
+        tags: ['auth'],
+        body: confirmPasswordResetSchema,
+        response: {
+          200: z.object({ message: z.string() }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await confirmPasswordReset(request.body);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Password reset failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Verification status for the signed-in account
+  server.get(
+    '/verification',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Email and phone verification status',
+        tags: ['auth'],
+        response: {
+          200: verificationStatusSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getVerificationStatus(request.user!.id);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Verification status failed';
+        return reply.status(404).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Send (or resend) the email confirmation link - rate limited
+  server.post(
+    '/verify-email/send',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Email a signed confirmation link to the account email address',
+        tags: ['auth'],
+        response: {
+          200: z.object({ message: z.string() }),
+          400: errorResponseSchema,
+          429: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await sendEmailVerification(request.user!.id);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Could not send verification email';
+        const statusCode = errorMessage.includes('Too many') || errorMessage.includes('Please wait') ? 429 : 400;
+        return reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Confirm an email address from the signed link (public - the link is the proof)
+  server.post(
+    '/verify-email/confirm',
+    {
+      schema: {
+        description: 'Confirm an email address with the token from the verification link',
+        tags: ['auth'],
+        body: confirmEmailVerificationSchema,
+        response: {
+          200: z.object({ message: z.string(), email: z.string() }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await confirmEmailVerification(request.body.token);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Email verification failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Text a verification code to a +254 number - rate limited
+  server.post(
+    '/verify-phone/send',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Send an SMS verification code to the profile (or a new) phone number',
+        tags: ['auth'],
+        body: sendPhoneVerificationSchema,
+        response: {
+          200: z.object({ message: z.string(), expiresInSeconds: z.number() }),
+          400: errorResponseSchema,
+          429: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await sendPhoneVerification(request.user!.id, request.body.phoneNumber);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Could not send verification code';
+        const statusCode = errorMessage.includes('Too many') || errorMessage.includes('Please wait') ? 429 : 400;
+        return reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Confirm the SMS code
+  server.post(
+    '/verify-phone/confirm',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Verify a phone number with the code sent by SMS',
+        tags: ['auth'],
+        body: confirmPhoneVerificationSchema,
+        response: {
+          200: z.object({ message: z.string(), phoneNumber: z.string() }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await confirmPhoneVerification(request.user!.id, request.body.code);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Phone verification failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Two-factor status for the signed-in account
+  server.get(
+    '/2fa',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Two-factor authentication status',
+        tags: ['auth'],
+        response: {
+          200: twoFactorStatusSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getTwoFactorStatus(request.user!.id);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Two-factor status failed';
+        return reply.status(404).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Start 2FA enrolment - returns the secret and a QR code for the authenticator app
+  server.post(
+    '/2fa/setup',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Generate an authenticator secret and QR code',
+        tags: ['auth'],
+        response: {
+          200: twoFactorProvisioningSchema,
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await setupTwoFactor(request.user!.id);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Two-factor setup failed';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Confirm the first code and turn 2FA on (returns the recovery codes once)
+  server.post(
+    '/2fa/enable',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Enable two-factor authentication with a code from the authenticator app',
+        tags: ['auth'],
+        body: enableTwoFactorSchema,
+        response: {
+          200: z.object({ message: z.string(), recoveryCodes: z.array(z.string()) }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await enableTwoFactor(request.user!.id, request.body.code);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Could not enable two-factor authentication';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Turn 2FA off (not allowed while the admin policy covers the account's role)
+  server.post(
+    '/2fa/disable',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Disable two-factor authentication with a current code or recovery code',
+        tags: ['auth'],
+        body: disableTwoFactorSchema,
+        response: {
+          200: z.object({ message: z.string() }),
+          400: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await disableTwoFactor(request.user!.id, request.body.code);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Could not disable two-factor authentication';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 : 400;
+        return reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Replace the recovery codes
+  server.post(
+    '/2fa/recovery-codes',
+    {
+      preHandler: [fastify.authenticate],
+      schema: {
+        description: 'Generate a new set of recovery codes (the old ones stop working)',
+        tags: ['auth'],
+        body: regenerateRecoveryCodesSchema,
+        response: {
+          200: z.object({ recoveryCodes: z.array(z.string()) }),
+          400: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await regenerateRecoveryCodes(request.user!.id, request.body.code);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Could not regenerate recovery codes';
+        return reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
   // Validate JWT token
   server.get(
     '/validate',
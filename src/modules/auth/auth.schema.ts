@@ -13,10 +13,16 @@ const emergencyContactSchema = z.object({
   relationship: z.string().optional(),
 }).optional();
 
+// Password rules - shared by registration and password reset
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must not exceed 128 characters')
+  .refine((val) => val.trim().length > 0, 'Password cannot be blank');
+
 // Zod schemas for validation
 export const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: passwordSchema,
   fullName: z.string().min(1, 'Full name is required'),
   role: roleEnum.default('ATTENDEE'),
 
@@ -89,10 +95,99 @@ export const authResponseSchema = z.object({
   }),
 });
 
+// Returned by the login endpoints instead of tokens when the account must pass (or set up) 2FA
+export const twoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  setupRequired: z.boolean(),
+  challengeToken: z.string(),
+  expiresInSeconds: z.number(),
+});
+
+export const twoFactorChallengeTokenSchema = z.object({
+  challengeToken: z.string().uuid('Invalid challenge token'),
+});
+
+// A 6-digit authenticator code, or a recovery code such as "k7f3q-x9m2p"
+const secondFactorCodeSchema = z.string()
+  .trim()
+  .min(6, 'Enter the 6-digit code from your authenticator app or a recovery code')
+  .max(20, 'Code is too long');
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().uuid('Invalid challenge token'),
+  code: secondFactorCodeSchema,
+});
+
+// Recovery codes are only included when the account enrolled during this sign-in
+export const twoFactorLoginResponseSchema = authResponseSchema.extend({
+  recoveryCodes: z.array(z.string()).optional(),
+});
+
+export const twoFactorProvisioningSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCode: z.string(), // PNG data URL
+  expiresInSeconds: z.number().optional(),
+});
+
+export const enableTwoFactorSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const disableTwoFactorSchema = z.object({
+  code: secondFactorCodeSchema,
+});
+
+export const regenerateRecoveryCodesSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  enabledAt: z.date().nullable(),
+  required: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+});
+
+export const unlockAccountSchema = z.object({
+  token: z.string().uuid('Invalid unlock token'),
+});
+
 export const resetPasswordSchema = z.object({
   email: z.string().email('Invalid email format'),
 });
 
+export const confirmPasswordResetSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid reset token'),
+  password: passwordSchema,
+});
+
+export const confirmEmailVerificationSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export const sendPhoneVerificationSchema = z.object({
+  // Defaults to the phone number on the profile
+  phoneNumber: z.string()
+    .regex(kenyanPhoneRegex, 'Invalid Kenyan phone number format (+254XXXXXXXXX)')
+    .optional(),
+});
+
+export const confirmPhoneVerificationSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const verificationStatusSchema = z.object({
+  email: z.string(),
+  emailVerified: z.boolean(),
+  emailVerifiedAt: z.date().nullable(),
+  phoneNumber: z.string().nullable(),
+  phoneVerified: z.boolean(),
+  phoneVerifiedAt: z.date().nullable(),
+});
+
 export const logoutSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
@@ -113,4 +208,7 @@ export const validateTokenResponseSchema = z.object({
 export type UserResponse = z.infer<typeof userResponseSchema>;
 export type AuthResponse = z.infer<typeof authResponseSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
-export type LogoutInput = z.infer<typeof logoutSchema>;
\ No newline at end of file
+export type ConfirmPasswordResetInput = z.infer<typeof confirmPasswordResetSchema>;
+export type LogoutInput = z.infer<typeof logoutSchema>;
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
\ No newline at end of file
@@ -1,9 +1,15 @@
 import * as argon2 from 'argon2';
-import { randomBytes } from 'crypto';
+import { randomBytes, randomUUID } from 'crypto';
 import { prisma } from '../../lib/prisma';
 import { redis } from '../../lib/redis';
 import { envConfig } from '../../config/env';
 import { logAudit } from '../../lib/audit';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { getFrontendUrl } from '../../lib/email';
+import { sendPasswordResetEmail } from '../../lib/queue';
+import { sendEmailVerification } from './verification.service';
+import { startTwoFactorChallenge, verifyTwoFactorChallenge, isTwoFactorRequired } from './two-factor.service';
+import { assertLoginAllowed, recordFailedLogin, clearFailedLogins } from './login-protection.service';
 import { ethers } from 'ethers';
 import {
   RegisterInput,
@@ -11,11 +17,16 @@ import {
   RefreshInput,
   WalletLoginInput,
   ResetPasswordInput,
+  ConfirmPasswordResetInput,
   LogoutInput,
+  TwoFactorLoginInput,
   AuthResponse,
+  TwoFactorChallenge,
   UserResponse,
+  passwordSchema,
 } from './auth.schema';
 import { FastifyInstance } from 'fastify';
+import { User } from '@prisma/client';
 
 // OWASP-recommended argon2id params — fast enough for <1.5s signup, secure for production
 const ARGON2_PARAMS = {
@@ -28,16 +39,59 @@ const ARGON2_PARAMS = {
 // Redis TTL for cached user profiles (seconds)
 const USER_PROFILE_CACHE_TTL = 60;
 
-// Helper to generate JWT
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Device a session is used from (recorded on its refresh tokens)
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Helper to generate JWT (sid = the session / refresh token family it was issued for)
 const generateAccessToken = async (
   fastify: FastifyInstance,
-  payload: { id: string; email?: string; address?: string; role: string }
+  payload: { id: string; email?: string; address?: string; role: string; sid?: string }
 ): Promise<string> => {
   return fastify.jwt.sign(payload, {
     expiresIn: envConfig.JWT_ACCESS_EXPIRATION || '15m',
   });
 };
 
+// Issue the tokens for a new session (token family). Wallet sign-ins carry the address instead of the email.
+const startSession = async (
+  fastify: FastifyInstance,
+  user: User,
+  client: SessionClient,
+  address?: string
+): Promise<AuthResponse> => {
+  const familyId = randomUUID();
+  const [accessToken, refreshToken] = await Promise.all([
+    generateAccessToken(
+      fastify,
+      address
+        ? { id: user.id, address, role: user.role, sid: familyId }
+        : { id: user.id, email: user.email, role: user.role, sid: familyId }
+    ),
+    generateRefreshToken(user.id, { familyId }, client),
+  ]);
+
+  return {
+    accessToken,
+    refreshToken,
+    user: address
+      ? { id: user.id, role: user.role, address }
+      : {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          fullName: user.fullName ?? undefined,
+          avatarUrl: user.avatarUrl ?? undefined,
+          phoneNumber: user.phoneNumber ?? undefined,
+          isVerified: user.isVerified,
+        },
+  };
+};
+
 // Register new user (email/password)
 export const registerUser = async (
   data: RegisterInput,
@@ -92,6 +146,13 @@ export const registerUser = async (
     phoneNumber: phoneNumber ? '***' + phoneNumber.slice(-4) : undefined,
   });
 
+  try {
+    await sendEmailVerification(user.id);
+  } catch (emailError) {
+    // Non-critical - the user can request a new link
+    console.error(`[Auth] Failed to send verification email for user ${user.id}:`, emailError);
+  }
+
   return {
     id: user.id,
     email: user.email,
@@ -108,18 +169,21 @@ export const registerUser = async (
 // Register new user and auto-login (returns tokens)
 export const registerAndLogin = async (
   data: RegisterInput,
-  fastify: FastifyInstance
+  fastify: FastifyInstance,
+  client: SessionClient = {}
 ): Promise<AuthResponse> => {
   const userResponse = await registerUser(data, fastify);
 
   // Parallelize token generation
+  const familyId = randomUUID();
   const [accessToken, refreshToken] = await Promise.all([
     generateAccessToken(fastify, {
       id: userResponse.id,
       email: userResponse.email,
       role: userResponse.role,
+      sid: familyId,
     }),
-    generateRefreshToken(userResponse.id),
+    generateRefreshToken(userResponse.id, { familyId }, client),
   ]);
 
   await logAudit('USER_AUTO_LOGIN_AFTER_REGISTER', 'User', userResponse.id, userResponse.id, {
@@ -140,16 +204,21 @@ export const registerAndLogin = async (
   };
 };
 
-// Traditional email/password login
+// Traditional email/password login. Accounts with 2FA get a challenge instead of tokens.
 export const loginUser = async (
   data: LoginInput,
-  fastify: FastifyInstance
-): Promise<AuthResponse> => {
+  fastify: FastifyInstance,
+  client: SessionClient = {}
+): Promise<AuthResponse | TwoFactorChallenge> => {
   const { email, password } = data;
 
+  // Locked or backing off - refuse before spending a password check
+  await assertLoginAllowed(email, client.ipAddress);
+
   const user = await prisma.user.findUnique({ where: { email } });
 
   if (!user || !user.passwordHash) {
+    await recordFailedLogin(email, client.ipAddress);
     throw new Error('Invalid credentials');
   }
 
@@ -161,6 +230,7 @@ export const loginUser = async (
   const isValidPassword = await argon2.verify(user.passwordHash, password);
 
   if (!isValidPassword) {
+    await recordFailedLogin(email, client.ipAddress);
     throw new Error('Invalid credentials');
   }
 
@@ -172,52 +242,119 @@ export const loginUser = async (
     await redis.del(`user:profile:${user.id}`);
   }
 
-  // Parallelize access token + refresh token generation
-  const [accessToken, refreshToken] = await Promise.all([
-    generateAccessToken(fastify, { id: user.id, email: user.email, role: user.role }),
-    generateRefreshToken(user.id),
-  ]);
+  // Password is right - the JWT waits until the second factor is verified
+  const challenge = await startTwoFactorChallenge(user, client);
+  if (challenge) {
+    await logAudit('USER_LOGIN_TWO_FACTOR_CHALLENGE', 'User', user.id, user.id, {
+      email,
+      setupRequired: challenge.setupRequired,
+    });
+    return challenge;
+  }
+
+  // Counters only reset once the whole sign-in succeeds, so 2FA guesses can't be retried with a fresh password login
+  await clearFailedLogins(email);
+
+  const session = await startSession(fastify, user, client);
 
   await logAudit('USER_LOGIN_SUCCESS', 'User', user.id, user.id, { email });
 
-  return {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user.id,
-      email: user.email,
-      role: user.role,
-      fullName: user.fullName ?? undefined,
-      avatarUrl: user.avatarUrl ?? undefined,
-      phoneNumber: user.phoneNumber ?? undefined,
-      isVerified: user.isVerified,
-    },
-  };
+  return session;
+};
+
+// Second login step: a TOTP or recovery code for the challenge from the first step
+export const completeTwoFactorLogin = async (
+  data: TwoFactorLoginInput,
+  fastify: FastifyInstance
+): Promise<AuthResponse & { recoveryCodes?: string[] }> => {
+  const { userId, client, address, recoveryCodes } = await verifyTwoFactorChallenge(data.challengeToken, data.code);
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || !user.isActive || user.isBanned) {
+    throw new Error('Account is deactivated. Please contact support.');
+  }
+
+  if (!address) {
+    await clearFailedLogins(user.email);
+  }
+
+  const session = await startSession(fastify, user, client, address);
+
+  await logAudit(address ? 'WALLET_LOGIN_SUCCESS' : 'USER_LOGIN_SUCCESS', 'User', user.id, user.id, {
+    email: address ? undefined : user.email,
+    address,
+    twoFactor: true,
+  });
+
+  return recoveryCodes ? { ...session, recoveryCodes } : session;
 };
 
-// Generate & store refresh token
-export const generateRefreshToken = async (userId: string): Promise<string> => {
+// Generate & store refresh token for a session (token family)
+export const generateRefreshToken = async (
+  userId: string,
+  family: { familyId: string; sessionStartedAt?: Date },
+  client: SessionClient = {}
+): Promise<string> => {
   const token = randomBytes(32).toString('hex');
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
 
   await prisma.refreshToken.create({
     data: {
       userId,
       token,
+      familyId: family.familyId,
+      sessionStartedAt: family.sessionStartedAt,
+      userAgent: client.userAgent?.slice(0, 512),
+      ipAddress: client.ipAddress,
       expiresAt,
       revoked: false,
     },
   });
 
-  await logAudit('REFRESH_TOKEN_ISSUED', 'User', userId, userId, { expiresAt });
+  await logAudit('REFRESH_TOKEN_ISSUED', 'User', userId, userId, { expiresAt, familyId: family.familyId });
 
   return token;
 };
 
+// A rotated-out token came back: someone holds a copy. End the whole session and tell the admins.
+const handleRefreshTokenReuse = async (
+  stored: { id: string; userId: string; familyId: string; userAgent: string | null; ipAddress: string | null },
+  client: SessionClient
+) => {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { familyId: stored.familyId, revoked: false },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: 'REUSE_DETECTED' },
+  });
+
+  await logAudit('REFRESH_TOKEN_REUSE_DETECTED', 'User', stored.userId, stored.userId, {
+    familyId: stored.familyId,
+    tokenId: stored.id,
+    ipAddress: client.ipAddress,
+    tokensRevoked: count,
+  });
+
+  await createSystemAlert(
+    'security',
+    'high',
+    'Refresh token reuse detected',
+    `A refresh token that had already been rotated was presented again for user ${stored.userId}. The session has been revoked.`,
+    {
+      userId: stored.userId,
+      familyId: stored.familyId,
+      tokenId: stored.id,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      sessionIpAddress: stored.ipAddress,
+      sessionUserAgent: stored.userAgent,
+    }
+  );
+};
+
 // Refresh access token (rotate refresh for security)
 export const refreshAccessToken = async (
   data: RefreshInput,
-  fastify: FastifyInstance
+  fastify: FastifyInstance,
+  client: SessionClient = {}
 ): Promise<AuthResponse> => {
   const { refreshToken } = data;
 
@@ -226,7 +363,18 @@ export const refreshAccessToken = async (
     include: { user: true },
   });
 
-  if (!stored || stored.revoked || stored.expiresAt < new Date()) {
+  if (!stored) {
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  if (stored.revoked) {
+    if (stored.revokedReason === 'ROTATED') {
+      await handleRefreshTokenReuse(stored, client);
+    }
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  if (stored.expiresAt < new Date()) {
     throw new Error('Invalid or expired refresh token');
   }
 
@@ -235,21 +383,41 @@ export const refreshAccessToken = async (
     throw new Error('User not found');
   }
 
-  const accessToken = await generateAccessToken(fastify, {
-    id: user.id,
-    email: user.email,
-    role: user.role,
-  });
+  // Sessions from before the 2FA policy covered this role end here; signing in again walks through enrolment
+  if (!user.twoFactorEnabled && (await isTwoFactorRequired(user.role))) {
+    throw new Error('Two-factor authentication is now required for your account. Sign in again to set it up.');
+  }
 
-  // Rotate refresh token for security
-  await prisma.refreshToken.update({
-    where: { token: refreshToken },
-    data: { revoked: true },
+  // Rotate refresh token for security - only one request can retire it
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revoked: false },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: 'ROTATED' },
   });
 
-  const newRefresh = await generateRefreshToken(user.id);
+  if (count === 0) {
+    // Another request rotated it first - the same token was used twice
+    await handleRefreshTokenReuse(stored, client);
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  const [accessToken, newRefresh] = await Promise.all([
+    generateAccessToken(fastify, {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sid: stored.familyId,
+    }),
+    generateRefreshToken(
+      user.id,
+      { familyId: stored.familyId, sessionStartedAt: stored.sessionStartedAt },
+      {
+        userAgent: client.userAgent ?? stored.userAgent ?? undefined,
+        ipAddress: client.ipAddress ?? stored.ipAddress ?? undefined,
+      }
+    ),
+  ]);
 
-  await logAudit('REFRESH_TOKEN_ROTATED', 'User', user.id, user.id);
+  await logAudit('REFRESH_TOKEN_ROTATED', 'User', user.id, user.id, { familyId: stored.familyId });
 
   return {
     accessToken,
@@ -265,8 +433,9 @@ export const refreshAccessToken = async (
 // Wallet login (SIWE-style signature verification with replay protection)
 export const walletLogin = async (
   data: WalletLoginInput,
-  fastify: FastifyInstance
-): Promise<AuthResponse> => {
+  fastify: FastifyInstance,
+  client: SessionClient = {}
+): Promise<AuthResponse | TwoFactorChallenge> => {
   const { address, signature, message, nonce, timestamp } = data;
 
   // 1. Validate timestamp (must be within 5 minutes)
@@ -322,50 +491,110 @@ export const walletLogin = async (
     await logAudit('WALLET_USER_CREATED', 'User', user.id, user.id, { address });
   }
 
-  const accessToken = await generateAccessToken(fastify, {
-    id: user.id,
-    address,
-    role: user.role,
-  });
+  const challenge = await startTwoFactorChallenge(user, client, address);
+  if (challenge) {
+    await logAudit('WALLET_LOGIN_TWO_FACTOR_CHALLENGE', 'User', user.id, user.id, {
+      address,
+      setupRequired: challenge.setupRequired,
+    });
+    return challenge;
+  }
 
-  const refreshToken = await generateRefreshToken(user.id);
+  const session = await startSession(fastify, user, client, address);
 
   await logAudit('WALLET_LOGIN_SUCCESS', 'User', user.id, user.id, { address });
 
-  return {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user.id,
-      role: user.role,
-      address,
-    },
-  };
+  return session;
 };
 
-// Request password reset (sends token to Redis)
+// Password reset links are valid for an hour; only the most recent link for an account works
+const PASSWORD_RESET_TTL = 3600;
+const passwordResetKey = (token: string) => `pwd_reset:${token}`;
+const passwordResetUserKey = (userId: string) => `pwd_reset:user:${userId}`;
+
+// Request password reset (token in Redis, link emailed through the queue)
 export const requestPasswordReset = async (data: ResetPasswordInput): Promise<{ message: string }> => {
   const { email } = data;
 
   // Always return success message to prevent email enumeration
   const user = await prisma.user.findUnique({ where: { email } });
 
-  if (user) {
+  if (user && !user.isBanned) {
     const resetToken = randomBytes(32).toString('hex');
-    const redisKey = `pwd_reset:${resetToken}`;
+
+    // A new request voids the previous link
+    const previousToken = await redis.get<string>(passwordResetUserKey(user.id));
+    if (previousToken) {
+      await redis.del(passwordResetKey(previousToken));
+    }
 
     // Store token in Redis with 1 hour TTL
-    await redis.set(redisKey, user.id, { ex: 3600 });
+    await redis.set(passwordResetKey(resetToken), user.id, { ex: PASSWORD_RESET_TTL });
+    await redis.set(passwordResetUserKey(user.id), resetToken, { ex: PASSWORD_RESET_TTL });
 
     await logAudit('PASSWORD_RESET_REQUESTED', 'User', user.id, user.id, { email });
 
-    // TODO: Send email with reset link containing the token
-    // In production, integrate with email service (e.g., Resend, SendGrid)
+    try {
+      await sendPasswordResetEmail(user.email, {
+        name: user.fullName ?? 'there',
+        resetLink: `${getFrontendUrl()}/reset-password?token=${resetToken}`,
+        expiresIn: '1 hour',
+      });
+    } catch (emailError) {
+      console.error(`[Auth] Failed to queue password reset email for user ${user.id}:`, emailError);
+    }
   }
 
   return { message: 'If an account with that email exists, a reset link has been sent.' };
 };
 
+// Set a new password with a reset link. The token is single-use and every session is signed out.
+export const confirmPasswordReset = async (data: ConfirmPasswordResetInput): Promise<{ message: string }> => {
+  const { token, password } = data;
+
+  const rules = passwordSchema.safeParse(password);
+  if (!rules.success) {
+    throw new Error(rules.error.issues[0]?.message ?? 'Invalid password');
+  }
+
+  const userId = await redis.get<string>(passwordResetKey(token));
+  if (!userId) {
+    throw new Error('Invalid or expired reset link. Request a new one.');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || user.isBanned) {
+    throw new Error('Invalid or expired reset link. Request a new one.');
+  }
+
+  if (user.passwordHash && (await argon2.verify(user.passwordHash, password))) {
+    throw new Error('New password must be different from your current password');
+  }
+
+  // Consume the token - if two requests race, only the first gets it back
+  const consumed = await redis.getdel<string>(passwordResetKey(token));
+  if (consumed !== userId) {
+    throw new Error('Invalid or expired reset link. Request a new one.');
+  }
+  await redis.del(passwordResetUserKey(userId));
+
+  const passwordHash = await argon2.hash(password, ARGON2_PARAMS);
+
+  const [, revoked] = await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+    prisma.refreshToken.updateMany({
+      where: { userId, revoked: false },
+      data: { revoked: true, revokedAt: new Date(), revokedReason: 'PASSWORD_RESET' },
+    }),
+  ]);
+
+  await invalidateUserProfileCache(userId);
+
+  await logAudit('PASSWORD_RESET_COMPLETED', 'User', userId, userId, { sessionsRevoked: revoked.count });
+
+  return { message: 'Your password has been reset. Sign in with your new password.' };
+};
+
 // Validate JWT token — Redis-cached (60s TTL) to avoid DB hit on every page load
 export const validateToken = async (userId: string) => {
   const cacheKey = `user:profile:${userId}`;
@@ -438,10 +667,11 @@ export const logoutUser = async (data: LogoutInput, userId: string): Promise<{ m
     where: { token: refreshToken },
   });
 
+  // Signing out ends the whole session, not just the latest token
   if (stored && stored.userId === userId) {
-    await prisma.refreshToken.update({
-      where: { token: refreshToken },
-      data: { revoked: true },
+    await prisma.refreshToken.updateMany({
+      where: { familyId: stored.familyId, revoked: false },
+      data: { revoked: true, revokedAt: new Date(), revokedReason: 'LOGOUT' },
     });
   }
 
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory Redis with TTLs (seconds since the test's fake clock started)
+const { store, fakeRedis, clock } = vi.hoisted(() => {
+  const clock = { now: 0 };
+  const store = new Map<string, { value: unknown; expiresAt: number | null }>();
+
+  const live = (key: string) => {
+    const entry = store.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= clock.now) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const set = (key: string, value: unknown, ex?: number) =>
+    store.set(key, { value, expiresAt: ex ? clock.now + ex : null });
+
+  const expire = (key: string, seconds: number) => {
+    const entry = live(key);
+    if (entry) entry.expiresAt = clock.now + seconds;
+    return entry ? 1 : 0;
+  };
+
+  const sadd = (key: string, member: string) => {
+    const entry = live(key);
+    const members = (entry?.value as Set<string> | undefined) ?? new Set<string>();
+    members.add(member);
+    store.set(key, { value: members, expiresAt: entry?.expiresAt ?? null });
+    return 1;
+  };
+
+  const scard = (key: string) => ((live(key)?.value as Set<string> | undefined)?.size ?? 0);
+
+  const fakeRedis = {
+    ttl: vi.fn(async (key: string) => {
+      const entry = live(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : entry.expiresAt - clock.now;
+    }),
+    set: vi.fn(async (key: string, value: unknown, opts?: { ex?: number; nx?: boolean }) => {
+      if (opts?.nx && live(key)) return null;
+      set(key, value, opts?.ex);
+      return 'OK';
+    }),
+    del: vi.fn(async (...keys: string[]) => keys.filter((key) => store.delete(key)).length),
+    getdel: vi.fn(async (key: string) => {
+      const entry = live(key);
+      store.delete(key);
+      return entry?.value ?? null;
+    }),
+    srandmember: vi.fn(async (key: string) => [...((live(key)?.value as Set<string> | undefined) ?? [])]),
+    multi: vi.fn(() => {
+      const queued: Array<() => unknown> = [];
+      const pipeline = {
+        sadd: (key: string, member: string) => (queued.push(() => sadd(key, member)), pipeline),
+        expire: (key: string, seconds: number) => (queued.push(() => expire(key, seconds)), pipeline),
+        scard: (key: string) => (queued.push(() => scard(key)), pipeline),
+        exec: async () => queued.map((command) => command()),
+      };
+      return pipeline;
+    }),
+    // Does what COUNT_FAILURE_SCRIPT does, in one synchronous (so atomic) step
+    eval: vi.fn(async (_script: string, keys: string[], args: string[]) => {
+      const [failuresKey, delayKey, lockKey] = keys as [string, string, string];
+      const [window, delayAfter, lockoutAfter, lockoutSeconds, maxDelay] = args.map(Number) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+
+      const failures = Number(live(failuresKey)?.value ?? 0) + 1;
+      set(failuresKey, failures, window);
+
+      if (failures >= lockoutAfter) {
+        store.delete(failuresKey);
+        store.delete(delayKey);
+        set(lockKey, '1', lockoutSeconds);
+      } else if (failures >= delayAfter) {
+        set(delayKey, '1', Math.floor(Math.min(2 ** (failures - delayAfter), maxDelay)));
+      }
+      return failures;
+    }),
+  };
+
+  return { store, fakeRedis, clock };
+});
+
+vi.mock('../../lib/redis', () => ({ redis: fakeRedis }));
+vi.mock('../../lib/prisma', () => ({
+  prisma: { user: { findUnique: vi.fn().mockResolvedValue({ id: 'user-1', email: 'amina@example.com', fullName: 'Amina', isBanned: false }) } },
+}));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../../lib/email', () => ({ getFrontendUrl: () => 'https://app.test' }));
+vi.mock('../../lib/queue', () => ({ sendAccountUnlockEmail: vi.fn() }));
+vi.mock('../alerts/alerts.service', () => ({ createSystemAlert: vi.fn() }));
+
+import {
+  assertLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  unlockAccount,
+} from './login-protection.service';
+import { sendAccountUnlockEmail } from '../../lib/queue';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { logAudit } from '../../lib/audit';
+
+const EMAIL = 'Amina@Example.com';
+const IP = '203.0.113.7';
+
+const fail = async (times: number, email = EMAIL, ip: string | undefined = IP) => {
+  for (let i = 0; i < times; i++) {
+    await recordFailedLogin(email, ip);
+  }
+};
+
+describe('login protection', () => {
+  beforeEach(() => {
+    store.clear();
+    clock.now = 0;
+    vi.clearAllMocks();
+  });
+
+  it('counts failures in one atomic script per account and IP', async () => {
+    await fail(1);
+
+    expect(fakeRedis.eval).toHaveBeenCalledTimes(2);
+    expect(fakeRedis.eval).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining("redis.call('INCR', KEYS[1])"),
+      ['login:fail:account:amina@example.com', 'login:delay:account:amina@example.com', 'login:lock:account:amina@example.com'],
+      ['900', '3', '10', '1800', '60']
+    );
+    expect(fakeRedis.eval).toHaveBeenNthCalledWith(
+      2,
+      expect.any(String),
+      [`login:fail:ip:${IP}`, `login:delay:ip:${IP}`, `login:lock:ip:${IP}`],
+      ['900', '10', '50', '3600', '60']
+    );
+  });
+
+  it('lets the first two failures retry straight away', async () => {
+    await fail(2);
+    await expect(assertLoginAllowed(EMAIL, IP)).resolves.toBeUndefined();
+  });
+
+  it('makes later attempts wait, doubling the delay each time', async () => {
+    await fail(3);
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toThrow('Please wait 1 second before trying again');
+
+    await fail(1);
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toThrow('Please wait 2 seconds before trying again');
+
+    clock.now += 2;
+    await expect(assertLoginAllowed(EMAIL, IP)).resolves.toBeUndefined();
+  });
+
+  it('locks the account on the tenth failure and emails an unlock link once', async () => {
+    await fail(10);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toThrow('This account is locked for 30 minutes');
+    expect(sendAccountUnlockEmail).toHaveBeenCalledTimes(1);
+    expect(sendAccountUnlockEmail).toHaveBeenCalledWith(
+      'amina@example.com',
+      expect.objectContaining({ failedAttempts: 10, unlockLink: expect.stringContaining('https://app.test/unlock-account?token=') })
+    );
+    // The counter starts again once the lock is in place
+    expect(store.has('login:fail:account:amina@example.com')).toBe(false);
+  });
+
+  it('unlocks the account from the emailed link, once', async () => {
+    await fail(10);
+    const { unlockLink } = vi.mocked(sendAccountUnlockEmail).mock.calls[0]![1];
+    const token = new URL(unlockLink).searchParams.get('token')!;
+
+    await expect(unlockAccount(token)).resolves.toMatchObject({ message: expect.stringContaining('unlocked') });
+    await expect(assertLoginAllowed(EMAIL)).resolves.toBeUndefined();
+    await expect(unlockAccount(token)).rejects.toThrow('Invalid or expired unlock link');
+  });
+
+  it('resets the account counter after a successful sign-in', async () => {
+    await fail(2);
+    await clearFailedLogins(EMAIL);
+    await fail(2);
+
+    await expect(assertLoginAllowed(EMAIL)).resolves.toBeUndefined();
+  });
+
+  it('forgets failures once the window passes without another one', async () => {
+    await fail(2);
+    clock.now += 15 * 60;
+    await fail(1);
+
+    await expect(assertLoginAllowed(EMAIL)).resolves.toBeUndefined();
+  });
+
+  it('blocks an IP after fifty failures across accounts', async () => {
+    for (let i = 0; i < 50; i++) {
+      await recordFailedLogin(`user${i % 5}@example.com`, IP);
+    }
+
+    await expect(assertLoginAllowed('someone-else@example.com', IP)).rejects.toThrow('from your network');
+    expect(logAudit).toHaveBeenCalledWith('LOGIN_IP_BLOCKED', 'User', null, null, { ipAddress: IP, failedAttempts: 50 });
+  });
+
+  it('flags credential stuffing once when many accounts fail from one IP', async () => {
+    for (let i = 0; i < 21; i++) {
+      await recordFailedLogin(`user${i}@example.com`, IP);
+    }
+
+    expect(createSystemAlert).toHaveBeenCalledTimes(1);
+    expect(createSystemAlert).toHaveBeenCalledWith(
+      'security',
+      'high',
+      'Possible credential stuffing',
+      expect.stringContaining('20 different accounts'),
+      expect.objectContaining({ ipAddress: IP, accounts: 20 })
+    );
+    await expect(assertLoginAllowed('new@example.com', IP)).rejects.toThrow('from your network');
+  });
+
+  it('never throws when Redis is unavailable', async () => {
+    fakeRedis.eval.mockRejectedValueOnce(new Error('connection refused'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(recordFailedLogin(EMAIL, IP)).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
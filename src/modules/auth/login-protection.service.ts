@@ -0,0 +1,243 @@
+// Brute-force protection for sign-in – failed-attempt counters per account and per IP, lockouts and credential-stuffing alerts
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { redis } from '../../lib/redis';
+import { logAudit } from '../../lib/audit';
+import { getFrontendUrl } from '../../lib/email';
+import { sendAccountUnlockEmail } from '../../lib/queue';
+import { createSystemAlert } from '../alerts/alerts.service';
+
+// Failures are counted over a sliding 15-minute window (the counter's TTL restarts on each failure).
+//   account: from the 3rd failure each attempt must wait 1s, 2s, 4s ... up to a minute;
+//            the 10th locks the account for 30 minutes and emails an unlock link
+//   IP:      from the 10th failure the same progressive delay; the 50th blocks the IP for an hour
+// Accounts are keyed by email, whether or not it exists, so lockouts don't reveal which emails are registered.
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+
+const ACCOUNT_DELAY_AFTER = 3;
+const ACCOUNT_LOCKOUT_AFTER = 10;
+const ACCOUNT_LOCKOUT_SECONDS = 30 * 60;
+
+const IP_DELAY_AFTER = 10;
+const IP_LOCKOUT_AFTER = 50;
+const IP_LOCKOUT_SECONDS = 60 * 60;
+
+const MAX_DELAY_SECONDS = 60;
+
+// Distinct accounts failing from one IP in the window that look like credential stuffing
+const STUFFING_ACCOUNTS_PER_IP = 20;
+
+const UNLOCK_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const keys = {
+  failures: (scope: 'account' | 'ip', subject: string) => `login:fail:${scope}:${subject}`,
+  delay: (scope: 'account' | 'ip', subject: string) => `login:delay:${scope}:${subject}`,
+  lock: (scope: 'account' | 'ip', subject: string) => `login:lock:${scope}:${subject}`,
+  ipAccounts: (ipAddress: string) => `login:fail:ip-accounts:${ipAddress}`,
+  stuffingAlerted: (ipAddress: string) => `login:stuffing-alerted:${ipAddress}`,
+  unlock: (token: string) => `login:unlock:${token}`,
+};
+
+const formatWait = (seconds: number) =>
+  seconds >= 120 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} second${seconds === 1 ? '' : 's'}`;
+
+// Count a failure and apply the delay or lock it earns in one atomic step, so parallel
+// guesses can't slip in between the increment and the lockout.
+//   KEYS: failures, delay, lock   ARGV: window, delayAfter, lockoutAfter, lockoutSeconds, maxDelay
+// The counter and delay are cleared when the lock is set. Returns the failure count.
+const COUNT_FAILURE_SCRIPT = `
+local failures = redis.call('INCR', KEYS[1])
+redis.call('EXPIRE', KEYS[1], ARGV[1])
+if failures >= tonumber(ARGV[3]) then
+  redis.call('DEL', KEYS[1], KEYS[2])
+  redis.call('SET', KEYS[3], '1', 'EX', ARGV[4])
+elseif failures >= tonumber(ARGV[2]) then
+  local delay = math.min(2 ^ (failures - tonumber(ARGV[2])), tonumber(ARGV[5]))
+  redis.call('SET', KEYS[2], '1', 'EX', math.floor(delay))
+end
+return failures
+`;
+
+const countFailure = (
+  scope: 'account' | 'ip',
+  subject: string,
+  limits: { delayAfter: number; lockoutAfter: number; lockoutSeconds: number }
+) =>
+  redis.eval<string[], number>(
+    COUNT_FAILURE_SCRIPT,
+    [keys.failures(scope, subject), keys.delay(scope, subject), keys.lock(scope, subject)],
+    [
+      String(FAILURE_WINDOW_SECONDS),
+      String(limits.delayAfter),
+      String(limits.lockoutAfter),
+      String(limits.lockoutSeconds),
+      String(MAX_DELAY_SECONDS),
+    ]
+  );
+
+/**
+ * Checked before the password is - a locked account or IP, or one still
+ * inside its back-off delay, doesn't get a guess at all.
+ */
+export const assertLoginAllowed = async (email: string, ipAddress?: string) => {
+  const account = normalizeEmail(email);
+
+  if (ipAddress) {
+    const ipLock = await redis.ttl(keys.lock('ip', ipAddress));
+    if (ipLock > 0) {
+      throw new Error(`Too many failed sign-in attempts from your network. Try again in ${formatWait(ipLock)}.`);
+    }
+  }
+
+  const accountLock = await redis.ttl(keys.lock('account', account));
+  if (accountLock > 0) {
+    throw new Error(
+      `Too many failed sign-in attempts. This account is locked for ${formatWait(accountLock)} - check your email for an unlock link.`
+    );
+  }
+
+  const waits = await Promise.all([
+    redis.ttl(keys.delay('account', account)),
+    ipAddress ? redis.ttl(keys.delay('ip', ipAddress)) : Promise.resolve(-2),
+  ]);
+  const wait = Math.max(...waits);
+
+  if (wait > 0) {
+    throw new Error(`Too many failed sign-in attempts. Please wait ${formatWait(wait)} before trying again.`);
+  }
+};
+
+// The account has just been locked - email the owner a link to unlock it early
+const notifyAccountLocked = async (account: string, failures: number, ipAddress?: string) => {
+  const user = await prisma.user.findUnique({
+    where: { email: account },
+    select: { id: true, email: true, fullName: true, isBanned: true },
+  });
+
+  await logAudit('ACCOUNT_LOCKED', 'User', user?.id ?? null, user?.id ?? null, {
+    email: account,
+    failedAttempts: failures,
+    ipAddress,
+    lockedForSeconds: ACCOUNT_LOCKOUT_SECONDS,
+  });
+
+  if (!user || user.isBanned) {
+    return;
+  }
+
+  const token = randomUUID();
+  await redis.set(keys.unlock(token), account, { ex: UNLOCK_LINK_TTL_SECONDS });
+
+  try {
+    await sendAccountUnlockEmail(user.email, {
+      name: user.fullName ?? 'there',
+      unlockLink: `${getFrontendUrl()}/unlock-account?token=${token}`,
+      lockedFor: formatWait(ACCOUNT_LOCKOUT_SECONDS),
+      failedAttempts: failures,
+      resetLink: `${getFrontendUrl()}/forgot-password`,
+    });
+  } catch (emailError) {
+    console.error(`[Auth] Failed to queue account unlock email for user ${user.id}:`, emailError);
+  }
+};
+
+// Many different accounts failing from one address - tell the admins once per window and block the IP
+const checkCredentialStuffing = async (ipAddress: string, account: string) => {
+  const accountsKey = keys.ipAccounts(ipAddress);
+  const [, , accounts] = await redis
+    .multi()
+    .sadd(accountsKey, account)
+    .expire(accountsKey, FAILURE_WINDOW_SECONDS)
+    .scard(accountsKey)
+    .exec<[number, number, number]>();
+  if (accounts < STUFFING_ACCOUNTS_PER_IP) {
+    return;
+  }
+
+  await redis.set(keys.lock('ip', ipAddress), '1', { ex: IP_LOCKOUT_SECONDS });
+
+  const first = await redis.set(keys.stuffingAlerted(ipAddress), '1', { nx: true, ex: FAILURE_WINDOW_SECONDS });
+  if (!first) {
+    return;
+  }
+
+  const sample = await redis.srandmember<string[]>(accountsKey, 10);
+
+  await logAudit('CREDENTIAL_STUFFING_DETECTED', 'User', null, null, { ipAddress, accounts });
+
+  await createSystemAlert(
+    'security',
+    'high',
+    'Possible credential stuffing',
+    `${accounts} different accounts failed to sign in from IP address ${ipAddress} in the last ${FAILURE_WINDOW_SECONDS / 60} minutes. The IP has been blocked for ${IP_LOCKOUT_SECONDS / 60} minutes.`,
+    { ipAddress, accounts, sampleAccounts: sample ?? [], blockedForSeconds: IP_LOCKOUT_SECONDS }
+  );
+};
+
+/**
+ * Count a failed sign-in (wrong password or wrong second-factor code) against
+ * the account and the IP, and apply any delay or lockout it earns.
+ * Never throws - the caller still reports the original failure.
+ */
+export const recordFailedLogin = async (email: string, ipAddress?: string) => {
+  const account = normalizeEmail(email);
+
+  try {
+    const accountFailures = await countFailure('account', account, {
+      delayAfter: ACCOUNT_DELAY_AFTER,
+      lockoutAfter: ACCOUNT_LOCKOUT_AFTER,
+      lockoutSeconds: ACCOUNT_LOCKOUT_SECONDS,
+    });
+
+    if (accountFailures >= ACCOUNT_LOCKOUT_AFTER) {
+      await notifyAccountLocked(account, accountFailures, ipAddress);
+    }
+
+    if (!ipAddress) {
+      return;
+    }
+
+    const ipFailures = await countFailure('ip', ipAddress, {
+      delayAfter: IP_DELAY_AFTER,
+      lockoutAfter: IP_LOCKOUT_AFTER,
+      lockoutSeconds: IP_LOCKOUT_SECONDS,
+    });
+
+    if (ipFailures >= IP_LOCKOUT_AFTER) {
+      await logAudit('LOGIN_IP_BLOCKED', 'User', null, null, { ipAddress, failedAttempts: ipFailures });
+    }
+
+    await checkCredentialStuffing(ipAddress, account);
+  } catch (error) {
+    console.error(`[Auth] Failed to record failed login for ${account}:`, error);
+  }
+};
+
+// A successful sign-in resets the account's counter (the IP's keeps counting)
+export const clearFailedLogins = async (email: string) => {
+  const account = normalizeEmail(email);
+
+  try {
+    await redis.del(keys.failures('account', account), keys.delay('account', account));
+  } catch (error) {
+    console.error(`[Auth] Failed to clear failed logins for ${account}:`, error);
+  }
+};
+
+// Unlock from the emailed link. The link is single use.
+export const unlockAccount = async (token: string) => {
+  const account = await redis.getdel<string>(keys.unlock(token));
+
+  if (!account) {
+    throw new Error('Invalid or expired unlock link');
+  }
+
+  await redis.del(keys.lock('account', account), keys.failures('account', account), keys.delay('account', account));
+
+  const user = await prisma.user.findUnique({ where: { email: account }, select: { id: true } });
+  await logAudit('ACCOUNT_UNLOCKED', 'User', user?.id ?? null, user?.id ?? null, { email: account, via: 'email' });
+
+  return { message: 'Your account is unlocked. You can sign in again.' };
+};
@@ -0,0 +1,70 @@
+// Device sessions – one per refresh token family, listed and revoked from the account settings
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+
+// Revoking a session stops its refresh token; an access token already issued
+// for it stays valid until it expires (JWT_ACCESS_EXPIRATION).
+
+/**
+ * Signed-in devices for a user: each unrevoked family's current token.
+ * `currentSessionId` is the sid of the caller's access token.
+ */
+export const listSessions = async (userId: string, currentSessionId?: string) => {
+  const tokens = await prisma.refreshToken.findMany({
+    where: { userId, revoked: false, expiresAt: { gt: new Date() } },
+    select: {
+      familyId: true,
+      userAgent: true,
+      ipAddress: true,
+      sessionStartedAt: true,
+      createdAt: true,
+      expiresAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return tokens.map((token) => ({
+    id: token.familyId,
+    userAgent: token.userAgent,
+    ipAddress: token.ipAddress,
+    startedAt: token.sessionStartedAt,
+    lastUsedAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    current: token.familyId === currentSessionId,
+  }));
+};
+
+// Sign one device out
+export const revokeSession = async (userId: string, sessionId: string) => {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, familyId: sessionId, revoked: false },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: 'SESSION_REVOKED' },
+  });
+
+  if (count === 0) {
+    throw new Error('Session not found');
+  }
+
+  await logAudit('SESSION_REVOKED', 'User', userId, userId, { sessionId });
+
+  return { message: 'Session revoked' };
+};
+
+// Sign every device out - optionally keeping the one making the request
+export const revokeAllSessions = async (userId: string, keepSessionId?: string) => {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: {
+      userId,
+      revoked: false,
+      ...(keepSessionId && { familyId: { not: keepSessionId } }),
+    },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: 'SESSION_REVOKED' },
+  });
+
+  await logAudit('ALL_SESSIONS_REVOKED', 'User', userId, userId, {
+    keptSessionId: keepSessionId,
+    tokensRevoked: count,
+  });
+
+  return { message: keepSessionId ? 'Signed out of all other devices' : 'Signed out of all devices', revoked: count };
+};
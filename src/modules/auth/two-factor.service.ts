@@ -0,0 +1,536 @@
+// Two-factor authentication – TOTP (RFC 6238) enrolment, recovery codes, the login challenge and the admin policy
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  timingSafeEqual,
+} from 'crypto';
+import QRCode from 'qrcode';
+import { Role } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { redis } from '../../lib/redis';
+import { envConfig } from '../../config/env';
+import { logAudit } from '../../lib/audit';
+import { invalidateUserProfileCache, SessionClient } from './auth.service';
+import { assertLoginAllowed, recordFailedLogin } from './login-protection.service';
+
+// Login flow for an account with 2FA (or whose role the policy covers):
+//   password / wallet signature OK → challenge token (no JWT yet)
+//   → POST /login/2fa with a TOTP or recovery code → tokens issued
+// Accounts the policy covers that haven't enrolled yet call POST /login/2fa/setup
+// with the challenge first, then confirm their first code the same way.
+
+const ISSUER = 'MobiTickets';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps either side of the server clock that are still accepted
+const TOTP_SKEW_STEPS = 1;
+
+const SETUP_TTL_SECONDS = 10 * 60;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+const POLICY_KEY = 'security.twoFactorRequiredRoles';
+
+const keys = {
+  setup: (userId: string) => `2fa:setup:${userId}`,
+  challenge: (token: string) => `2fa:challenge:${token}`,
+  // Last accepted time step - a code can't be replayed within its window
+  lastStep: (userId: string) => `2fa:last-step:${userId}`,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TOTP primitives
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (encoded: string) => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid two-factor secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// HOTP (RFC 4226) value for one time step
+const computeCode = (secret: Buffer, counter: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', secret).update(buffer).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+// The time step the code belongs to, or null if it matches none in the window
+const matchTotp = (base32Secret: string, code: string) => {
+  const secret = base32Decode(base32Secret);
+  const current = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  const provided = Buffer.from(code);
+
+  for (let step = current - TOTP_SKEW_STEPS; step <= current + TOTP_SKEW_STEPS; step++) {
+    const expected = Buffer.from(computeCode(secret, step));
+    if (expected.length === provided.length && timingSafeEqual(expected, provided)) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// Check a code and burn its time step so the same code can't be used twice
+const verifyTotp = async (userId: string, base32Secret: string, code: string) => {
+  const step = matchTotp(base32Secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const lastStep = Number((await redis.get<number>(keys.lastStep(userId))) ?? 0);
+  if (step <= lastStep) {
+    return false;
+  }
+
+  await redis.set(keys.lastStep(userId), step, { ex: (2 * TOTP_SKEW_STEPS + 1) * TOTP_PERIOD_SECONDS });
+  return true;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Secret storage and recovery codes
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Secrets are encrypted at rest with a key derived from JWT_SECRET: <iv>.<tag>.<ciphertext> (base64url)
+const secretKey = () => createHash('sha256').update(`two-factor:${envConfig.JWT_SECRET}`).digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', secretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Invalid two-factor secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', secretKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes look like "k7f3q-x9m2p"; case, spaces and dashes are ignored when checking
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const hashRecoveryCode = (userId: string, code: string) =>
+  createHash('sha256').update(`${userId}:${normalizeRecoveryCode(code)}`).digest('hex');
+
+const generateRecoveryCode = () => {
+  const alphabet = BASE32_ALPHABET.toLowerCase();
+  const chars = Array.from({ length: 10 }, () => alphabet[randomInt(alphabet.length)]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+};
+
+// Replace every recovery code for the account; the plain codes are only ever shown here
+const issueRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(userId, code) })),
+    }),
+  ]);
+
+  return codes;
+};
+
+// Single use - if two requests race with the same code only one marks it used
+const consumeRecoveryCode = async (userId: string, code: string) => {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(userId, code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const remaining = await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+  await logAudit('TWO_FACTOR_RECOVERY_CODE_USED', 'User', userId, userId, { recoveryCodesRemaining: remaining });
+
+  return true;
+};
+
+// Either a current authenticator code or an unused recovery code
+const verifySecondFactor = async (userId: string, encryptedSecret: string, code: string) => {
+  if (/^\d{6}$/.test(code)) {
+    return verifyTotp(userId, decryptSecret(encryptedSecret), code);
+  }
+
+  return consumeRecoveryCode(userId, code);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+const getRequiredRoles = async (): Promise<Role[]> => {
+  const setting = await prisma.platformSetting.findUnique({ where: { key: POLICY_KEY } });
+  return Array.isArray(setting?.value) ? (setting.value as Role[]) : [];
+};
+
+export const isTwoFactorRequired = async (role: Role) => (await getRequiredRoles()).includes(role);
+
+// Current policy, plus how many covered accounts will be asked to enrol at their next sign-in
+export const getTwoFactorPolicy = async () => {
+  const [setting, requiredRoles] = await Promise.all([
+    prisma.platformSetting.findUnique({ where: { key: POLICY_KEY } }),
+    getRequiredRoles(),
+  ]);
+
+  const usersWithoutTwoFactor = requiredRoles.length
+    ? await prisma.user.count({ where: { role: { in: requiredRoles }, twoFactorEnabled: false, isBanned: false } })
+    : 0;
+
+  return {
+    requiredRoles,
+    usersWithoutTwoFactor,
+    updatedAt: setting?.updatedAt ?? null,
+    updatedById: setting?.updatedById ?? null,
+  };
+};
+
+/**
+ * Set which roles must use two-factor authentication (admin). Covered accounts
+ * without it are taken through enrolment at their next sign-in, and their
+ * existing sessions can no longer be refreshed.
+ */
+export const updateTwoFactorPolicy = async (requiredRoles: Role[], adminId: string) => {
+  const previousRoles = await getRequiredRoles();
+  const roles = [...new Set(requiredRoles)];
+
+  await prisma.platformSetting.upsert({
+    where: { key: POLICY_KEY },
+    create: { key: POLICY_KEY, value: roles, updatedById: adminId },
+    update: { value: roles, updatedById: adminId },
+  });
+
+  await logAudit('TWO_FACTOR_POLICY_UPDATED', 'PlatformSetting', null, adminId, { previousRoles, requiredRoles: roles });
+
+  return getTwoFactorPolicy();
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Enrolment (signed in)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const getTwoFactorUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, twoFactorEnabled: true, twoFactorSecret: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return user;
+};
+
+// New secret plus what the authenticator app needs to add it: an otpauth:// URI and its QR code
+const createProvisioning = async (accountName: string) => {
+  const secret = base32Encode(randomBytes(20));
+  const otpauthUrl =
+    `otpauth://totp/${encodeURIComponent(`${ISSUER}:${accountName}`)}` +
+    `?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+};
+
+// Turn 2FA on with a confirmed secret and hand back the first set of recovery codes
+const activateTwoFactor = async (userId: string, secret: string) => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true, twoFactorSecret: encryptSecret(secret), twoFactorEnabledAt: new Date() },
+  });
+
+  const recoveryCodes = await issueRecoveryCodes(userId);
+
+  await invalidateUserProfileCache(userId);
+  await logAudit('TWO_FACTOR_ENABLED', 'User', userId, userId, {});
+
+  return recoveryCodes;
+};
+
+export const getTwoFactorStatus = async (userId: string) => {
+  const user = await getTwoFactorUser(userId);
+  const [required, recoveryCodesRemaining] = await Promise.all([
+    isTwoFactorRequired(user.role),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt,
+    required,
+    recoveryCodesRemaining: user.twoFactorEnabled ? recoveryCodesRemaining : 0,
+  };
+};
+
+/**
+ * Start enrolment: a new secret is held for 10 minutes until the first code
+ * from the authenticator app confirms it.
+ */
+export const setupTwoFactor = async (userId: string) => {
+  const user = await getTwoFactorUser(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const provisioning = await createProvisioning(user.email);
+  await redis.set(keys.setup(userId), encryptSecret(provisioning.secret), { ex: SETUP_TTL_SECONDS });
+
+  return { ...provisioning, expiresInSeconds: SETUP_TTL_SECONDS };
+};
+
+// Confirm the first code and switch 2FA on. The recovery codes are only shown in this response.
+export const enableTwoFactor = async (userId: string, code: string) => {
+  const user = await getTwoFactorUser(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const pending = await redis.get<string>(keys.setup(userId));
+  if (!pending) {
+    throw new Error('Two-factor setup has expired. Start again.');
+  }
+
+  const secret = decryptSecret(pending);
+  if (!(await verifyTotp(userId, secret, code))) {
+    throw new Error('Incorrect code. Check the time on your device and try again.');
+  }
+
+  await redis.del(keys.setup(userId));
+  const recoveryCodes = await activateTwoFactor(userId, secret);
+
+  return { message: 'Two-factor authentication is on. Keep your recovery codes somewhere safe.', recoveryCodes };
+};
+
+// Turn 2FA off with a current code (or a recovery code). Not allowed while the policy covers the role.
+export const disableTwoFactor = async (userId: string, code: string) => {
+  const user = await getTwoFactorUser(userId);
+
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+
+  if (await isTwoFactorRequired(user.role)) {
+    throw new Error(`Unauthorized: two-factor authentication is required for ${user.role} accounts`);
+  }
+
+  if (!(await verifySecondFactor(userId, user.twoFactorSecret, code))) {
+    throw new Error('Incorrect code');
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+
+  await invalidateUserProfileCache(userId);
+  await logAudit('TWO_FACTOR_DISABLED', 'User', userId, userId, {});
+
+  return { message: 'Two-factor authentication is off' };
+};
+
+// Replace the recovery codes (the old ones stop working). Needs a current authenticator code.
+export const regenerateRecoveryCodes = async (userId: string, code: string) => {
+  const user = await getTwoFactorUser(userId);
+
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+
+  if (!(await verifyTotp(userId, decryptSecret(user.twoFactorSecret), code))) {
+    throw new Error('Incorrect code');
+  }
+
+  const recoveryCodes = await issueRecoveryCodes(userId);
+  await logAudit('TWO_FACTOR_RECOVERY_CODES_REGENERATED', 'User', userId, userId, {});
+
+  return { recoveryCodes };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Login challenge
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface LoginChallenge {
+  userId: string;
+  client: SessionClient;
+  address?: string; // Wallet sign-ins keep the address for the JWT
+  setupSecret?: string; // Encrypted secret while enrolling during sign-in
+  attempts: number;
+}
+
+const saveChallenge = (token: string, challenge: LoginChallenge) =>
+  redis.set(keys.challenge(token), JSON.stringify(challenge), { keepTtl: true });
+
+const getChallenge = async (token: string) => {
+  const cached = await redis.get<string>(keys.challenge(token));
+
+  if (!cached) {
+    throw new Error('Your sign-in has expired. Sign in again.');
+  }
+
+  return (typeof cached === 'string' ? JSON.parse(cached) : cached) as LoginChallenge;
+};
+
+/**
+ * Called once the first factor has checked out. Returns a challenge when the
+ * account must also pass 2FA (or enrol in it), or null to sign in straight away.
+ */
+export const startTwoFactorChallenge = async (
+  user: { id: string; role: Role; twoFactorEnabled: boolean },
+  client: SessionClient,
+  address?: string
+) => {
+  const setupRequired = !user.twoFactorEnabled && (await isTwoFactorRequired(user.role));
+
+  if (!user.twoFactorEnabled && !setupRequired) {
+    return null;
+  }
+
+  const challengeToken = randomUUID();
+  const challenge: LoginChallenge = { userId: user.id, client, address, attempts: 0 };
+  await redis.set(keys.challenge(challengeToken), JSON.stringify(challenge), { ex: CHALLENGE_TTL_SECONDS });
+
+  return {
+    twoFactorRequired: true as const,
+    setupRequired,
+    challengeToken,
+    expiresInSeconds: CHALLENGE_TTL_SECONDS,
+  };
+};
+
+// Enrolment during sign-in, for accounts the policy covers that don't have 2FA yet
+export const setupTwoFactorForChallenge = async (challengeToken: string) => {
+  const challenge = await getChallenge(challengeToken);
+  const user = await getTwoFactorUser(challenge.userId);
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled. Enter a code from your authenticator app.');
+  }
+
+  const provisioning = await createProvisioning(user.email);
+  await saveChallenge(challengeToken, { ...challenge, setupSecret: encryptSecret(provisioning.secret) });
+
+  return provisioning;
+};
+
+/**
+ * Second login step. Checks the code against the account's secret - or the
+ * secret being enrolled - and hands back who to sign in. The challenge is
+ * single use and dropped after too many wrong codes.
+ */
+export const verifyTwoFactorChallenge = async (challengeToken: string, code: string) => {
+  const challenge = await getChallenge(challengeToken);
+  const user = await getTwoFactorUser(challenge.userId);
+
+  // Wrong codes count towards the account lockout like wrong passwords (wallet sign-ins have no password to guess)
+  if (!challenge.address) {
+    await assertLoginAllowed(user.email, challenge.client.ipAddress);
+  }
+
+  let verified = false;
+  let enrolling = false;
+
+  if (user.twoFactorEnabled && user.twoFactorSecret) {
+    verified = await verifySecondFactor(user.id, user.twoFactorSecret, code);
+  } else if (challenge.setupSecret) {
+    enrolling = true;
+    verified = /^\d{6}$/.test(code) && (await verifyTotp(user.id, decryptSecret(challenge.setupSecret), code));
+  } else {
+    throw new Error('Two-factor authentication is required for your account. Set it up to continue.');
+  }
+
+  if (!verified) {
+    challenge.attempts += 1;
+
+    await logAudit('TWO_FACTOR_LOGIN_FAILED', 'User', user.id, user.id, {
+      attempts: challenge.attempts,
+      ipAddress: challenge.client.ipAddress,
+    });
+
+    if (!challenge.address) {
+      await recordFailedLogin(user.email, challenge.client.ipAddress);
+    }
+
+    if (challenge.attempts >= CHALLENGE_MAX_ATTEMPTS) {
+      await redis.del(keys.challenge(challengeToken));
+      throw new Error('Too many incorrect codes. Sign in again.');
+    }
+
+    await saveChallenge(challengeToken, challenge);
+    throw new Error(`Incorrect code. ${CHALLENGE_MAX_ATTEMPTS - challenge.attempts} attempt(s) left.`);
+  }
+
+  // Only one request gets to finish the sign-in
+  if (!(await redis.getdel(keys.challenge(challengeToken)))) {
+    throw new Error('Your sign-in has expired. Sign in again.');
+  }
+
+  const recoveryCodes = enrolling ? await activateTwoFactor(user.id, decryptSecret(challenge.setupSecret!)) : undefined;
+
+  return { userId: user.id, client: challenge.client, address: challenge.address, recoveryCodes };
+};
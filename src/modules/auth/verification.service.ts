@@ -0,0 +1,312 @@
+// Account verification – signed email confirmation links and SMS codes for +254 phone numbers
+import { createHmac, createHash, randomInt, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { redis } from '../../lib/redis';
+import { envConfig } from '../../config/env';
+import { logAudit } from '../../lib/audit';
+import { getFrontendUrl } from '../../lib/email';
+import { sendEmailVerificationEmail } from '../../lib/queue';
+import { getSmsProvider } from '../../lib/sms';
+import { invalidateUserProfileCache } from './auth.service';
+
+type Tx = Prisma.TransactionClient;
+
+const EMAIL_LINK_TTL_SECONDS = 24 * 60 * 60;
+const OTP_TTL_SECONDS = 10 * 60;
+const OTP_MAX_ATTEMPTS = 5;
+
+// Resend limits - a cooldown between sends plus an hourly cap per account (and per phone number for SMS)
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_HOUR = 5;
+
+const kenyanPhoneRegex = /^\+254[17]\d{8}$/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resend rate limiting
+// ─────────────────────────────────────────────────────────────────────────────
+
+const assertCanSend = async (channel: 'email' | 'phone', subjects: string[]) => {
+  for (const subject of subjects) {
+    if (await redis.exists(`verify:${channel}:cooldown:${subject}`)) {
+      throw new Error(`Please wait ${RESEND_COOLDOWN_SECONDS} seconds before requesting another code`);
+    }
+
+    const sent = Number((await redis.get<number>(`verify:${channel}:sent:${subject}`)) ?? 0);
+    if (sent >= MAX_SENDS_PER_HOUR) {
+      throw new Error('Too many verification requests. Try again in an hour.');
+    }
+  }
+};
+
+const recordSend = async (channel: 'email' | 'phone', subjects: string[]) => {
+  for (const subject of subjects) {
+    await redis.set(`verify:${channel}:cooldown:${subject}`, '1', { ex: RESEND_COOLDOWN_SECONDS });
+
+    const sentKey = `verify:${channel}:sent:${subject}`;
+    if ((await redis.incr(sentKey)) === 1) {
+      await redis.expire(sentKey, 3600);
+    }
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Email confirmation links
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Signed over the address too, so a link stops working if the account's email changes
+const signEmailLink = (userId: string, email: string, expires: number) =>
+  createHmac('sha256', envConfig.JWT_SECRET)
+    .update(`email-verify:${userId}:${email.toLowerCase()}:${expires}`)
+    .digest('base64url');
+
+/**
+ * Email a signed confirmation link. Called on registration and when the
+ * user asks for a new link (rate limited).
+ */
+export const sendEmailVerification = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, fullName: true, isVerified: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.isVerified) {
+    throw new Error('Your email address is already verified');
+  }
+
+  await assertCanSend('email', [user.id]);
+
+  const expires = Math.floor(Date.now() / 1000) + EMAIL_LINK_TTL_SECONDS;
+  const token = `${user.id}.${expires}.${signEmailLink(user.id, user.email, expires)}`;
+
+  await sendEmailVerificationEmail(user.email, {
+    name: user.fullName ?? 'there',
+    verifyLink: `${getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+    expiresIn: '24 hours',
+  });
+
+  await recordSend('email', [user.id]);
+  await logAudit('EMAIL_VERIFICATION_REQUESTED', 'User', user.id, user.id, { email: user.email });
+
+  return { message: `We sent a confirmation link to ${user.email}` };
+};
+
+// Confirm an email address from a signed link (no session needed - the link is the proof)
+export const confirmEmailVerification = async (token: string) => {
+  const [userId, expiresRaw, signature] = token.split('.');
+  const expires = Number(expiresRaw);
+
+  if (!userId || !signature || !Number.isInteger(expires)) {
+    throw new Error('Invalid verification link');
+  }
+
+  if (expires < Date.now() / 1000) {
+    throw new Error('This verification link has expired. Request a new one.');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, isVerified: true },
+  });
+
+  const expected = user ? Buffer.from(signEmailLink(user.id, user.email, expires)) : null;
+  const provided = Buffer.from(signature);
+
+  if (!user || !expected || expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    throw new Error('Invalid verification link');
+  }
+
+  if (!user.isVerified) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { isVerified: true, emailVerifiedAt: new Date() },
+    });
+    await invalidateUserProfileCache(user.id);
+    await logAudit('EMAIL_VERIFIED', 'User', user.id, user.id, { email: user.email });
+  }
+
+  return { message: 'Your email address is verified', email: user.email };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phone number codes
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PendingPhoneCode {
+  phoneNumber: string;
+  codeHash: string;
+  attempts: number;
+}
+
+const phoneCodeKey = (userId: string) => `verify:phone:code:${userId}`;
+
+const hashCode = (userId: string, code: string) =>
+  createHash('sha256').update(`${userId}:${code}`).digest('hex');
+
+// Accept 07..., 2547... and +2547... and store the +254 form used on profiles
+const toE164 = (phoneNumber: string) => {
+  const digits = phoneNumber.replace(/[^\d]/g, '');
+  const e164 = digits.startsWith('0') ? `+254${digits.slice(1)}` : `+${digits.startsWith('254') ? digits : `254${digits}`}`;
+
+  if (!kenyanPhoneRegex.test(e164)) {
+    throw new Error('Invalid Kenyan phone number. Use the format +2547XXXXXXXX');
+  }
+
+  return e164;
+};
+
+/**
+ * Text a 6-digit code to the profile phone number (or a new number the user
+ * wants to switch to). Rate limited per account and per number.
+ */
+export const sendPhoneVerification = async (userId: string, phoneNumber?: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, phoneNumber: true, phoneVerifiedAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const target = phoneNumber ?? user.phoneNumber;
+  if (!target) {
+    throw new Error('Add a phone number to verify');
+  }
+
+  const e164 = toE164(target);
+
+  if (user.phoneVerifiedAt && user.phoneNumber === e164) {
+    throw new Error('This phone number is already verified');
+  }
+
+  const takenBy = await prisma.user.findFirst({
+    where: { phoneNumber: e164, phoneVerifiedAt: { not: null }, id: { not: userId } },
+    select: { id: true },
+  });
+  if (takenBy) {
+    throw new Error('This phone number is already verified on another account');
+  }
+
+  await assertCanSend('phone', [user.id, e164]);
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const pending: PendingPhoneCode = { phoneNumber: e164, codeHash: hashCode(user.id, code), attempts: 0 };
+
+  await getSmsProvider().send({
+    to: e164,
+    body: `Your MobiTickets verification code is ${code}. It expires in ${OTP_TTL_SECONDS / 60} minutes. Don't share it with anyone.`,
+  });
+
+  await redis.set(phoneCodeKey(user.id), JSON.stringify(pending), { ex: OTP_TTL_SECONDS });
+  await recordSend('phone', [user.id, e164]);
+  await logAudit('PHONE_VERIFICATION_REQUESTED', 'User', user.id, user.id, { phoneNumber: '***' + e164.slice(-4) });
+
+  return { message: `We texted a code to ***${e164.slice(-4)}`, expiresInSeconds: OTP_TTL_SECONDS };
+};
+
+// Check the SMS code; the number becomes the verified profile number
+export const confirmPhoneVerification = async (userId: string, code: string) => {
+  const key = phoneCodeKey(userId);
+  const cached = await redis.get<string>(key);
+
+  if (!cached) {
+    throw new Error('Verification code has expired. Request a new one.');
+  }
+
+  const pending: PendingPhoneCode = typeof cached === 'string' ? JSON.parse(cached) : cached;
+
+  const expected = Buffer.from(pending.codeHash);
+  const provided = Buffer.from(hashCode(userId, code));
+
+  if (!timingSafeEqual(expected, provided)) {
+    pending.attempts += 1;
+
+    if (pending.attempts >= OTP_MAX_ATTEMPTS) {
+      await redis.del(key);
+      throw new Error('Too many incorrect codes. Request a new one.');
+    }
+
+    await redis.set(key, JSON.stringify(pending), { keepTtl: true });
+    throw new Error(`Incorrect code. ${OTP_MAX_ATTEMPTS - pending.attempts} attempt(s) left.`);
+  }
+
+  await redis.del(key);
+
+  // Someone else may have verified the number while this code was out
+  const takenBy = await prisma.user.findFirst({
+    where: { phoneNumber: pending.phoneNumber, phoneVerifiedAt: { not: null }, id: { not: userId } },
+    select: { id: true },
+  });
+  if (takenBy) {
+    throw new Error('This phone number is already verified on another account');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { phoneNumber: pending.phoneNumber, phoneVerifiedAt: new Date() },
+  });
+  await invalidateUserProfileCache(userId);
+  await logAudit('PHONE_VERIFIED', 'User', userId, userId, { phoneNumber: '***' + pending.phoneNumber.slice(-4) });
+
+  return { message: 'Your phone number is verified', phoneNumber: pending.phoneNumber };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Status and purchase gate
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getVerificationStatus = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, isVerified: true, emailVerifiedAt: true, phoneNumber: true, phoneVerifiedAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return {
+    email: user.email,
+    emailVerified: user.isVerified,
+    emailVerifiedAt: user.emailVerifiedAt,
+    phoneNumber: user.phoneNumber,
+    phoneVerified: user.phoneVerifiedAt !== null,
+    phoneVerifiedAt: user.phoneVerifiedAt,
+  };
+};
+
+/**
+ * Events that only sell to verified accounts need a confirmed email and phone number
+ * (runs inside the caller's transaction).
+ */
+export const assertVerifiedBuyer = async (tx: Tx, userId: string, eventId: string) => {
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: { title: true, requireVerifiedBuyers: true },
+  });
+
+  if (!event?.requireVerifiedBuyers) {
+    return;
+  }
+
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { isVerified: true, phoneVerifiedAt: true },
+  });
+
+  const missing = [
+    !user?.isVerified && 'email address',
+    !user?.phoneVerifiedAt && 'phone number',
+  ].filter(Boolean);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Verification required: "${event.title}" only sells tickets to verified accounts. Verify your ${missing.join(' and ')} first.`
+    );
+  }
+};
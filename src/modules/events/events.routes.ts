@@ -16,6 +16,7 @@ import {
   getFeaturedEvents,
   getEventAttendees,
 } from './events.service';
+import { getEventRefundProgress } from '../refunds/event-refunds.service';
 import { requireRole } from '../../middleware/rbac';
 
 // Type for parsed multipart files object
@@ -237,6 +238,7 @@ export default async (fastify: FastifyInstance) => {
           200: z.object({
             event: z.any(),
             attendeesNotified: z.number(),
+            refundsQueued: z.number(),
             message: z.string(),
           }),
           400: z.object({ error: z.string() }),
@@ -267,6 +269,33 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
+  // Organizer/Admin only: Refund progress for a cancelled event
+  server.get(
+    '/:id/refunds',
+    {
+      preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])],
+      schema: {
+        description: 'Track the automatic refunds issued when an event was cancelled',
+        tags: ['events'],
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params;
+        const result = await getEventRefundProgress(id, request.user!.id, request.user!.role);
+        return reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('found') ? 404 : 400;
+        return reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
   // Organizer/Admin only: Publish event
   server.post(
     '/:id/publish',
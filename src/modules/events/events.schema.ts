@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { refundPolicySchema } from '../refunds/refunds.schema';
 
 // EventCategory enum — must match Prisma schema exactly
 export const EventCategoryEnum = z.enum([
@@ -41,6 +42,57 @@ export const createEventSchema = z.object({
       (val) => (typeof val === 'string' ? Number(val) : val),
       z.number().int().positive().optional()
     ),
+    // Refund deadlines, percentages, fee and non-refundable tiers (JSON string in multipart forms)
+    refundPolicy: z.preprocess(
+      (val) => {
+        if (typeof val === 'string') {
+          try {
+            return JSON.parse(val);
+          } catch {
+            return val;
+          }
+        }
+        return val;
+      },
+      refundPolicySchema.optional()
+    ),
+    // Resale marketplace: whether attendees may resell, the price cap (% of face value) and the organizer's cut
+    resaleEnabled: z.preprocess(
+      (val) => (typeof val === 'string' ? val === 'true' : val),
+      z.boolean().optional()
+    ),
+    resalePriceCapPercent: z.preprocess(
+      (val) => (typeof val === 'string' ? Number(val) : val),
+      z.number().int().min(100).max(300).optional()
+    ),
+    resaleRoyaltyPercent: z.preprocess(
+      (val) => (typeof val === 'string' ? Number(val) : val),
+      z.number().min(0).max(50).optional()
+    ),
+    // Main gate re-entry: times a ticket may come back in after scanning out (0 = single entry, null = unlimited)
+    maxReentries: z.preprocess(
+      (val) => (val === 'null' || val === '' ? null : typeof val === 'string' ? Number(val) : val),
+      z.number().int().min(0).max(100).nullable().optional()
+    ),
+    // Virtual waiting room: buyers queue for a turn to check out, admitted at waitingRoomRate per minute
+    waitingRoomEnabled: z.preprocess(
+      (val) => (typeof val === 'string' ? val === 'true' : val),
+      z.boolean().optional()
+    ),
+    waitingRoomRate: z.preprocess(
+      (val) => (typeof val === 'string' ? Number(val) : val),
+      z.number().int().min(10).max(5000).optional()
+    ),
+    // Tickets one person may buy across all their orders (null = no cap)
+    maxTicketsPerUser: z.preprocess(
+      (val) => (val === 'null' || val === '' ? null : typeof val === 'string' ? Number(val) : val),
+      z.number().int().min(1).max(100).nullable().optional()
+    ),
+    // Only accounts with a confirmed email and phone number can buy
+    requireVerifiedBuyers: z.preprocess(
+      (val) => (typeof val === 'string' ? val === 'true' : val),
+      z.boolean().optional()
+    ),
     // Optional poster URL (used by JSON-only create flows that don't upload multipart files)
     posterUrl: z.string().url().optional(),
 
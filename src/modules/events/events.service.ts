@@ -1,11 +1,21 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { redis } from '../../lib/redis';
 import { uploadEventPoster, uploadEventTrailer } from '../../lib/cloudinary';
-import { CreateEventInput, GetEventsQuery } from './events.schema';
+import { CreateEventInput, GetEventsQuery, createEventSchema } from './events.schema';
 import { MultipartFile } from '@fastify/multipart';
 import { notifyEventAttendees, notifyAdmins } from '../notifications/notification.service';
 import { logAudit } from '../../lib/audit';
 import { createSystemAlert } from '../alerts/alerts.service';
+import { startEventRefunds } from '../refunds/event-refunds.service';
+import {
+  resolveRefundPolicy,
+  describeRefundPolicy,
+  toStoredRefundPolicy,
+} from '../refunds/refund-policy.service';
+import { refundPolicySchema } from '../refunds/refunds.schema';
+import { cancelEventListings } from '../resale/resale.service';
+import { closeEventWaitlists } from '../waitlist/waitlist.service';
 
 // ── Cache helpers ─────────────────────────────────────────────────────────────
 
@@ -60,6 +70,7 @@ export const createEvent = async (
     // These are handled explicitly below (Prisma doesn't accept them in the spread)
     tickets: _tickets,
     posterUrl: posterUrlFromBody,
+    refundPolicy,
     ...rest
   } = data;
 
@@ -105,6 +116,7 @@ export const createEvent = async (
       videoUrl,
       isPublished: false,
       maxCapacity: derivedMaxCapacity,
+      ...(refundPolicy && { refundPolicy: toStoredRefundPolicy(refundPolicy) }),
       tickets: {
         create: ticketsToCreate,
       },
@@ -280,7 +292,7 @@ export const getEventById = async (eventId: string) => {
       deletedAt: null,
     },
     include: {
-      organizer: { select: ORGANIZER_PUBLIC_SELECT },
+      organizer: { select: { ...ORGANIZER_PUBLIC_SELECT, refundPolicy: true } },
       tickets: { select: TICKET_SELECT },
     },
   });
@@ -289,6 +301,8 @@ export const getEventById = async (eventId: string) => {
     throw new Error('Event not found');
   }
 
+  const refundPolicy = resolveRefundPolicy(event, event.organizer);
+
   const location = (typeof event.location === 'object' && event.location !== null)
     ? event.location as { venue?: string; address?: string }
     : {};
@@ -327,6 +341,11 @@ export const getEventById = async (eventId: string) => {
       status: t.status,
     })),
     isSoldOut: totalAvailable === 0,
+    refundPolicy: {
+      ...refundPolicy.policy,
+      source: refundPolicy.source,
+      summary: describeRefundPolicy(refundPolicy.policy),
+    },
     createdAt: event.createdAt.toISOString(),
     updatedAt: event.updatedAt.toISOString(),
     publishedAt: event.publishedAt?.toISOString() || null,
@@ -338,6 +357,18 @@ export const getEventById = async (eventId: string) => {
   return result;
 };
 
+// Settings the update route takes as plain fields - it isn't schema-validated, so they're checked here
+const eventSettingsSchema = createEventSchema.shape.body.pick({
+  resaleEnabled: true,
+  resalePriceCapPercent: true,
+  resaleRoyaltyPercent: true,
+  maxReentries: true,
+  waitingRoomEnabled: true,
+  waitingRoomRate: true,
+  maxTicketsPerUser: true,
+  requireVerifiedBuyers: true,
+});
+
 export const updateEvent = async (
   eventId: string,
   userId: string,
@@ -359,7 +390,33 @@ export const updateEvent = async (
     throw new Error('Unauthorized: You can only update your own events');
   }
 
-  const { tickets: _tickets, posterUrl: _posterUrl, ...restData } = data as any;
+  const { tickets: _tickets, posterUrl: _posterUrl, refundPolicy: refundPolicyInput, ...restData } = data as any;
+
+  // This route isn't schema-validated, so check the policy here (null clears it back to the organizer default)
+  let refundPolicy: Prisma.InputJsonValue | typeof Prisma.DbNull | undefined;
+  if (refundPolicyInput === null) {
+    refundPolicy = Prisma.DbNull;
+  } else if (refundPolicyInput !== undefined) {
+    let raw = refundPolicyInput;
+    if (typeof raw === 'string') {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        throw new Error('Invalid refund policy');
+      }
+    }
+    const parsed = refundPolicySchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid refund policy: ${parsed.error.issues[0]?.message ?? 'malformed'}`);
+    }
+    refundPolicy = toStoredRefundPolicy(parsed.data);
+  }
+
+  const settings = eventSettingsSchema.safeParse(restData);
+  if (!settings.success) {
+    const issue = settings.error.issues[0];
+    throw new Error(`Invalid ${issue?.path.join('.') || 'event settings'}: ${issue?.message ?? 'malformed'}`);
+  }
 
   let posterUrl: string | undefined;
   let videoUrl: string | undefined;
@@ -371,6 +428,8 @@ export const updateEvent = async (
     where: { id: eventId },
     data: {
       ...restData,
+      ...settings.data,
+      ...(refundPolicy !== undefined && { refundPolicy }),
       ...(posterUrl && { posterUrl }),
       ...(videoUrl && { videoUrl }),
     },
@@ -537,6 +596,10 @@ export const cancelEvent = async (
     throw new Error('Unauthorized: You can only cancel your own events');
   }
 
+  if (event.status === 'CANCELLED') {
+    throw new Error('Event is already cancelled');
+  }
+
   const updatedEvent = await prisma.event.update({
     where: { id: eventId },
     data: {
@@ -562,11 +625,16 @@ export const cancelEvent = async (
     }
   );
 
+  // Every paid order gets an auto-approved refund, paid out in batches by the job queue
+  const refundBatch = await startEventRefunds(eventId, userId, reason);
+  await cancelEventListings(eventId);
+  await closeEventWaitlists(eventId);
+
   const { notifiedCount } = await notifyEventAttendees(
     eventId,
     'EVENT_CANCELLED',
     `Event Cancelled: ${event.title}`,
-    `We regret to inform you that "${event.title}" has been cancelled.\n\nReason: ${reason}\n\nRefund processing will begin shortly. You will receive an email with refund details.`,
+    `We regret to inform you that "${event.title}" has been cancelled.\n\nReason: ${reason}\n\nYour refund has been approved automatically and is being processed. You will receive an email once it is complete.`,
     { eventId, eventTitle: event.title, reason },
     true
   );
@@ -574,19 +642,29 @@ export const cancelEvent = async (
   await logAudit('EVENT_CANCELLED', 'Event', eventId, userId, {
     reason,
     attendeesNotified: notifiedCount,
+    refundBatchId: refundBatch?.id,
+    refundsQueued: refundBatch?.totalRequests ?? 0,
   });
 
   await createSystemAlert(
     'event',
     'high',
     `Event Cancelled: ${event.title}`,
-    `Event "${event.title}" was cancelled. Reason: ${reason}. ${notifiedCount} attendees notified.`,
-    { eventId, organizerName: event.organizer.fullName, reason, attendeesNotified: notifiedCount }
+    `Event "${event.title}" was cancelled. Reason: ${reason}. ${notifiedCount} attendees notified, ${refundBatch?.totalRequests ?? 0} refunds queued.`,
+    {
+      eventId,
+      organizerName: event.organizer.fullName,
+      reason,
+      attendeesNotified: notifiedCount,
+      refundBatchId: refundBatch?.id,
+      refundsQueued: refundBatch?.totalRequests ?? 0,
+    }
   );
 
   return {
     event: updatedEvent,
     attendeesNotified: notifiedCount,
+    refundsQueued: refundBatch?.totalRequests ?? 0,
     message: 'Event cancelled. All ticket holders have been notified and refunds will be processed.',
   };
 };
@@ -1,5 +1,5 @@
 import { prisma } from '../../lib/prisma';
-import { TicketCategory } from '@prisma/client';
+import { Prisma, TicketCategory } from '@prisma/client';
 import { notifyEventAttendees } from '../notifications/notification.service';
 
 interface CreateFlashSaleInput {
@@ -250,13 +250,30 @@ export const validatePromoCode = async (
   };
 };
 
-// Redeem a flash sale (increment counter)
-export const redeemFlashSale = async (flashSaleId: string) => {
-  return prisma.flashSale.update({
-    where: { id: flashSaleId },
-    data: {
-      currentRedemptions: { increment: 1 },
-    },
+// Redeem a flash sale (increment counter atomically, never past maxRedemptions).
+// Returns false when the sale is already used up. Pass a transaction client to
+// redeem as part of a larger transaction (e.g. checkout).
+export const redeemFlashSale = async (
+  flashSaleId: string,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const updated = await db.$executeRaw`
+    UPDATE "flash_sales"
+    SET "currentRedemptions" = "currentRedemptions" + 1, "updatedAt" = NOW()
+    WHERE "id" = ${flashSaleId}
+      AND ("maxRedemptions" IS NULL OR "currentRedemptions" < "maxRedemptions")
+  `;
+  return updated > 0;
+};
+
+// Give a redemption back (e.g. the order that used it was cancelled)
+export const releaseFlashSaleRedemption = async (
+  flashSaleId: string,
+  db: Prisma.TransactionClient = prisma
+) => {
+  await db.flashSale.updateMany({
+    where: { id: flashSaleId, currentRedemptions: { gt: 0 } },
+    data: { currentRedemptions: { decrement: 1 } },
   });
 };
 
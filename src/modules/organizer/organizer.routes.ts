@@ -9,6 +9,12 @@ import {
   exportOrganizerAnalytics,
   requestPayout,
 } from './organizer.service';
+import { updateRefundPolicySchema } from '../refunds/refunds.schema';
+import {
+  getOrganizerRefundPolicy,
+  updateOrganizerRefundPolicy,
+  RefundPolicy,
+} from '../refunds/refund-policy.service';
 
 export default async (fastify: FastifyInstance) => {
   // Get organizer analytics
@@ -115,4 +121,35 @@ export default async (fastify: FastifyInstance) => {
       }
     }
   );
+
+  // Get the organizer's refund policy
+  fastify.get(
+    '/refund-policy',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const result = await getOrganizerRefundPolicy(request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 500;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Set the organizer's refund policy tiers
+  fastify.put(
+    '/refund-policy',
+    { schema: updateRefundPolicySchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const result = await updateOrganizerRefundPolicy(request.user!.id, request.body as RefundPolicy);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
 };
@@ -138,13 +138,22 @@ export const getOrganizerBalance = async (organizerId: string) => {
   });
   const eventIds = events.map((e) => e.id);
 
-  const [totalEarnings, completedPayouts, pendingPayouts] = await Promise.all([
+  const [totalEarnings, resaleRoyalties, completedPayouts, pendingPayouts] = await Promise.all([
     prisma.order.aggregate({
       where: {
         eventId: { in: eventIds },
         status: 'PAID',
+        // Resale orders pay the seller, not the organizer - only the royalty is theirs
+        resaleListing: { is: null },
       },
-      _sum: { totalAmount: true },
+      _sum: { totalAmount: true, refundedAmount: true },
+    }),
+    prisma.resaleListing.aggregate({
+      where: {
+        eventId: { in: eventIds },
+        status: 'SOLD',
+      },
+      _sum: { royaltyAmount: true },
     }),
     prisma.payout.aggregate({
       where: {
@@ -162,7 +171,11 @@ export const getOrganizerBalance = async (organizerId: string) => {
     }),
   ]);
 
-  const totalRevenue = Number(totalEarnings._sum.totalAmount) || 0;
+  // Partially refunded orders stay PAID; only what the attendee kept counts
+  const totalRevenue =
+    (Number(totalEarnings._sum.totalAmount) || 0) -
+    (Number(totalEarnings._sum.refundedAmount) || 0) +
+    (Number(resaleRoyalties._sum.royaltyAmount) || 0);
   const paidOut = Number(completedPayouts._sum.netAmount) || 0;
   const pending = Number(pendingPayouts._sum.netAmount) || 0;
 
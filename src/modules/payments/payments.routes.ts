@@ -6,6 +6,10 @@ import {
   getPaymentStatus,
   confirmDummyPayment,
 } from './payments.service';
+import { handleB2CResult, handleB2CTimeout } from '../refunds/refunds.service';
+import { handleResalePayoutResult, handleResalePayoutTimeout } from '../resale/resale.service';
+import { verifyCallbackToken } from './providers';
+import type { MpesaStkCallback, MpesaB2CResult } from './providers';
 
 export default async (fastify: FastifyInstance) => {
   // Initiate payment
@@ -30,25 +34,20 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
-  // M-Pesa callback (public webhook — no auth)
+  // M-Pesa callback (public webhook — authenticated by the signed token in the URL)
   fastify.post(
-    '/callback/mpesa',
+    '/callback/mpesa/:callbackToken',
     async (request, reply) => {
       try {
-        const body = request.body as {
-          Body: {
-            stkCallback: {
-              MerchantRequestID: string;
-              CheckoutRequestID: string;
-              ResultCode: number;
-              ResultDesc: string;
-              CallbackMetadata?: {
-                Item: Array<{ Name: string; Value?: string | number }>;
-              };
-            };
-          };
-        };
-        const result = await handleMpesaCallback(body.Body.stkCallback);
+        const { callbackToken } = request.params as { callbackToken: string };
+        const transactionId = verifyCallbackToken(callbackToken);
+        if (!transactionId) {
+          fastify.log.warn('M-Pesa callback rejected: invalid callback token');
+          return reply.status(403).send({ error: 'Invalid callback token' });
+        }
+
+        const body = request.body as { Body: { stkCallback: MpesaStkCallback } };
+        const result = await handleMpesaCallback(body.Body.stkCallback, transactionId);
         reply.send(result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -58,6 +57,55 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
+  // M-Pesa B2C refund payout result (public webhook — authenticated by the signed token in the URL)
+  fastify.post(
+    '/callback/mpesa/b2c/:callbackToken',
+    async (request, reply) => {
+      try {
+        const { callbackToken } = request.params as { callbackToken: string };
+        const reference = verifyCallbackToken(callbackToken);
+        if (!reference) {
+          fastify.log.warn('M-Pesa B2C result rejected: invalid callback token');
+          return reply.status(403).send({ error: 'Invalid callback token' });
+        }
+
+        const body = request.body as { Result: MpesaB2CResult };
+        // B2C pays out both refunds and resale proceeds
+        const result =
+          (await handleResalePayoutResult(body.Result, reference)) ?? (await handleB2CResult(body.Result, reference));
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        fastify.log.error({ err: errorMessage }, 'M-Pesa B2C result error');
+        reply.status(200).send({ message: 'Result received' }); // Always return 200 to M-Pesa
+      }
+    }
+  );
+
+  // M-Pesa B2C queue timeout (public webhook — authenticated by the signed token in the URL)
+  fastify.post(
+    '/callback/mpesa/b2c/timeout/:callbackToken',
+    async (request, reply) => {
+      try {
+        const { callbackToken } = request.params as { callbackToken: string };
+        const reference = verifyCallbackToken(callbackToken);
+        if (!reference) {
+          fastify.log.warn('M-Pesa B2C timeout rejected: invalid callback token');
+          return reply.status(403).send({ error: 'Invalid callback token' });
+        }
+
+        const body = request.body as { Result: MpesaB2CResult };
+        const result =
+          (await handleResalePayoutTimeout(body.Result, reference)) ?? (await handleB2CTimeout(body.Result, reference));
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        fastify.log.error({ err: errorMessage }, 'M-Pesa B2C timeout error');
+        reply.status(200).send({ message: 'Timeout received' }); // Always return 200 to M-Pesa
+      }
+    }
+  );
+
   // Confirm dummy payment (non-MPESA, dev/demo mode)
   fastify.post(
     '/dummy-confirm/:transactionId',
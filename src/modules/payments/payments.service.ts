@@ -1,6 +1,28 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { logAudit } from '../../lib/audit';
 import { createNotification } from '../notifications/notification.service';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { issueOrderTickets, releaseOrderInventory } from '../tickets/tickets.service';
+import { assertOrderReservationsActive } from '../tickets/reservations.service';
+import { fulfillResaleOrder } from '../resale/resale.service';
+import { assertPaymentAccountLimit } from '../tickets/purchase-limits.service';
+import { envConfig } from '../../config/env';
+import {
+  getPaymentProvider,
+  normalizeMsisdn,
+  toMpesaAmount,
+  createCallbackToken,
+  MpesaStkCallback,
+} from './providers';
+
+// Pending M-Pesa payments older than this are reconciled against the gateway
+const RECONCILE_AFTER_MS = 2 * 60 * 1000;
+// Status polls query the gateway directly once the callback is this late
+const STATUS_QUERY_AFTER_MS = 30 * 1000;
+const RECONCILE_BATCH_SIZE = 50;
+
+type TransactionWithOrder = Prisma.TransactionGetPayload<{ include: { order: true } }>;
 
 // Initiate a payment for an order
 export const initiatePayment = async (
@@ -31,34 +53,76 @@ export const initiatePayment = async (
     throw new Error('A payment is already in progress for this order');
   }
 
-  // Create or update transaction
-  const transaction = await prisma.transaction.upsert({
+  // The held seats must still be ours before we take the customer's money
+  await assertOrderReservationsActive(orderId);
+
+  // Validate the phone number before touching the transaction
+  let msisdn: string | null = null;
+  if (method === 'MPESA') {
+    if (!phoneNumber) {
+      throw new Error('Phone number is required for M-Pesa payments');
+    }
+    msisdn = normalizeMsisdn(phoneNumber);
+
+    // One M-Pesa number can't fund more than the per-person cap across accounts
+    await assertPaymentAccountLimit(order, msisdn);
+  }
+
+  // Create or update transaction (a retry after a failed attempt resets the gateway fields)
+  let transaction = await prisma.transaction.upsert({
     where: { orderId },
     update: {
       paymentMethod: method,
       status: 'PENDING',
       amount: order.totalAmount,
+      phoneNumber: msisdn,
+      gatewayTxId: null,
+      receiptNumber: null,
+      failureReason: null,
     },
     create: {
       orderId,
       amount: order.totalAmount,
       paymentMethod: method,
       status: 'PENDING',
+      phoneNumber: msisdn,
     },
   });
 
-  // For M-Pesa: would initiate STK push here
-  // For now, return transaction reference for the frontend to track
-  if (method === 'MPESA') {
-    if (!phoneNumber) {
-      throw new Error('Phone number is required for M-Pesa payments');
+  let customerMessage: string | undefined;
+
+  if (method === 'MPESA' && msisdn) {
+    const provider = getPaymentProvider();
+
+    try {
+      const stkResult = await provider.initiateStkPush({
+        amount: order.totalAmount,
+        phoneNumber: msisdn,
+        accountReference: orderId.slice(0, 8).toUpperCase(),
+        description: 'MobiTickets',
+        callbackToken: createCallbackToken(transaction.id),
+      });
+
+      transaction = await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: { gatewayTxId: stkResult.checkoutRequestId },
+      });
+      customerMessage = stkResult.customerMessage;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: { status: 'FAILED', failureReason: errorMessage },
+      });
+      throw error;
     }
-    // TODO: Integrate with Safaricom Daraja API for STK Push
-    // const stkResult = await initiateStkPush(phoneNumber, order.totalAmount, transaction.id);
+
     await logAudit('MPESA_STK_INITIATED', 'Transaction', transaction.id, userId, {
       orderId,
       amount: order.totalAmount,
-      phoneNumber: '***' + phoneNumber.slice(-4),
+      phoneNumber: '***' + msisdn.slice(-4),
+      provider: provider.name,
+      checkoutRequestId: transaction.gatewayTxId,
     });
   }
 
@@ -69,23 +133,139 @@ export const initiatePayment = async (
   });
 
   return {
-    message: 'Payment initiated',
+    message: customerMessage || 'Payment initiated',
     transactionId: transaction.id,
+    checkoutRequestId: transaction.gatewayTxId,
     amount: order.totalAmount,
     method,
     status: 'PENDING',
   };
 };
 
-// Handle M-Pesa callback
-export const handleMpesaCallback = async (callbackData: {
-  MerchantRequestID: string;
-  CheckoutRequestID: string;
-  ResultCode: number;
-  ResultDesc: string;
-  CallbackMetadata?: { Item: Array<{ Name: string; Value?: string | number }> };
-}) => {
-  const { ResultCode, CheckoutRequestID, CallbackMetadata } = callbackData;
+// Issue tickets for a freshly paid order (or hand over the ticket for a resale order). The payment is already captured at this point,
+// so a failure here must not be swallowed silently - admins need to re-issue manually.
+const fulfillPaidOrder = async (orderId: string, transactionId: string) => {
+  try {
+    return (await fulfillResaleOrder(orderId)) ?? (await issueOrderTickets(orderId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Ticket issuance failed for paid order ${orderId}:`, errorMessage);
+    await createSystemAlert(
+      'payment',
+      'critical',
+      'Ticket issuance failed for paid order',
+      `Order ${orderId} was paid but its tickets could not be issued: ${errorMessage}`,
+      { orderId, transactionId }
+    );
+    return [];
+  }
+};
+
+// Mark a pending transaction as completed and its order as paid.
+// Safe to call more than once - only the first call for a transaction has any effect.
+const completeTransaction = async (
+  transaction: TransactionWithOrder,
+  receiptNumber: string | null,
+  method: string
+) => {
+  const completed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.transaction.updateMany({
+      where: { id: transaction.id, status: 'PENDING' },
+      data: { status: 'COMPLETED', receiptNumber, failureReason: null },
+    });
+
+    if (count === 0) {
+      return 'DUPLICATE';
+    }
+
+    // The order may have been cancelled while the customer was paying (reservation expired)
+    const { count: paid } = await tx.order.updateMany({
+      where: { id: transaction.orderId, status: 'PENDING' },
+      data: { status: 'PAID' },
+    });
+
+    return paid > 0 ? 'PAID' : 'ORDER_CANCELLED';
+  });
+
+  if (completed === 'DUPLICATE') {
+    return false;
+  }
+
+  if (completed === 'ORDER_CANCELLED') {
+    await createSystemAlert(
+      'payment',
+      'critical',
+      'Payment received for cancelled order',
+      `Transaction ${transaction.id} completed after order ${transaction.orderId} was cancelled. The customer must be refunded.`,
+      { transactionId: transaction.id, orderId: transaction.orderId, receiptNumber, amount: transaction.amount }
+    );
+    await logAudit('PAYMENT_ORPHANED', 'Transaction', transaction.id, transaction.order.userId, {
+      orderId: transaction.orderId,
+      amount: transaction.amount,
+      mpesaReceiptNumber: receiptNumber,
+    });
+    return false;
+  }
+
+  await createNotification({
+    userId: transaction.order.userId,
+    eventId: transaction.order.eventId,
+    type: 'TICKET_PURCHASE',
+    title: 'Payment Successful',
+    message: `Your payment of KES ${transaction.amount} has been received.`,
+    data: { transactionId: transaction.id, orderId: transaction.orderId },
+  });
+
+  await logAudit('PAYMENT_COMPLETED', 'Transaction', transaction.id, transaction.order.userId, {
+    method,
+    amount: transaction.amount,
+    mpesaReceiptNumber: receiptNumber,
+  });
+
+  await fulfillPaidOrder(transaction.orderId, transaction.id);
+
+  return true;
+};
+
+// Mark a pending transaction as failed and release the order's inventory.
+// Idempotent like completeTransaction.
+const failTransaction = async (
+  transaction: TransactionWithOrder,
+  resultCode: number | null,
+  reason: string
+) => {
+  const { count } = await prisma.transaction.updateMany({
+    where: { id: transaction.id, status: 'PENDING' },
+    data: { status: 'FAILED', failureReason: reason },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await logAudit('PAYMENT_FAILED', 'Transaction', transaction.id, transaction.order.userId, {
+    resultCode,
+    resultDesc: reason,
+  });
+
+  // Give the held seats back to other buyers
+  await releaseOrderInventory(transaction.orderId, `Payment failed: ${reason}`);
+
+  return true;
+};
+
+// Safaricom may mask the payer's number in callbacks (e.g. 2547******123) - compare the digits it shows
+const phoneMatches = (msisdn: string, reported: string) => {
+  if (/^\d+$/.test(reported)) {
+    return reported === msisdn;
+  }
+  const suffix = reported.replace(/^.*\D/, '');
+  return suffix.length > 0 && msisdn.endsWith(suffix);
+};
+
+// Handle M-Pesa callback. transactionId comes from the signed token in the callback URL.
+export const handleMpesaCallback = async (callbackData: MpesaStkCallback, transactionId: string) => {
+  const { ResultCode, ResultDesc, CheckoutRequestID, CallbackMetadata } = callbackData;
 
   // Find the transaction by gateway reference
   const transaction = await prisma.transaction.findFirst({
@@ -99,60 +279,102 @@ export const handleMpesaCallback = async (callbackData: {
     return { message: 'Callback received' };
   }
 
+  // A token issued for one payment can't settle another
+  if (transaction.id !== transactionId) {
+    console.error(`M-Pesa callback: token for ${transactionId} used for transaction ${transaction.id}`);
+    return { message: 'Callback received' };
+  }
+
   if (ResultCode === 0) {
-    // Payment successful
-    let mpesaReceiptNumber: string | undefined;
-    if (CallbackMetadata) {
-      const receipt = CallbackMetadata.Item.find((i) => i.Name === 'MpesaReceiptNumber');
-      mpesaReceiptNumber = receipt?.Value?.toString();
+    const item = (name: string) => CallbackMetadata?.Item.find((i) => i.Name === name)?.Value;
+    const receipt = item('MpesaReceiptNumber')?.toString() ?? null;
+    const paidAmount = Number(item('Amount'));
+    const paidFrom = item('PhoneNumber')?.toString();
+
+    const amountMatches = paidAmount === toMpesaAmount(transaction.amount);
+    const payerMatches = !transaction.phoneNumber || !paidFrom || phoneMatches(transaction.phoneNumber, paidFrom);
+
+    if (!amountMatches || !payerMatches) {
+      // Something other than the STK push we sent was paid - no tickets; an admin settles it with the customer
+      await createSystemAlert(
+        'payment',
+        'critical',
+        'M-Pesa payment does not match the order',
+        `Transaction ${transaction.id} was paid KES ${paidAmount} from ${paidFrom ?? 'an unknown number'}, ` +
+          `expected KES ${toMpesaAmount(transaction.amount)} from ***${transaction.phoneNumber?.slice(-4)}. The customer must be refunded.`,
+        { transactionId: transaction.id, orderId: transaction.orderId, receiptNumber: receipt, paidAmount, paidFrom }
+      );
+      await failTransaction(transaction, ResultCode, 'Payment did not match the order');
+      return { message: 'Callback processed' };
     }
 
-    await prisma.$transaction(async (tx) => {
-      // Update transaction
-      await tx.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          status: 'COMPLETED',
-          gatewayTxId: mpesaReceiptNumber || CheckoutRequestID,
-        },
-      });
+    // Payment successful
+    await completeTransaction(transaction, receipt, 'MPESA');
+  } else {
+    // Payment failed (cancelled, timed out, insufficient funds...)
+    await failTransaction(transaction, ResultCode, ResultDesc);
+  }
 
-      // Update order status
-      await tx.order.update({
-        where: { id: transaction.orderId },
-        data: { status: 'PAID' },
-      });
-    });
+  return { message: 'Callback processed' };
+};
 
-    // Notify user
-    await createNotification({
-      userId: transaction.order.userId,
-      eventId: transaction.order.eventId,
-      type: 'TICKET_PURCHASE',
-      title: 'Payment Successful',
-      message: `Your payment of KES ${transaction.amount} has been received.`,
-      data: { transactionId: transaction.id, orderId: transaction.orderId },
-    });
+// Ask the gateway for the outcome of a pending M-Pesa payment (covers lost callbacks)
+export const reconcilePayment = async (transactionId: string) => {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: { order: true },
+  });
 
-    await logAudit('PAYMENT_COMPLETED', 'Transaction', transaction.id, transaction.order.userId, {
-      method: 'MPESA',
-      amount: transaction.amount,
-      mpesaReceiptNumber,
-    });
-  } else {
-    // Payment failed
-    await prisma.transaction.update({
-      where: { id: transaction.id },
-      data: { status: 'FAILED' },
-    });
+  if (!transaction) {
+    throw new Error('Transaction not found');
+  }
 
-    await logAudit('PAYMENT_FAILED', 'Transaction', transaction.id, transaction.order.userId, {
-      resultCode: ResultCode,
-      resultDesc: callbackData.ResultDesc,
-    });
+  if (transaction.status !== 'PENDING' || transaction.paymentMethod !== 'MPESA' || !transaction.gatewayTxId) {
+    return transaction.status;
   }
 
-  return { message: 'Callback processed' };
+  const result = await getPaymentProvider().queryStkStatus(transaction.gatewayTxId);
+
+  if (result.status === 'COMPLETED') {
+    // The query API does not return the receipt number; the callback (if it arrives) won't overwrite it
+    await completeTransaction(transaction, null, 'MPESA');
+  } else if (result.status === 'FAILED') {
+    await failTransaction(transaction, result.resultCode, result.resultDesc);
+  }
+
+  return result.status;
+};
+
+// Reconcile stale pending M-Pesa payments (run from the scheduled-task webhook)
+export const reconcilePendingPayments = async () => {
+  const stale = await prisma.transaction.findMany({
+    where: {
+      status: 'PENDING',
+      paymentMethod: 'MPESA',
+      gatewayTxId: { not: null },
+      updatedAt: { lt: new Date(Date.now() - RECONCILE_AFTER_MS) },
+    },
+    select: { id: true },
+    orderBy: { updatedAt: 'asc' },
+    take: RECONCILE_BATCH_SIZE,
+  });
+
+  const summary = { checked: stale.length, completed: 0, failed: 0, pending: 0, errors: 0 };
+
+  for (const { id } of stale) {
+    try {
+      const status = await reconcilePayment(id);
+      if (status === 'COMPLETED') summary.completed++;
+      else if (status === 'FAILED') summary.failed++;
+      else summary.pending++;
+    } catch (error) {
+      summary.errors++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Payment reconciliation failed for ${id}:`, errorMessage);
+    }
+  }
+
+  return summary;
 };
 
 // Confirm a dummy (non-MPESA) payment — immediately marks transaction + order as completed
@@ -176,20 +398,39 @@ export const confirmDummyPayment = async (transactionId: string, userId: string)
     throw new Error('Payment already completed');
   }
 
+  // Real M-Pesa payments are only ever confirmed by Safaricom
+  if (
+    transaction.paymentMethod === 'MPESA' &&
+    (getPaymentProvider().name !== 'fake' || envConfig.NODE_ENV === 'production')
+  ) {
+    throw new Error('M-Pesa payments are confirmed by the payment gateway');
+  }
+
   if (transaction.order.status !== 'PENDING') {
     throw new Error(`Cannot confirm payment for order with status: ${transaction.order.status}`);
   }
 
+  await assertOrderReservationsActive(transaction.orderId);
+
   await prisma.$transaction(async (tx) => {
-    await tx.transaction.update({
-      where: { id: transactionId },
+    // Guard against a concurrent gateway callback completing the same payment
+    const { count } = await tx.transaction.updateMany({
+      where: { id: transactionId, status: 'PENDING' },
       data: { status: 'COMPLETED' },
     });
 
-    await tx.order.update({
-      where: { id: transaction.orderId },
+    if (count === 0) {
+      throw new Error('Payment is no longer pending');
+    }
+
+    const { count: paid } = await tx.order.updateMany({
+      where: { id: transaction.orderId, status: 'PENDING' },
       data: { status: 'PAID' },
     });
+
+    if (paid === 0) {
+      throw new Error('Order is no longer pending');
+    }
   });
 
   await createNotification({
@@ -207,24 +448,31 @@ export const confirmDummyPayment = async (transactionId: string, userId: string)
     orderId: transaction.orderId,
   });
 
+  const purchases = await fulfillPaidOrder(transaction.orderId, transactionId);
+
   return {
     success: true,
     transactionId,
     orderId: transaction.orderId,
     amount: transaction.amount,
+    qrCode: purchases[0]?.qrCodeData,
+    ticketCount: purchases.length,
   };
 };
 
 // Get payment status
 export const getPaymentStatus = async (transactionId: string, userId: string) => {
-  const transaction = await prisma.transaction.findUnique({
-    where: { id: transactionId },
-    include: {
-      order: {
-        select: { userId: true, totalAmount: true, status: true },
+  const findTransaction = () =>
+    prisma.transaction.findUnique({
+      where: { id: transactionId },
+      include: {
+        order: {
+          select: { userId: true, totalAmount: true, status: true },
+        },
       },
-    },
-  });
+    });
+
+  let transaction = await findTransaction();
 
   if (!transaction) {
     throw new Error('Transaction not found');
@@ -234,12 +482,32 @@ export const getPaymentStatus = async (transactionId: string, userId: string) =>
     throw new Error('Unauthorized: This is not your transaction');
   }
 
+  // Callback is overdue - ask the gateway directly instead of waiting for it
+  if (
+    transaction.status === 'PENDING' &&
+    transaction.paymentMethod === 'MPESA' &&
+    Date.now() - transaction.updatedAt.getTime() > STATUS_QUERY_AFTER_MS
+  ) {
+    try {
+      const status = await reconcilePayment(transaction.id);
+      if (status !== 'PENDING') {
+        transaction = (await findTransaction())!;
+      }
+    } catch (error) {
+      // Gateway unreachable - report the last known state
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('M-Pesa status query failed:', errorMessage);
+    }
+  }
+
   return {
     transactionId: transaction.id,
     orderId: transaction.orderId,
     amount: transaction.amount,
     method: transaction.paymentMethod,
     status: transaction.status,
+    receiptNumber: transaction.receiptNumber,
+    failureReason: transaction.failureReason,
     orderStatus: transaction.order.status,
     createdAt: transaction.createdAt,
     updatedAt: transaction.updatedAt,
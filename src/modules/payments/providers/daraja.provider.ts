@@ -0,0 +1,238 @@
+// src/modules/payments/providers/daraja.provider.ts
+// Safaricom Daraja (Lipa Na M-Pesa Online) STK Push integration
+import { redis } from '../../../lib/redis';
+import { envConfig } from '../../../config/env';
+import { toMpesaAmount } from './payment-provider';
+import type {
+  B2CPaymentRequest,
+  B2CPaymentResult,
+  PaymentProvider,
+  StkPushRequest,
+  StkPushResult,
+  StkQueryResult,
+} from './payment-provider';
+
+const DARAJA_BASE_URLS = {
+  sandbox: 'https://sandbox.safaricom.co.ke',
+  production: 'https://api.safaricom.co.ke',
+} as const;
+
+const OAUTH_TOKEN_CACHE_KEY = 'mpesa:oauth_token';
+
+// Daraja returns this errorCode while the customer has not yet responded to the prompt
+const STK_QUERY_PENDING_ERROR_CODE = '500.001.1001';
+
+interface DarajaConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortcode: string;
+  passkey: string;
+  callbackUrl: string;
+  b2c?: {
+    shortcode: string;
+    initiatorName: string;
+    securityCredential: string;
+    resultUrl: string;
+    timeoutUrl: string;
+  };
+}
+
+/**
+ * Daraja expects timestamps in East Africa Time as YYYYMMDDHHmmss
+ */
+function darajaTimestamp(date: Date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:TZ.]/g, '').slice(0, 14);
+}
+
+function stkPassword(shortcode: string, passkey: string, timestamp: string): string {
+  return Buffer.from(`${shortcode}${passkey}${timestamp}`).toString('base64');
+}
+
+export function createDarajaProvider(config: DarajaConfig): PaymentProvider {
+  /**
+   * Fetch an OAuth access token, reusing the cached one until shortly before it expires
+   */
+  async function getAccessToken(): Promise<string> {
+    const cached = await redis.get<string>(OAUTH_TOKEN_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const credentials = Buffer.from(`${config.consumerKey}:${config.consumerSecret}`).toString('base64');
+    const response = await fetch(`${config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`M-Pesa authentication failed (${response.status})`);
+    }
+
+    const data = (await response.json()) as { access_token: string; expires_in: string | number };
+
+    // Expire the cached token a minute early so we never send a stale one
+    const ttl = Math.max(Number(data.expires_in) - 60, 60);
+    await redis.set(OAUTH_TOKEN_CACHE_KEY, data.access_token, { ex: ttl });
+
+    return data.access_token;
+  }
+
+  async function darajaPost<T>(path: string, payload: Record<string, unknown>): Promise<{ ok: boolean; data: T }> {
+    const token = await getAccessToken();
+    const response = await fetch(`${config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    // A 401 means our cached token was revoked early; drop it so the next call re-authenticates
+    if (response.status === 401) {
+      await redis.del(OAUTH_TOKEN_CACHE_KEY);
+    }
+
+    return { ok: response.ok, data: (await response.json()) as T };
+  }
+
+  return {
+    name: 'daraja',
+
+    async initiateStkPush(request: StkPushRequest): Promise<StkPushResult> {
+      const timestamp = darajaTimestamp();
+
+      const { ok, data } = await darajaPost<{
+        MerchantRequestID?: string;
+        CheckoutRequestID?: string;
+        ResponseCode?: string;
+        ResponseDescription?: string;
+        CustomerMessage?: string;
+        errorMessage?: string;
+      }>('/mpesa/stkpush/v1/processrequest', {
+        BusinessShortCode: config.shortcode,
+        Password: stkPassword(config.shortcode, config.passkey, timestamp),
+        Timestamp: timestamp,
+        TransactionType: 'CustomerPayBillOnline',
+        Amount: toMpesaAmount(request.amount),
+        PartyA: request.phoneNumber,
+        PartyB: config.shortcode,
+        PhoneNumber: request.phoneNumber,
+        CallBackURL: `${config.callbackUrl}/${request.callbackToken}`,
+        AccountReference: request.accountReference.slice(0, 12),
+        TransactionDesc: request.description.slice(0, 13),
+      });
+
+      if (!ok || data.ResponseCode !== '0' || !data.CheckoutRequestID || !data.MerchantRequestID) {
+        throw new Error(`M-Pesa STK push failed: ${data.errorMessage || data.ResponseDescription || 'Unknown error'}`);
+      }
+
+      return {
+        merchantRequestId: data.MerchantRequestID,
+        checkoutRequestId: data.CheckoutRequestID,
+        customerMessage: data.CustomerMessage || 'Check your phone to complete the payment',
+      };
+    },
+
+    async queryStkStatus(checkoutRequestId: string): Promise<StkQueryResult> {
+      const timestamp = darajaTimestamp();
+
+      const { ok, data } = await darajaPost<{
+        ResponseCode?: string;
+        ResultCode?: string;
+        ResultDesc?: string;
+        errorCode?: string;
+        errorMessage?: string;
+      }>('/mpesa/stkpushquery/v1/query', {
+        BusinessShortCode: config.shortcode,
+        Password: stkPassword(config.shortcode, config.passkey, timestamp),
+        Timestamp: timestamp,
+        CheckoutRequestID: checkoutRequestId,
+      });
+
+      if (!ok) {
+        if (data.errorCode === STK_QUERY_PENDING_ERROR_CODE) {
+          return { status: 'PENDING', resultCode: null, resultDesc: data.errorMessage || 'Transaction is being processed' };
+        }
+        throw new Error(`M-Pesa STK query failed: ${data.errorMessage || 'Unknown error'}`);
+      }
+
+      const resultCode = Number(data.ResultCode);
+      return {
+        status: resultCode === 0 ? 'COMPLETED' : 'FAILED',
+        resultCode,
+        resultDesc: data.ResultDesc || '',
+      };
+    },
+
+    async initiateB2CPayment(request: B2CPaymentRequest): Promise<B2CPaymentResult> {
+      if (!config.b2c) {
+        throw new Error('M-Pesa B2C is not configured');
+      }
+
+      const { ok, data } = await darajaPost<{
+        ConversationID?: string;
+        OriginatorConversationID?: string;
+        ResponseCode?: string;
+        ResponseDescription?: string;
+        errorMessage?: string;
+      }>('/mpesa/b2c/v3/paymentrequest', {
+        OriginatorConversationID: request.reference,
+        InitiatorName: config.b2c.initiatorName,
+        SecurityCredential: config.b2c.securityCredential,
+        CommandID: 'BusinessPayment',
+        Amount: toMpesaAmount(request.amount),
+        PartyA: config.b2c.shortcode,
+        PartyB: request.phoneNumber,
+        Remarks: request.remarks.slice(0, 100),
+        QueueTimeOutURL: `${config.b2c.timeoutUrl}/${request.callbackToken}`,
+        ResultURL: `${config.b2c.resultUrl}/${request.callbackToken}`,
+        Occasion: request.reference.slice(0, 100),
+      });
+
+      if (!ok || data.ResponseCode !== '0' || !data.ConversationID) {
+        throw new Error(`M-Pesa B2C request failed: ${data.errorMessage || data.ResponseDescription || 'Unknown error'}`);
+      }
+
+      return {
+        conversationId: data.ConversationID,
+        originatorConversationId: data.OriginatorConversationID || request.reference,
+      };
+    },
+  };
+}
+
+/**
+ * Build the Daraja provider from environment configuration
+ */
+export function createDarajaProviderFromEnv(callbackUrl: string, b2cResultUrl: string): PaymentProvider {
+  const { MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET, MPESA_SHORTCODE, MPESA_PASSKEY } = envConfig;
+  const { MPESA_B2C_SHORTCODE, MPESA_B2C_INITIATOR_NAME, MPESA_B2C_SECURITY_CREDENTIAL } = envConfig;
+
+  if (!MPESA_CONSUMER_KEY || !MPESA_CONSUMER_SECRET || !MPESA_SHORTCODE || !MPESA_PASSKEY) {
+    throw new Error(
+      'PAYMENT_PROVIDER=daraja requires MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET, MPESA_SHORTCODE and MPESA_PASSKEY'
+    );
+  }
+
+  return createDarajaProvider({
+    baseUrl: DARAJA_BASE_URLS[envConfig.MPESA_ENVIRONMENT],
+    consumerKey: MPESA_CONSUMER_KEY,
+    consumerSecret: MPESA_CONSUMER_SECRET,
+    shortcode: MPESA_SHORTCODE,
+    passkey: MPESA_PASSKEY,
+    callbackUrl,
+    // B2C is optional - without it refunds fail with a clear error instead of paying out
+    b2c:
+      MPESA_B2C_INITIATOR_NAME && MPESA_B2C_SECURITY_CREDENTIAL
+        ? {
+            shortcode: MPESA_B2C_SHORTCODE || MPESA_SHORTCODE,
+            initiatorName: MPESA_B2C_INITIATOR_NAME,
+            securityCredential: MPESA_B2C_SECURITY_CREDENTIAL,
+            resultUrl: b2cResultUrl,
+            timeoutUrl: `${b2cResultUrl}/timeout`,
+          }
+        : undefined,
+  });
+}
@@ -0,0 +1,165 @@
+// src/modules/payments/providers/fake.provider.ts
+// Local stand-in for Daraja: accepts STK pushes and fires a simulated callback.
+// No money moves - use for development and demos only.
+import crypto from 'crypto';
+import { toMpesaAmount } from './payment-provider';
+import type {
+  B2CPaymentRequest,
+  B2CPaymentResult,
+  MpesaB2CResult,
+  MpesaStkCallback,
+  PaymentProvider,
+  StkPushRequest,
+  StkPushResult,
+  StkQueryResult,
+} from './payment-provider';
+
+// Daraja result code for "Request cancelled by user"
+const RESULT_CODE_CANCELLED = 1032;
+// Daraja B2C result code for "The balance is insufficient for the transaction"
+const RESULT_CODE_INSUFFICIENT_BALANCE = 2001;
+
+interface FakeStkPush {
+  request: StkPushRequest;
+  merchantRequestId: string;
+  result: StkQueryResult;
+}
+
+interface FakeProviderOptions {
+  callbackUrl: string;
+  b2cResultUrl: string;
+  callbackDelayMs: number;
+}
+
+export function createFakeProvider(options: FakeProviderOptions): PaymentProvider {
+  const pushes = new Map<string, FakeStkPush>();
+
+  function buildCallback(checkoutRequestId: string, push: FakeStkPush): MpesaStkCallback {
+    const cancelled = push.request.phoneNumber.endsWith('0000');
+
+    if (cancelled) {
+      return {
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: RESULT_CODE_CANCELLED,
+        ResultDesc: 'Request cancelled by user',
+      };
+    }
+
+    return {
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID: checkoutRequestId,
+      ResultCode: 0,
+      ResultDesc: 'The service request is processed successfully.',
+      CallbackMetadata: {
+        Item: [
+          { Name: 'Amount', Value: toMpesaAmount(push.request.amount) },
+          { Name: 'MpesaReceiptNumber', Value: `FAKE${crypto.randomBytes(3).toString('hex').toUpperCase()}` },
+          { Name: 'TransactionDate', Value: Number(new Date().toISOString().replace(/[-:TZ.]/g, '').slice(0, 14)) },
+          { Name: 'PhoneNumber', Value: Number(push.request.phoneNumber) },
+        ],
+      },
+    };
+  }
+
+  async function postJson(url: string, body: unknown): Promise<void> {
+    try {
+      await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Fake M-Pesa callback delivery failed:', errorMessage);
+    }
+  }
+
+  function buildB2CResult(request: B2CPaymentRequest, conversationId: string): MpesaB2CResult {
+    if (request.phoneNumber.endsWith('9999')) {
+      return {
+        ResultType: 0,
+        ResultCode: RESULT_CODE_INSUFFICIENT_BALANCE,
+        ResultDesc: 'The balance is insufficient for the transaction.',
+        OriginatorConversationID: request.reference,
+        ConversationID: conversationId,
+      };
+    }
+
+    return {
+      ResultType: 0,
+      ResultCode: 0,
+      ResultDesc: 'The service request is processed successfully.',
+      OriginatorConversationID: request.reference,
+      ConversationID: conversationId,
+      TransactionID: `FAKEB2C${crypto.randomBytes(3).toString('hex').toUpperCase()}`,
+      ResultParameters: {
+        ResultParameter: [
+          { Key: 'TransactionAmount', Value: toMpesaAmount(request.amount) },
+          { Key: 'ReceiverPartyPublicName', Value: `${request.phoneNumber} - Fake Customer` },
+        ],
+      },
+    };
+  }
+
+  async function fireCallback(checkoutRequestId: string): Promise<void> {
+    const push = pushes.get(checkoutRequestId);
+    if (!push) return;
+
+    const stkCallback = buildCallback(checkoutRequestId, push);
+    push.result = {
+      status: stkCallback.ResultCode === 0 ? 'COMPLETED' : 'FAILED',
+      resultCode: stkCallback.ResultCode,
+      resultDesc: stkCallback.ResultDesc,
+    };
+
+    // If delivery fails, reconciliation via queryStkStatus still picks the result up
+    await postJson(`${options.callbackUrl}/${push.request.callbackToken}`, { Body: { stkCallback } });
+  }
+
+  return {
+    name: 'fake',
+
+    async initiateStkPush(request: StkPushRequest): Promise<StkPushResult> {
+      const checkoutRequestId = `ws_CO_FAKE_${crypto.randomUUID()}`;
+      const merchantRequestId = `FAKE-${crypto.randomBytes(6).toString('hex')}`;
+
+      pushes.set(checkoutRequestId, {
+        request,
+        merchantRequestId,
+        result: { status: 'PENDING', resultCode: null, resultDesc: 'The transaction is being processed' },
+      });
+
+      setTimeout(() => void fireCallback(checkoutRequestId), options.callbackDelayMs);
+
+      return {
+        merchantRequestId,
+        checkoutRequestId,
+        customerMessage: 'Success. Request accepted for processing (simulated)',
+      };
+    },
+
+    async queryStkStatus(checkoutRequestId: string): Promise<StkQueryResult> {
+      const push = pushes.get(checkoutRequestId);
+      if (!push) {
+        // Unknown to this process (e.g. server restarted) - treat as abandoned
+        return { status: 'FAILED', resultCode: null, resultDesc: 'Unknown checkout request' };
+      }
+      return push.result;
+    },
+
+    async initiateB2CPayment(request: B2CPaymentRequest): Promise<B2CPaymentResult> {
+      const conversationId = `AG_FAKE_${crypto.randomUUID()}`;
+
+      setTimeout(
+        () =>
+          void postJson(`${options.b2cResultUrl}/${request.callbackToken}`, {
+            Result: buildB2CResult(request, conversationId),
+          }),
+        options.callbackDelayMs
+      );
+
+      return { conversationId, originatorConversationId: request.reference };
+    },
+  };
+}
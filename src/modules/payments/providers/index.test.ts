@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../lib/redis', () => ({ redis: {} }));
+vi.mock('../../../lib/qstash', () => ({ getWebhookBaseUrl: () => 'https://api.test' }));
+
+import { createCallbackToken, verifyCallbackToken, toMpesaAmount } from './index';
+
+describe('callback tokens', () => {
+  it('round-trips the reference it was issued for', () => {
+    const token = createCallbackToken('3f1c2d9e-transaction');
+
+    expect(token.startsWith('3f1c2d9e-transaction.')).toBe(true);
+    expect(verifyCallbackToken(token)).toBe('3f1c2d9e-transaction');
+  });
+
+  it('rejects a signature moved onto another reference', () => {
+    const [, signature] = createCallbackToken('refund-1').split('.');
+
+    expect(verifyCallbackToken(`refund-2.${signature}`)).toBeNull();
+  });
+
+  it('rejects a guessed or malformed token', () => {
+    expect(verifyCallbackToken('refund-1')).toBeNull();
+    expect(verifyCallbackToken('refund-1.')).toBeNull();
+    expect(verifyCallbackToken('.signature')).toBeNull();
+    expect(verifyCallbackToken('refund-1.not-the-signature')).toBeNull();
+  });
+});
+
+describe('toMpesaAmount', () => {
+  it('rounds charges and payouts to the same whole shilling', () => {
+    expect(toMpesaAmount(1500)).toBe(1500);
+    expect(toMpesaAmount(1499.01)).toBe(1500);
+    expect(toMpesaAmount(669.99 * 3)).toBe(2010);
+  });
+});
@@ -0,0 +1,77 @@
+// src/modules/payments/providers/index.ts
+// Selects the payment provider configured via PAYMENT_PROVIDER
+import { createHmac, timingSafeEqual } from 'crypto';
+import { envConfig } from '../../../config/env';
+import { getWebhookBaseUrl } from '../../../lib/qstash';
+import type { PaymentProvider } from './payment-provider';
+import { createDarajaProviderFromEnv } from './daraja.provider';
+import { createFakeProvider } from './fake.provider';
+
+export * from './payment-provider';
+
+let provider: PaymentProvider | null = null;
+
+// Callback URLs end in a token signed over our own reference (transaction, refund or resale listing id).
+// The callbacks are public, so only a request carrying the token we handed to Safaricom is trusted.
+const signCallbackReference = (reference: string) =>
+  createHmac('sha256', envConfig.JWT_SECRET).update(`mpesa-callback:${reference}`).digest('base64url');
+
+/**
+ * Token to append to a callback URL for one payment: <reference>.<signature>
+ */
+export function createCallbackToken(reference: string): string {
+  return `${reference}.${signCallbackReference(reference)}`;
+}
+
+/**
+ * The reference a callback token was issued for, or null if it wasn't issued by us
+ */
+export function verifyCallbackToken(token: string): string | null {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const reference = token.slice(0, separator);
+  const expected = Buffer.from(signCallbackReference(reference));
+  const provided = Buffer.from(token.slice(separator + 1));
+
+  return expected.length === provided.length && timingSafeEqual(expected, provided) ? reference : null;
+}
+
+/**
+ * Public URL Safaricom posts STK push results to (the payment's callback token is appended)
+ */
+export function getMpesaCallbackUrl(): string {
+  return envConfig.MPESA_CALLBACK_URL || `${getWebhookBaseUrl()}/api/payments/callback/mpesa`;
+}
+
+/**
+ * Public URL Safaricom posts B2C (refund payout) results to (the payout's callback token is appended;
+ * queue timeouts go to <url>/timeout/<token>)
+ */
+export function getMpesaB2CResultUrl(): string {
+  return `${getWebhookBaseUrl()}/api/payments/callback/mpesa/b2c`;
+}
+
+/**
+ * Lazily create the configured provider (one instance per process)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) {
+    return provider;
+  }
+
+  if (envConfig.PAYMENT_PROVIDER === 'daraja') {
+    provider = createDarajaProviderFromEnv(getMpesaCallbackUrl(), getMpesaB2CResultUrl());
+  } else {
+    // The fake provider calls back into this same server, so no tunnel is needed
+    provider = createFakeProvider({
+      callbackUrl: `http://localhost:${envConfig.PORT}/api/payments/callback/mpesa`,
+      b2cResultUrl: `http://localhost:${envConfig.PORT}/api/payments/callback/mpesa/b2c`,
+      callbackDelayMs: envConfig.MPESA_FAKE_CALLBACK_DELAY_MS,
+    });
+  }
+
+  return provider;
+}
@@ -0,0 +1,99 @@
+// src/modules/payments/providers/payment-provider.ts
+// Contract every payment gateway integration must satisfy
+
+export interface StkPushRequest {
+  amount: number;
+  phoneNumber: string; // Normalized MSISDN: 2547XXXXXXXX
+  accountReference: string; // Shown to the customer on the M-Pesa prompt (max 12 chars)
+  description: string;
+  callbackToken: string; // Appended to the callback URL so the result can be tied to this payment
+}
+
+export interface StkPushResult {
+  merchantRequestId: string;
+  checkoutRequestId: string; // Used to match the asynchronous callback
+  customerMessage: string;
+}
+
+export type ProviderPaymentStatus = 'COMPLETED' | 'FAILED' | 'PENDING';
+
+export interface StkQueryResult {
+  status: ProviderPaymentStatus;
+  resultCode: number | null;
+  resultDesc: string;
+}
+
+export interface B2CPaymentRequest {
+  amount: number;
+  phoneNumber: string; // Normalized MSISDN: 2547XXXXXXXX
+  reference: string; // Our id for the payout, echoed back in the result callback
+  remarks: string;
+  callbackToken: string; // Appended to the result and timeout URLs so the outcome can be tied to this payout
+}
+
+export interface B2CPaymentResult {
+  conversationId: string; // Used to match the asynchronous result callback
+  originatorConversationId: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /** Send an STK push prompt to the customer's phone */
+  initiateStkPush(request: StkPushRequest): Promise<StkPushResult>;
+
+  /** Ask the gateway for the current state of an STK push (used for reconciliation) */
+  queryStkStatus(checkoutRequestId: string): Promise<StkQueryResult>;
+
+  /** Pay money out to a customer's phone (refunds); the outcome arrives via the B2C result callback */
+  initiateB2CPayment(request: B2CPaymentRequest): Promise<B2CPaymentResult>;
+}
+
+// Shape of the stkCallback object Safaricom posts to our callback URL
+export interface MpesaStkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: { Item: Array<{ Name: string; Value?: string | number }> };
+}
+
+// Shape of the Result object Safaricom posts to the B2C result URL
+export interface MpesaB2CResult {
+  ResultType: number;
+  ResultCode: number;
+  ResultDesc: string;
+  OriginatorConversationID: string;
+  ConversationID: string;
+  TransactionID?: string;
+  ResultParameters?: { ResultParameter: Array<{ Key: string; Value?: string | number }> };
+}
+
+/**
+ * M-Pesa only moves whole shillings. STK charges and B2C payouts both round through here,
+ * so a full refund pays back exactly what was charged.
+ */
+export function toMpesaAmount(amount: number): number {
+  return Math.ceil(amount);
+}
+
+/**
+ * Normalize a Kenyan phone number to the 2547XXXXXXXX format Daraja expects.
+ * Accepts +2547..., 2547..., 07... and 7... forms.
+ */
+export function normalizeMsisdn(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/[^\d]/g, '');
+
+  let msisdn = digits;
+  if (digits.startsWith('0')) {
+    msisdn = `254${digits.slice(1)}`;
+  } else if (digits.length === 9) {
+    msisdn = `254${digits}`;
+  }
+
+  if (!/^254[17]\d{8}$/.test(msisdn)) {
+    throw new Error('Invalid M-Pesa phone number. Use the format +2547XXXXXXXX');
+  }
+
+  return msisdn;
+}
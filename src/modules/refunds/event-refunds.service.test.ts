@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeDb, createTable } from '../../../test/fake-db';
+
+const state = vi.hoisted(() => ({ db: null as any }));
+
+vi.mock('../../lib/prisma', () => ({
+  get prisma() {
+    return state.db;
+  },
+}));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../../lib/queue', () => ({ queueRefundBatch: vi.fn(), sendRefundConfirmationEmail: vi.fn() }));
+vi.mock('../alerts/alerts.service', () => ({ createSystemAlert: vi.fn() }));
+vi.mock('./refunds.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./refunds.service')>()),
+  processRefund: vi.fn(),
+}));
+
+import { startEventRefunds } from './event-refunds.service';
+import { queueRefundBatch } from '../../lib/queue';
+
+const EVENT_ID = 'event-1';
+
+// A paid order of KES 1,000 tickets, with the open refund requests Prisma would have selected
+const paidOrder = (id: string, ticketCount: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  eventId: EVENT_ID,
+  userId: `buyer-${id}`,
+  status: 'PAID',
+  totalAmount: ticketCount * 1000,
+  refundedAmount: 0,
+  items: [{ ticketId: 'regular', priceAtTime: 1000 }],
+  ticketPurchases: Array.from({ length: ticketCount }, (_, i) => ({ id: `${id}-ticket-${i + 1}`, ticketId: 'regular' })),
+  refundRequests: [],
+  ...overrides,
+});
+
+const openRequest = (id: string, orderId: string, status: string, amount: number, ticketPurchaseIds: string[] | null) => ({
+  id,
+  orderId,
+  status,
+  amount,
+  ticketPurchaseIds,
+  batchId: null,
+});
+
+const setup = (orders: ReturnType<typeof paidOrder>[], requests: ReturnType<typeof openRequest>[] = []) => {
+  state.db = createFakeDb({
+    order: createTable('order', orders),
+    refundRequest: createTable('refundRequest', requests),
+    refundBatch: createTable('refundBatch', [], { status: 'QUEUED', totalRequests: 0, totalAmount: 0 }),
+  });
+  return state.db;
+};
+
+const requestsFor = (orderId: string) =>
+  state.db.refundRequest.rows.filter((r: { orderId: string }) => r.orderId === orderId);
+
+describe('startEventRefunds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('refunds every ticket of every paid order in one queued batch', async () => {
+    setup([paidOrder('order-1', 2), paidOrder('order-2', 1)]);
+
+    const batch = await startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded');
+
+    expect(batch).toMatchObject({ totalRequests: 2, totalAmount: 3000 });
+    expect(requestsFor('order-1')).toEqual([
+      expect.objectContaining({
+        status: 'APPROVED',
+        amount: 2000,
+        refundPercent: 100,
+        batchId: batch!.id,
+        ticketPurchaseIds: ['order-1-ticket-1', 'order-1-ticket-2'],
+        reason: 'Event cancelled: Venue flooded',
+      }),
+    ]);
+    expect(queueRefundBatch).toHaveBeenCalledWith(batch!.id);
+  });
+
+  it('tops up a pending request to the full ticket value and refunds the rest of the order separately', async () => {
+    const pending = openRequest('pending', 'order-1', 'PENDING', 500, ['order-1-ticket-1']);
+    setup([paidOrder('order-1', 3, { refundRequests: [pending] })], [pending]);
+
+    const batch = await startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded');
+
+    const [folded, rest] = requestsFor('order-1');
+    expect(folded).toMatchObject({ id: 'pending', status: 'APPROVED', amount: 1000, refundPercent: 100, batchId: batch!.id });
+    expect(rest).toMatchObject({ status: 'APPROVED', amount: 2000, ticketPurchaseIds: ['order-1-ticket-2', 'order-1-ticket-3'] });
+    expect(batch).toMatchObject({ totalRequests: 2, totalAmount: 3000 });
+  });
+
+  it('adds a payout already in flight to the batch without changing or repeating it', async () => {
+    const inFlight = openRequest('in-flight', 'order-1', 'UNCONFIRMED', 1500, null);
+    setup([paidOrder('order-1', 2, { refundRequests: [inFlight] })], [inFlight]);
+
+    const batch = await startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded');
+
+    expect(requestsFor('order-1')).toEqual([
+      expect.objectContaining({ id: 'in-flight', status: 'UNCONFIRMED', amount: 1500, batchId: batch!.id }),
+    ]);
+    expect(batch).toMatchObject({ totalRequests: 1, totalAmount: 1500 });
+  });
+
+  it('keeps an amount-only request at its amount and refunds the tickets from what is left', async () => {
+    const moneyOnly = openRequest('money-only', 'order-1', 'PENDING', 300, []);
+    setup([paidOrder('order-1', 2, { refundRequests: [moneyOnly] })], [moneyOnly]);
+
+    const batch = await startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded');
+
+    const [folded, rest] = requestsFor('order-1');
+    expect(folded).toMatchObject({ id: 'money-only', status: 'APPROVED', amount: 300 });
+    expect(rest).toMatchObject({ amount: 1700, ticketPurchaseIds: ['order-1-ticket-1', 'order-1-ticket-2'] });
+    expect(batch!.totalAmount).toBe(2000);
+  });
+
+  it('never refunds more than the order has left', async () => {
+    setup([paidOrder('order-1', 2, { refundedAmount: 1500 })]);
+
+    const batch = await startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded');
+
+    expect(requestsFor('order-1')).toEqual([expect.objectContaining({ amount: 500 })]);
+    expect(batch!.totalAmount).toBe(500);
+  });
+
+  it('does nothing for an event nobody paid for', async () => {
+    setup([]);
+
+    await expect(startEventRefunds(EVENT_ID, 'organizer-1', 'Venue flooded')).resolves.toBeNull();
+    expect(queueRefundBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,314 @@
+// Bulk refunds for cancelled events – every paid order is refunded automatically
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { queueRefundBatch } from '../../lib/queue';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { processRefund, OPEN_REFUND_STATUSES, IN_FLIGHT_REFUND_STATUSES } from './refunds.service';
+
+// Refunds dispatched per queued job, and the pause before the next slice
+// (keeps us well inside M-Pesa B2C rate limits)
+const REFUND_BATCH_SIZE = 20;
+const REFUND_BATCH_DELAY_SECONDS = 5;
+
+/**
+ * Create an auto-approved refund for every PAID order of a cancelled event
+ * and queue the first slice of payouts. Returns null when nothing was paid for.
+ */
+export const startEventRefunds = async (eventId: string, initiatedBy: string, reason: string) => {
+  const orders = await prisma.order.findMany({
+    where: { eventId, status: 'PAID' },
+    select: {
+      id: true,
+      userId: true,
+      totalAmount: true,
+      refundedAmount: true,
+      items: { select: { ticketId: true, priceAtTime: true } },
+      ticketPurchases: { where: { status: 'ACTIVE' }, select: { id: true, ticketId: true } },
+      refundRequests: {
+        where: { status: { in: OPEN_REFUND_STATUSES } },
+        select: { id: true, status: true, amount: true, ticketPurchaseIds: true },
+      },
+    },
+  });
+
+  if (orders.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const refundReason = `Event cancelled: ${reason}`;
+
+  const batch = await prisma.$transaction(async (tx) => {
+    const batch = await tx.refundBatch.create({
+      data: { eventId, initiatedBy, reason },
+    });
+
+    let totalRequests = 0;
+    let totalAmount = 0;
+
+    for (const order of orders) {
+      const paidPrice = new Map(order.items.map((item) => [item.ticketId, item.priceAtTime]));
+      const ticketValue = new Map(order.ticketPurchases.map((p) => [p.id, paidPrice.get(p.ticketId) ?? 0]));
+      // Whatever the order still holds; never refund more than was paid
+      let refundable = order.totalAmount - order.refundedAmount;
+
+      // Open requests are folded into the batch instead of refunded twice.
+      // Cancellation overrides the refund policy, so they are topped up to the full ticket value.
+      const claimed = new Set<string>();
+      for (const open of order.refundRequests) {
+        const ids = (open.ticketPurchaseIds as string[] | null) ?? order.ticketPurchases.map((p) => p.id);
+        ids.forEach((id) => claimed.add(id));
+
+        const inFlight = IN_FLIGHT_REFUND_STATUSES.includes(open.status);
+        // A money-only request returns no tickets, so it keeps the amount asked for
+        const fullAmount = Math.min(
+          ids.length > 0 ? ids.reduce((sum, id) => sum + (ticketValue.get(id) ?? 0), 0) : open.amount,
+          refundable
+        );
+
+        const folded = await tx.refundRequest.update({
+          where: { id: open.id },
+          data: inFlight
+            ? { batchId: batch.id }
+            : {
+                status: 'APPROVED',
+                amount: fullAmount,
+                refundPercent: 100,
+                batchId: batch.id,
+                reviewedBy: initiatedBy,
+                reviewedAt: now,
+              },
+        });
+
+        refundable -= folded.amount;
+        totalAmount += folded.amount;
+        totalRequests++;
+      }
+
+      // Everything the attendee hasn't already asked about
+      const uncovered = order.ticketPurchases.filter((p) => !claimed.has(p.id));
+      const amount = Math.min(
+        uncovered.reduce((sum, p) => sum + (ticketValue.get(p.id) ?? 0), 0),
+        refundable
+      );
+
+      if (uncovered.length === 0 || amount <= 0) {
+        continue;
+      }
+
+      await tx.refundRequest.create({
+        data: {
+          orderId: order.id,
+          userId: order.userId,
+          reason: refundReason,
+          amount,
+          refundPercent: 100,
+          ticketPurchaseIds: uncovered.map((p) => p.id) as unknown as Prisma.InputJsonValue,
+          status: 'APPROVED',
+          reviewedBy: initiatedBy,
+          reviewedAt: now,
+          batchId: batch.id,
+        },
+      });
+
+      totalAmount += amount;
+      totalRequests++;
+    }
+
+    return tx.refundBatch.update({
+      where: { id: batch.id },
+      data: { totalRequests, totalAmount: Math.round(totalAmount * 100) / 100 },
+    });
+  });
+
+  await logAudit('EVENT_REFUNDS_STARTED', 'RefundBatch', batch.id, initiatedBy, {
+    eventId,
+    totalRequests: batch.totalRequests,
+    totalAmount: batch.totalAmount,
+  });
+
+  try {
+    await queueRefundBatch(batch.id);
+  } catch (queueError) {
+    console.error(`Failed to queue refund batch ${batch.id}:`, queueError);
+    await createSystemAlert(
+      'payment',
+      'high',
+      'Event refunds not queued',
+      `${batch.totalRequests} refunds for event ${eventId} were created but could not be queued. Resume the batch from the admin panel.`,
+      { eventId, refundBatchId: batch.id }
+    );
+  }
+
+  return batch;
+};
+
+/**
+ * Process the next slice of a refund batch (called from the job queue).
+ * Safe to re-run: only APPROVED refunds are picked up and processRefund claims each one.
+ */
+export const processRefundBatch = async (batchId: string) => {
+  const batch = await prisma.refundBatch.findUnique({ where: { id: batchId } });
+
+  if (!batch) {
+    throw new Error('Refund batch not found');
+  }
+
+  if (batch.status === 'COMPLETED') {
+    return { batchId, dispatched: 0, errors: 0, remaining: 0, completed: true };
+  }
+
+  if (batch.status === 'QUEUED') {
+    await prisma.refundBatch.updateMany({
+      where: { id: batchId, status: 'QUEUED' },
+      data: { status: 'PROCESSING', startedAt: new Date() },
+    });
+  }
+
+  const slice = await prisma.refundRequest.findMany({
+    where: { batchId, status: 'APPROVED' },
+    orderBy: { createdAt: 'asc' },
+    take: REFUND_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let dispatched = 0;
+  let errors = 0;
+
+  for (const refund of slice) {
+    try {
+      await processRefund(refund.id);
+      dispatched++;
+    } catch (error) {
+      // Already claimed by a concurrent run - it will be counted in the final summary either way
+      errors++;
+      console.error(`Refund batch ${batchId}: failed to process refund ${refund.id}:`, error);
+    }
+  }
+
+  const remaining = await prisma.refundRequest.count({
+    where: { batchId, status: 'APPROVED' },
+  });
+
+  if (remaining > 0) {
+    await queueRefundBatch(batchId, REFUND_BATCH_DELAY_SECONDS);
+    return { batchId, dispatched, errors, remaining, completed: false };
+  }
+
+  await finalizeRefundBatch(batchId);
+  return { batchId, dispatched, errors, remaining, completed: true };
+};
+
+// Count the batch's refunds by status
+const summarizeBatch = async (batchId: string) => {
+  const groups = await prisma.refundRequest.groupBy({
+    by: ['status'],
+    where: { batchId },
+    _count: { _all: true },
+    _sum: { amount: true },
+  });
+
+  const byStatus = (status: string) => groups.find((g) => g.status === status);
+
+  return {
+    approved: byStatus('APPROVED')?._count._all ?? 0,
+    processing: byStatus('PROCESSING')?._count._all ?? 0,
+    unconfirmed: byStatus('UNCONFIRMED')?._count._all ?? 0,
+    awaitingPayout: byStatus('AWAITING_PAYOUT')?._count._all ?? 0,
+    completed: byStatus('COMPLETED')?._count._all ?? 0,
+    failed: byStatus('FAILED')?._count._all ?? 0,
+    refundedAmount: byStatus('COMPLETED')?._sum.amount ?? 0,
+  };
+};
+
+// Every refund has been dispatched - close the batch and raise the summary alert once
+const finalizeRefundBatch = async (batchId: string) => {
+  const { count } = await prisma.refundBatch.updateMany({
+    where: { id: batchId, status: { not: 'COMPLETED' } },
+    data: { status: 'COMPLETED', completedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  const batch = await prisma.refundBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    include: { event: { select: { id: true, title: true } } },
+  });
+  const summary = await summarizeBatch(batchId);
+
+  await createSystemAlert(
+    'payment',
+    summary.failed > 0 || summary.unconfirmed > 0 ? 'high' : 'medium',
+    `Event refunds dispatched: ${batch.event.title}`,
+    `${batch.totalRequests} refunds for "${batch.event.title}" were dispatched: ` +
+      `${summary.completed} completed, ${summary.processing} awaiting M-Pesa confirmation, ` +
+      `${summary.unconfirmed} timed out and need checking, ${summary.awaitingPayout} to pay out manually, ` +
+      `${summary.failed} failed. ` +
+      `KES ${summary.refundedAmount.toLocaleString()} of KES ${batch.totalAmount.toLocaleString()} refunded so far.`,
+    { eventId: batch.eventId, refundBatchId: batch.id, totalRequests: batch.totalRequests, ...summary }
+  );
+
+  await logAudit('EVENT_REFUNDS_DISPATCHED', 'RefundBatch', batch.id, null, {
+    eventId: batch.eventId,
+    ...summary,
+  });
+};
+
+// Refund progress for a cancelled event (organizer/admin)
+export const getEventRefundProgress = async (eventId: string, userId: string, userRole: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, title: true, organizerId: true, refundBatch: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  if (event.organizerId !== userId && userRole !== 'ADMIN') {
+    throw new Error('Unauthorized: You can only view refunds for your own events');
+  }
+
+  if (!event.refundBatch) {
+    throw new Error('No refund batch found for this event');
+  }
+
+  const batch = event.refundBatch;
+  const summary = await summarizeBatch(batch.id);
+  const settled = summary.completed + summary.failed;
+
+  return {
+    batchId: batch.id,
+    eventId: event.id,
+    eventTitle: event.title,
+    status: batch.status,
+    reason: batch.reason,
+    totalRequests: batch.totalRequests,
+    totalAmount: batch.totalAmount,
+    ...summary,
+    progressPercent: batch.totalRequests > 0 ? Math.round((settled / batch.totalRequests) * 100) : 100,
+    startedAt: batch.startedAt,
+    completedAt: batch.completedAt,
+  };
+};
+
+// Re-queue a batch whose job was lost (admin)
+export const resumeRefundBatch = async (batchId: string, adminId: string) => {
+  const batch = await prisma.refundBatch.findUnique({ where: { id: batchId } });
+
+  if (!batch) {
+    throw new Error('Refund batch not found');
+  }
+
+  if (batch.status === 'COMPLETED') {
+    throw new Error('Refund batch has already completed');
+  }
+
+  await queueRefundBatch(batchId);
+  await logAudit('EVENT_REFUNDS_RESUMED', 'RefundBatch', batchId, adminId);
+
+  return { message: 'Refund batch queued' };
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../lib/prisma', () => ({ prisma: {} }));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+
+import {
+  DEFAULT_REFUND_POLICY,
+  RefundPolicy,
+  evaluateRefundPolicy,
+  resolveRefundPolicy,
+  parseRefundPolicy,
+  describeRefundPolicy,
+  toStoredRefundPolicy,
+} from './refund-policy.service';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date('2026-12-01T18:00:00Z');
+const hoursBefore = (hours: number) => new Date(start.getTime() - hours * HOUR);
+
+// Full refund a week out, half until two days out, nothing after
+const policy: RefundPolicy = {
+  tiers: [
+    { minHoursBeforeStart: 48, refundPercent: 50 },
+    { minHoursBeforeStart: 168, refundPercent: 100 },
+  ],
+  processingFee: 100,
+  nonRefundableCategories: ['VVIP'],
+};
+
+describe('evaluateRefundPolicy', () => {
+  it('applies the longest notice tier that has been met', () => {
+    expect(evaluateRefundPolicy(policy, start, hoursBefore(200)).refundPercent).toBe(100);
+    expect(evaluateRefundPolicy(policy, start, hoursBefore(168)).refundPercent).toBe(100);
+    expect(evaluateRefundPolicy(policy, start, hoursBefore(100)).refundPercent).toBe(50);
+    expect(evaluateRefundPolicy(policy, start, hoursBefore(48)).refundPercent).toBe(50);
+  });
+
+  it('refunds nothing after the last tier or once the event has started', () => {
+    const late = evaluateRefundPolicy(policy, start, hoursBefore(47.5));
+    expect(late).toMatchObject({ refundPercent: 0, tier: null, hoursBeforeStart: 47.5 });
+
+    expect(evaluateRefundPolicy(DEFAULT_REFUND_POLICY, start, hoursBefore(-1)).refundPercent).toBe(0);
+    expect(evaluateRefundPolicy(DEFAULT_REFUND_POLICY, start, hoursBefore(0.1)).refundPercent).toBe(100);
+  });
+});
+
+describe('resolveRefundPolicy', () => {
+  const stored = toStoredRefundPolicy(policy) as never;
+
+  it("prefers the event's policy, then the organizer's, then the platform default", () => {
+    expect(resolveRefundPolicy({ refundPolicy: stored }, { refundPolicy: null }).source).toBe('EVENT');
+    expect(resolveRefundPolicy({ refundPolicy: null }, { refundPolicy: stored }).source).toBe('ORGANIZER');
+    expect(resolveRefundPolicy({ refundPolicy: null }, { refundPolicy: null })).toEqual({
+      policy: DEFAULT_REFUND_POLICY,
+      source: 'DEFAULT',
+    });
+  });
+
+  it('ignores a malformed stored policy', () => {
+    const broken = { tiers: [{ minHoursBeforeStart: 24, refundPercent: 150 }] } as never;
+
+    expect(parseRefundPolicy(broken)).toBeNull();
+    expect(resolveRefundPolicy({ refundPolicy: broken }, { refundPolicy: stored }).source).toBe('ORGANIZER');
+  });
+
+  it('stores tiers from the longest notice period down', () => {
+    const parsed = parseRefundPolicy(stored);
+    expect(parsed?.tiers.map((t) => t.minHoursBeforeStart)).toEqual([168, 48]);
+  });
+});
+
+describe('parseRefundPolicy', () => {
+  it('rejects tiers that share a notice period', () => {
+    expect(
+      parseRefundPolicy({
+        tiers: [
+          { minHoursBeforeStart: 24, refundPercent: 100 },
+          { minHoursBeforeStart: 24, refundPercent: 50 },
+        ],
+      })
+    ).toBeNull();
+  });
+
+  it('fills in the fee and category defaults', () => {
+    expect(parseRefundPolicy({ tiers: [{ minHoursBeforeStart: 0, refundPercent: 80 }] })).toEqual({
+      tiers: [{ minHoursBeforeStart: 0, refundPercent: 80 }],
+      processingFee: 0,
+      nonRefundableCategories: [],
+    });
+  });
+});
+
+describe('describeRefundPolicy', () => {
+  it('summarizes the tiers, fee and excluded categories', () => {
+    expect(describeRefundPolicy(policy)).toEqual([
+      '100% refund until 7 days before the event',
+      '50% refund until 2 days before the event',
+      'No refunds after 2 days before the event',
+      `A processing fee of KES ${(100).toLocaleString()} is deducted from each refund`,
+      'VVIP tickets are non-refundable',
+    ]);
+  });
+
+  it('describes the default policy', () => {
+    expect(describeRefundPolicy(DEFAULT_REFUND_POLICY)).toEqual([
+      '100% refund until the event starts',
+      'No refunds after the event starts',
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+// Refund policies – how much of a ticket's price is refundable, based on notice before the event
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { refundPolicySchema, RefundPolicyInput } from './refunds.schema';
+
+export type RefundPolicy = RefundPolicyInput;
+
+// Where the policy for an event came from
+export type RefundPolicySource = 'EVENT' | 'ORGANIZER' | 'DEFAULT';
+
+// Used when neither the event nor its organizer has a policy: full refund until the event starts.
+// It only suggests an amount - requests under the default policy always go to admin review.
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  tiers: [{ minHoursBeforeStart: 0, refundPercent: 100 }],
+  processingFee: 0,
+  nonRefundableCategories: [],
+};
+
+export interface RefundPolicyEvaluation {
+  refundPercent: number;
+  hoursBeforeStart: number;
+  tier: RefundPolicy['tiers'][number] | null;
+}
+
+// Read a stored policy; null if it's missing or malformed
+export const parseRefundPolicy = (value: Prisma.JsonValue | null | undefined): RefundPolicy | null => {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = refundPolicySchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+// Stored form of a policy - tiers ordered from the longest notice period down
+export const toStoredRefundPolicy = (policy: RefundPolicy) =>
+  ({
+    ...policy,
+    tiers: [...policy.tiers].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart),
+  }) as unknown as Prisma.InputJsonValue;
+
+/**
+ * Find the refund percentage for a request made at `now`.
+ * The tier with the longest notice period that has still been met applies.
+ */
+export const evaluateRefundPolicy = (
+  policy: RefundPolicy,
+  startTime: Date,
+  now = new Date()
+): RefundPolicyEvaluation => {
+  const hoursBeforeStart = (startTime.getTime() - now.getTime()) / (60 * 60 * 1000);
+  const tiers = [...policy.tiers].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+  const tier = tiers.find((t) => hoursBeforeStart >= t.minHoursBeforeStart) ?? null;
+
+  return {
+    refundPercent: tier ? tier.refundPercent : 0,
+    hoursBeforeStart: Math.round(hoursBeforeStart * 10) / 10,
+    tier,
+  };
+};
+
+// Policy that applies to an event: its own, else the organizer's default, else the platform default
+export const resolveRefundPolicy = (
+  event: { refundPolicy: Prisma.JsonValue | null },
+  organizer: { refundPolicy: Prisma.JsonValue | null }
+): { policy: RefundPolicy; source: RefundPolicySource } => {
+  const eventPolicy = parseRefundPolicy(event.refundPolicy);
+  if (eventPolicy) {
+    return { policy: eventPolicy, source: 'EVENT' };
+  }
+
+  const organizerPolicy = parseRefundPolicy(organizer.refundPolicy);
+  if (organizerPolicy) {
+    return { policy: organizerPolicy, source: 'ORGANIZER' };
+  }
+
+  return { policy: DEFAULT_REFUND_POLICY, source: 'DEFAULT' };
+};
+
+const formatNotice = (hours: number) => {
+  if (hours === 0) return 'the event starts';
+  if (hours % 24 === 0) return `${hours / 24} day${hours === 24 ? '' : 's'} before the event`;
+  return `${hours} hour${hours === 1 ? '' : 's'} before the event`;
+};
+
+// Plain-language summary for attendees, e.g. "100% refund until 7 days before the event"
+export const describeRefundPolicy = (policy: RefundPolicy): string[] => {
+  const tiers = [...policy.tiers].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+  const lines = tiers.map((tier) =>
+    tier.refundPercent > 0
+      ? `${tier.refundPercent}% refund until ${formatNotice(tier.minHoursBeforeStart)}`
+      : `No refunds from ${formatNotice(tier.minHoursBeforeStart)}`
+  );
+
+  const last = tiers[tiers.length - 1];
+  if (last && last.refundPercent > 0) {
+    lines.push(`No refunds after ${formatNotice(last.minHoursBeforeStart)}`);
+  }
+
+  if (policy.processingFee > 0) {
+    lines.push(`A processing fee of KES ${policy.processingFee.toLocaleString()} is deducted from each refund`);
+  }
+
+  if (policy.nonRefundableCategories.length > 0) {
+    lines.push(`${policy.nonRefundableCategories.join(', ')} tickets are non-refundable`);
+  }
+
+  return lines;
+};
+
+export const getOrganizerRefundPolicy = async (organizerId: string) => {
+  const organizer = await prisma.user.findUnique({
+    where: { id: organizerId },
+    select: { refundPolicy: true },
+  });
+
+  if (!organizer) {
+    throw new Error('Organizer not found');
+  }
+
+  const policy = parseRefundPolicy(organizer.refundPolicy);
+  return { policy: policy ?? DEFAULT_REFUND_POLICY, isDefault: !policy };
+};
+
+export const updateOrganizerRefundPolicy = async (organizerId: string, policy: RefundPolicy) => {
+  const stored = toStoredRefundPolicy(policy);
+
+  await prisma.user.update({
+    where: { id: organizerId },
+    data: { refundPolicy: stored },
+  });
+
+  await logAudit('REFUND_POLICY_UPDATED', 'User', organizerId, organizerId, { policy: stored });
+
+  return { policy: stored, isDefault: false };
+};
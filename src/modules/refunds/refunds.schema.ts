@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const refundPolicyTierSchema = z.object({
+  minHoursBeforeStart: z.number().int().min(0).max(8760),
+  refundPercent: z.number().int().min(0).max(100),
+});
+
+// Tiers are matched from the longest notice period down; anything later than the last tier gets nothing
+export const refundPolicySchema = z
+  .object({
+    tiers: z.array(refundPolicyTierSchema).min(1).max(10),
+    // Flat fee (KES) kept from every refund that falls inside the policy
+    processingFee: z.number().nonnegative().max(100000).default(0),
+    // Ticket tiers that are never refunded under the policy
+    nonRefundableCategories: z.array(z.enum(['REGULAR', 'VIP', 'VVIP'])).default([]),
+  })
+  .refine(
+    (policy) => new Set(policy.tiers.map((tier) => tier.minHoursBeforeStart)).size === policy.tiers.length,
+    { message: 'Each refund tier must have a different notice period', path: ['tiers'] }
+  );
+
+export const updateRefundPolicySchema = z.object({
+  body: refundPolicySchema,
+});
+
+export type RefundPolicyInput = z.infer<typeof refundPolicySchema>;
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeDb, createTable } from '../../../test/fake-db';
+
+const state = vi.hoisted(() => ({ db: null as any }));
+
+vi.mock('../../lib/prisma', () => ({
+  get prisma() {
+    return state.db;
+  },
+}));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../../lib/queue', () => ({ sendRefundConfirmationEmail: vi.fn() }));
+vi.mock('../notifications/notification.service', () => ({ createNotification: vi.fn() }));
+vi.mock('../alerts/alerts.service', () => ({ createSystemAlert: vi.fn() }));
+vi.mock('../payments/providers', () => ({ getPaymentProvider: vi.fn(), createCallbackToken: vi.fn() }));
+vi.mock('../tickets/reservations.service', () => ({ syncTicketStatus: vi.fn() }));
+vi.mock('../tickets/analytics.service', () => ({ invalidateOrganizerAnalyticsCache: vi.fn() }));
+vi.mock('../../utils/analytics', () => ({ computeEventAnalytics: vi.fn() }));
+vi.mock('../waitlist/waitlist.service', () => ({ processTicketWaitlist: vi.fn() }));
+
+import { completeRefund, failRefund, handleB2CResult, handleB2CTimeout } from './refunds.service';
+import { sendRefundConfirmationEmail } from '../../lib/queue';
+import { createSystemAlert } from '../alerts/alerts.service';
+
+const ORDER_ID = 'order-1';
+const REFUND_ID = 'refund-1';
+const CONVERSATION_ID = 'AG_20261019_0001';
+
+// Three regular tickets at KES 1,000; the refund returns two of them unless told otherwise
+const setup = (refund: Record<string, unknown> = {}) => {
+  state.db = createFakeDb({
+    refundRequest: createTable('refundRequest', [
+      {
+        id: REFUND_ID,
+        orderId: ORDER_ID,
+        userId: 'user-1',
+        amount: 2000,
+        status: 'PROCESSING',
+        refundMethod: 'MPESA_B2C',
+        gatewayRef: CONVERSATION_ID,
+        ticketPurchaseIds: ['purchase-1', 'purchase-2'],
+        attempts: 1,
+        order: { eventId: 'event-1', event: { id: 'event-1', title: 'Nairobi Jazz Night', organizerId: 'organizer-1' } },
+        user: { email: 'amina@example.com', fullName: 'Amina' },
+        ...refund,
+      },
+    ]),
+    ticketPurchase: createTable(
+      'ticketPurchase',
+      ['purchase-1', 'purchase-2', 'purchase-3'].map((id) => ({ id, orderId: ORDER_ID, ticketId: 'regular' })),
+      { status: 'ACTIVE' }
+    ),
+    ticket: createTable('ticket', [{ id: 'regular', availableQuantity: 0 }]),
+    order: createTable('order', [{ id: ORDER_ID, status: 'PAID', totalAmount: 3000, refundedAmount: 0 }]),
+    transaction: createTable('transaction', [{ id: 'transaction-1', orderId: ORDER_ID, status: 'COMPLETED' }]),
+  });
+  return state.db;
+};
+
+const result = (overrides: Record<string, unknown> = {}) => ({
+  ResultType: 0,
+  ResultCode: 0,
+  ResultDesc: 'The service request is processed successfully.',
+  OriginatorConversationID: REFUND_ID,
+  ConversationID: CONVERSATION_ID,
+  TransactionID: 'RKT4XYZ123',
+  ...overrides,
+});
+
+const refundRow = () => state.db.refundRequest.rows[0];
+const purchaseStatuses = () => state.db.ticketPurchase.rows.map((p: { status: string }) => p.status);
+
+describe('completeRefund', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('voids and restocks the returned tickets once, however often it is called', async () => {
+    const db = setup();
+
+    const outcomes = await Promise.all([completeRefund(REFUND_ID, 'RKT4XYZ123'), completeRefund(REFUND_ID, 'RKT4XYZ123')]);
+
+    expect(outcomes).toEqual([true, false]);
+    expect(refundRow()).toMatchObject({ status: 'COMPLETED', receiptNumber: 'RKT4XYZ123' });
+    expect(purchaseStatuses()).toEqual(['REFUNDED', 'REFUNDED', 'ACTIVE']);
+    expect(db.ticket.rows[0].availableQuantity).toBe(2);
+    expect(db.order.rows[0]).toMatchObject({ status: 'PAID', refundedAmount: 2000 });
+    expect(sendRefundConfirmationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the order and payment refunded once no tickets are left', async () => {
+    const db = setup({ amount: 3000, ticketPurchaseIds: null });
+
+    await completeRefund(REFUND_ID, 'RKT4XYZ123');
+
+    expect(purchaseStatuses()).toEqual(['REFUNDED', 'REFUNDED', 'REFUNDED']);
+    expect(db.order.rows[0]).toMatchObject({ status: 'REFUNDED', refundedAmount: 3000 });
+    expect(db.transaction.rows[0].status).toBe('REFUNDED');
+  });
+
+  it('pays an amount-only refund back without touching the tickets', async () => {
+    const db = setup({ amount: 100, ticketPurchaseIds: [] });
+
+    await completeRefund(REFUND_ID, 'RKT4XYZ123');
+
+    expect(purchaseStatuses()).toEqual(['ACTIVE', 'ACTIVE', 'ACTIVE']);
+    expect(db.ticket.rows[0].availableQuantity).toBe(0);
+    expect(db.order.rows[0]).toMatchObject({ status: 'PAID', refundedAmount: 100 });
+  });
+
+  it('leaves refunds alone unless a payout is in progress', async () => {
+    const db = setup({ status: 'FAILED' });
+
+    await expect(completeRefund(REFUND_ID, 'RKT4XYZ123')).resolves.toBe(false);
+
+    expect(refundRow().status).toBe('FAILED');
+    expect(purchaseStatuses()).toEqual(['ACTIVE', 'ACTIVE', 'ACTIVE']);
+    expect(db.order.rows[0].refundedAmount).toBe(0);
+  });
+});
+
+describe('failRefund', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fails a payout once and raises one alert', async () => {
+    setup();
+
+    await expect(failRefund(REFUND_ID, 'Insufficient funds in utility account')).resolves.toBe(true);
+    await expect(failRefund(REFUND_ID, 'Insufficient funds in utility account')).resolves.toBe(false);
+
+    expect(refundRow()).toMatchObject({ status: 'FAILED', failureReason: 'Insufficient funds in utility account' });
+    expect(createSystemAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('never turns a completed refund back into a failed one', async () => {
+    setup();
+    await completeRefund(REFUND_ID, 'RKT4XYZ123');
+
+    await expect(failRefund(REFUND_ID, 'Late failure')).resolves.toBe(false);
+
+    expect(refundRow().status).toBe('COMPLETED');
+  });
+
+  it('leaves a manual payout for the admin to record', async () => {
+    setup({ status: 'AWAITING_PAYOUT', refundMethod: 'CARD' });
+
+    await expect(failRefund(REFUND_ID, 'Card reversal failed')).resolves.toBe(false);
+
+    expect(refundRow().status).toBe('AWAITING_PAYOUT');
+  });
+});
+
+describe('B2C callbacks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('holds a timed-out payout as unconfirmed and alerts once, however often the timeout arrives', async () => {
+    setup();
+
+    await handleB2CTimeout(result(), REFUND_ID);
+    await handleB2CTimeout(result(), REFUND_ID);
+
+    expect(refundRow().status).toBe('UNCONFIRMED');
+    expect(createSystemAlert).toHaveBeenCalledTimes(1);
+    expect(createSystemAlert).toHaveBeenCalledWith(
+      'payment',
+      'high',
+      'Refund payout unconfirmed',
+      expect.any(String),
+      expect.objectContaining({ refundRequestId: REFUND_ID, conversationId: CONVERSATION_ID })
+    );
+  });
+
+  it('settles an unconfirmed payout when its result arrives late', async () => {
+    setup();
+    await handleB2CTimeout(result(), REFUND_ID);
+
+    await handleB2CResult(result(), REFUND_ID);
+
+    expect(refundRow()).toMatchObject({ status: 'COMPLETED', receiptNumber: 'RKT4XYZ123' });
+  });
+
+  it('fails an unconfirmed payout when a late result says it did not go through', async () => {
+    setup();
+    await handleB2CTimeout(result(), REFUND_ID);
+
+    await handleB2CResult(result({ ResultCode: 2001, ResultDesc: 'The initiator information is invalid.' }), REFUND_ID);
+
+    expect(refundRow()).toMatchObject({ status: 'FAILED', failureReason: 'The initiator information is invalid.' });
+  });
+
+  it('ignores a timeout that arrives after the payout completed', async () => {
+    setup();
+    await handleB2CResult(result(), REFUND_ID);
+
+    await handleB2CTimeout(result(), REFUND_ID);
+
+    expect(refundRow().status).toBe('COMPLETED');
+    expect(createSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('completes once when M-Pesa repeats the result callback', async () => {
+    const db = setup();
+
+    await handleB2CResult(result(), REFUND_ID);
+    await handleB2CResult(result(), REFUND_ID);
+
+    expect(db.order.rows[0].refundedAmount).toBe(2000);
+    expect(sendRefundConfirmationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores results for a different payout than the token's refund", async () => {
+    setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await handleB2CResult(result({ OriginatorConversationID: 'refund-2', ConversationID: 'AG_OTHER' }), REFUND_ID);
+    await handleB2CTimeout(result({ OriginatorConversationID: 'refund-2', ConversationID: 'AG_OTHER' }), REFUND_ID);
+
+    expect(refundRow().status).toBe('PROCESSING');
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,435 @@
+// Refund processor – pays approved refunds back out and unwinds the order
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { sendRefundConfirmationEmail } from '../../lib/queue';
+import { createNotification } from '../notifications/notification.service';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { getPaymentProvider, createCallbackToken, MpesaB2CResult } from '../payments/providers';
+import { syncTicketStatus } from '../tickets/reservations.service';
+import { invalidateOrganizerAnalyticsCache } from '../tickets/analytics.service';
+import { computeEventAnalytics } from '../../utils/analytics';
+import { processTicketWaitlist } from '../waitlist/waitlist.service';
+
+// Refund lifecycle:
+//   PENDING → APPROVED → PROCESSING → COMPLETED
+//                  ↑          ↓    ↘
+//                  └──── FAILED    UNCONFIRMED (B2C timed out - money may have moved)
+//                  (retryable)          ↓
+//                         ↑─────── admin checks M-Pesa → COMPLETED or FAILED
+//   PROCESSING → AWAITING_PAYOUT (card/crypto/manual - an admin pays it outside the platform) → COMPLETED
+//   PENDING → REJECTED
+// Only authenticated B2C results (signed callback URL) move a refund out of PROCESSING or UNCONFIRMED,
+// and an UNCONFIRMED refund is never retried - paying it again could pay the customer twice.
+
+// Payout states where a B2C result may still arrive
+const AWAITING_B2C_RESULT = ['PROCESSING', 'UNCONFIRMED'];
+// Payout states a refund can complete from
+const PAYOUT_IN_PROGRESS = [...AWAITING_B2C_RESULT, 'AWAITING_PAYOUT'];
+// Approved refunds whose payout has been started (or is about to be) - their amount is settled
+export const IN_FLIGHT_REFUND_STATUSES = ['APPROVED', ...PAYOUT_IN_PROGRESS];
+// Refund requests that are still open (the order hasn't been refunded yet)
+export const OPEN_REFUND_STATUSES = ['PENDING', ...IN_FLIGHT_REFUND_STATUSES, 'FAILED'];
+
+const MPESA_B2C_ESTIMATED_DAYS = 1;
+const MANUAL_REFUND_ESTIMATED_DAYS = 7;
+
+// Start paying out an APPROVED (or previously FAILED) refund.
+// M-Pesa refunds complete asynchronously via handleB2CResult; other methods wait for an admin to record the payout.
+export const processRefund = async (refundRequestId: string) => {
+  const refund = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId },
+    include: { order: { include: { transaction: true } } },
+  });
+
+  if (!refund) {
+    throw new Error('Refund request not found');
+  }
+
+  // Claim the refund so concurrent retries can't pay it out twice
+  const { count } = await prisma.refundRequest.updateMany({
+    where: { id: refundRequestId, status: { in: ['APPROVED', 'FAILED'] } },
+    data: { status: 'PROCESSING', failureReason: null, attempts: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    throw new Error(`Cannot process a refund with status: ${refund.status}`);
+  }
+
+  const transaction = refund.order.transaction;
+
+  if (transaction?.paymentMethod === 'MPESA' && transaction.phoneNumber) {
+    try {
+      const payout = await getPaymentProvider().initiateB2CPayment({
+        amount: refund.amount,
+        phoneNumber: transaction.phoneNumber,
+        reference: refund.id,
+        remarks: `MobiTickets refund ${refund.orderId.slice(0, 8).toUpperCase()}`,
+        callbackToken: createCallbackToken(refund.id),
+      });
+
+      await prisma.refundRequest.update({
+        where: { id: refund.id },
+        data: { refundMethod: 'MPESA_B2C', gatewayRef: payout.conversationId },
+      });
+
+      await logAudit('REFUND_PAYOUT_INITIATED', 'RefundRequest', refund.id, null, {
+        orderId: refund.orderId,
+        amount: refund.amount,
+        conversationId: payout.conversationId,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await failRefund(refund.id, errorMessage);
+    }
+
+    return prisma.refundRequest.findUniqueOrThrow({ where: { id: refund.id } });
+  }
+
+  // No payout gateway for this payment method - an admin settles it outside the platform and records it
+  const refundMethod = transaction?.paymentMethod || 'MANUAL';
+  await prisma.refundRequest.update({
+    where: { id: refund.id },
+    data: { status: 'AWAITING_PAYOUT', refundMethod },
+  });
+
+  await createSystemAlert(
+    'payment',
+    'medium',
+    'Manual refund payout needed',
+    `Refund ${refund.id} (KES ${refund.amount}) was paid by ${refundMethod} and has to be paid out manually. ` +
+      'Record the payout once the money has been sent.',
+    { refundRequestId: refund.id, orderId: refund.orderId, amount: refund.amount, refundMethod }
+  );
+
+  await logAudit('REFUND_AWAITING_PAYOUT', 'RefundRequest', refund.id, null, {
+    orderId: refund.orderId,
+    amount: refund.amount,
+    refundMethod,
+  });
+
+  return prisma.refundRequest.findUniqueOrThrow({ where: { id: refund.id } });
+};
+
+// Money is back with the customer: void the refunded tickets, restock inventory and update the order.
+// Idempotent - only the call that moves the refund out of its payout state has any effect.
+export const completeRefund = async (refundRequestId: string, receiptNumber: string | null) => {
+  const refund = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.refundRequest.updateMany({
+      where: { id: refundRequestId, status: { in: PAYOUT_IN_PROGRESS } },
+      data: { status: 'COMPLETED', receiptNumber, processedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const refund = await tx.refundRequest.findUniqueOrThrow({
+      where: { id: refundRequestId },
+      include: {
+        order: { include: { event: { select: { id: true, title: true, organizerId: true } } } },
+        user: { select: { email: true, fullName: true } },
+      },
+    });
+
+    // Checked-in tickets stay USED; everything still valid goes back on sale
+    const ticketPurchaseIds = refund.ticketPurchaseIds as string[] | null;
+    const purchases = await tx.ticketPurchase.findMany({
+      where: {
+        orderId: refund.orderId,
+        status: 'ACTIVE',
+        ...(ticketPurchaseIds ? { id: { in: ticketPurchaseIds } } : {}),
+      },
+      select: { id: true, ticketId: true },
+    });
+
+    await tx.ticketPurchase.updateMany({
+      where: { id: { in: purchases.map((p) => p.id) } },
+      data: { status: 'REFUNDED' },
+    });
+
+    const restock = new Map<string, number>();
+    for (const purchase of purchases) {
+      restock.set(purchase.ticketId, (restock.get(purchase.ticketId) || 0) + 1);
+    }
+
+    for (const [ticketId, quantity] of restock) {
+      await tx.ticket.update({
+        where: { id: ticketId },
+        data: { availableQuantity: { increment: quantity } },
+      });
+      await syncTicketStatus(tx, ticketId);
+    }
+
+    // The order is only fully refunded once none of its tickets are left
+    const remainingTickets = await tx.ticketPurchase.count({
+      where: { orderId: refund.orderId, status: { in: ['ACTIVE', 'USED'] } },
+    });
+    const fullyRefunded = remainingTickets === 0;
+
+    await tx.order.update({
+      where: { id: refund.orderId },
+      data: {
+        refundedAmount: { increment: refund.amount },
+        ...(fullyRefunded ? { status: 'REFUNDED' } : {}),
+      },
+    });
+
+    if (fullyRefunded) {
+      await tx.transaction.updateMany({
+        where: { orderId: refund.orderId, status: 'COMPLETED' },
+        data: { status: 'REFUNDED' },
+      });
+    }
+
+    return { ...refund, fullyRefunded, restocked: Object.fromEntries(restock) };
+  });
+
+  if (!refund) {
+    return false;
+  }
+
+  try {
+    await computeEventAnalytics(refund.order.eventId);
+    await invalidateOrganizerAnalyticsCache(refund.order.event.organizerId);
+  } catch (analyticsError) {
+    console.error(`[Analytics] Failed to update analytics for event after refund:`, analyticsError);
+  }
+
+  await createNotification({
+    userId: refund.userId,
+    eventId: refund.order.eventId,
+    type: 'REFUND_PROCESSED',
+    title: 'Refund Completed',
+    message: `Your refund of KES ${refund.amount.toLocaleString()} for "${refund.order.event.title}" has been processed.`,
+    data: { refundRequestId: refund.id, orderId: refund.orderId, amount: refund.amount },
+  });
+
+  const viaMpesa = refund.refundMethod === 'MPESA_B2C';
+  try {
+    await sendRefundConfirmationEmail(refund.user.email, {
+      customerName: refund.user.fullName || 'there',
+      orderId: refund.orderId.slice(0, 8).toUpperCase(),
+      eventName: refund.order.event.title,
+      refundAmount: refund.amount,
+      refundMethod: viaMpesa ? 'M-Pesa' : 'Original payment method',
+      estimatedDays: viaMpesa ? MPESA_B2C_ESTIMATED_DAYS : MANUAL_REFUND_ESTIMATED_DAYS,
+    });
+  } catch (emailError) {
+    console.error(`Failed to queue refund confirmation email for ${refund.id}:`, emailError);
+  }
+
+  // Returned seats go to anyone waiting for them
+  for (const ticketId of Object.keys(refund.restocked)) {
+    try {
+      await processTicketWaitlist(ticketId);
+    } catch (waitlistError) {
+      console.error(`[Waitlist] Failed to offer refunded tickets for ${ticketId}:`, waitlistError);
+    }
+  }
+
+  await logAudit('REFUND_COMPLETED', 'RefundRequest', refund.id, null, {
+    orderId: refund.orderId,
+    amount: refund.amount,
+    refundMethod: refund.refundMethod,
+    receiptNumber,
+    ticketsRefunded: Object.values(refund.restocked).reduce((sum, n) => sum + n, 0),
+    fullyRefunded: refund.fullyRefunded,
+    restocked: refund.restocked,
+  });
+
+  return true;
+};
+
+// The payout didn't go through. The refund stays FAILED until an admin retries it.
+export const failRefund = async (refundRequestId: string, reason: string) => {
+  const { count } = await prisma.refundRequest.updateMany({
+    where: { id: refundRequestId, status: { in: AWAITING_B2C_RESULT } },
+    data: { status: 'FAILED', failureReason: reason },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const refund = await prisma.refundRequest.findUniqueOrThrow({
+    where: { id: refundRequestId },
+    select: { id: true, orderId: true, amount: true, attempts: true },
+  });
+
+  await createSystemAlert(
+    'payment',
+    'high',
+    'Refund payout failed',
+    `Refund ${refund.id} (KES ${refund.amount}) for order ${refund.orderId} failed: ${reason}`,
+    { refundRequestId: refund.id, orderId: refund.orderId, amount: refund.amount, attempts: refund.attempts, reason }
+  );
+
+  await logAudit('REFUND_FAILED', 'RefundRequest', refund.id, null, {
+    orderId: refund.orderId,
+    reason,
+    attempts: refund.attempts,
+  });
+
+  return true;
+};
+
+// The refund a B2C callback is for. refundRequestId comes from the signed token in the callback URL,
+// and the result must be for that refund's payout.
+const findRefundForB2C = async (
+  result: Pick<MpesaB2CResult, 'ConversationID' | 'OriginatorConversationID'>,
+  refundRequestId: string
+) => {
+  const refund = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId },
+    select: { id: true, gatewayRef: true },
+  });
+
+  if (!refund || (result.OriginatorConversationID !== refund.id && result.ConversationID !== refund.gatewayRef)) {
+    // Log for debugging but don't throw — M-Pesa may retry
+    console.error('M-Pesa B2C callback: Refund not found for', refundRequestId, result.ConversationID);
+    return null;
+  }
+
+  return refund;
+};
+
+// Handle the M-Pesa B2C result callback
+export const handleB2CResult = async (result: MpesaB2CResult, refundRequestId: string) => {
+  const refund = await findRefundForB2C(result, refundRequestId);
+
+  if (!refund) {
+    return { message: 'Result received' };
+  }
+
+  if (result.ResultCode === 0) {
+    await completeRefund(refund.id, result.TransactionID || null);
+  } else {
+    await failRefund(refund.id, result.ResultDesc);
+  }
+
+  return { message: 'Result processed' };
+};
+
+// Handle the M-Pesa B2C queue timeout callback. The payout may still have gone through,
+// so the refund waits for its result - or for an admin to check the M-Pesa statement.
+export const handleB2CTimeout = async (
+  result: Pick<MpesaB2CResult, 'ConversationID' | 'OriginatorConversationID'>,
+  refundRequestId: string
+) => {
+  const refund = await findRefundForB2C(result, refundRequestId);
+
+  if (!refund) {
+    return { message: 'Timeout received' };
+  }
+
+  const { count } = await prisma.refundRequest.updateMany({
+    where: { id: refund.id, status: 'PROCESSING' },
+    data: { status: 'UNCONFIRMED', failureReason: 'M-Pesa B2C request timed out' },
+  });
+
+  if (count > 0) {
+    const unconfirmed = await prisma.refundRequest.findUniqueOrThrow({
+      where: { id: refund.id },
+      select: { id: true, orderId: true, amount: true, gatewayRef: true },
+    });
+
+    await createSystemAlert(
+      'payment',
+      'high',
+      'Refund payout unconfirmed',
+      `The M-Pesa B2C payout for refund ${unconfirmed.id} (KES ${unconfirmed.amount}) timed out. ` +
+        'Check the M-Pesa statement and record whether it was paid before doing anything else.',
+      { refundRequestId: unconfirmed.id, orderId: unconfirmed.orderId, conversationId: unconfirmed.gatewayRef }
+    );
+
+    await logAudit('REFUND_PAYOUT_UNCONFIRMED', 'RefundRequest', unconfirmed.id, null, {
+      orderId: unconfirmed.orderId,
+      conversationId: unconfirmed.gatewayRef,
+    });
+  }
+
+  return { message: 'Timeout received' };
+};
+
+/**
+ * Admin outcome for an UNCONFIRMED payout, after checking the M-Pesa statement:
+ * paid completes the refund, not paid makes it FAILED (and retryable).
+ */
+export const resolveUnconfirmedRefund = async (
+  refundRequestId: string,
+  adminId: string,
+  outcome: 'PAID' | 'NOT_PAID',
+  receiptNumber?: string
+) => {
+  const refund = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId },
+    select: { status: true },
+  });
+
+  if (!refund) {
+    throw new Error('Refund request not found');
+  }
+
+  if (refund.status !== 'UNCONFIRMED') {
+    throw new Error('Only unconfirmed refund payouts can be resolved');
+  }
+
+  const resolved =
+    outcome === 'PAID'
+      ? await completeRefund(refundRequestId, receiptNumber ?? null)
+      : await failRefund(refundRequestId, 'M-Pesa B2C payout not found on the statement');
+
+  if (!resolved) {
+    throw new Error('Refund payout was resolved by another request');
+  }
+
+  await logAudit('REFUND_PAYOUT_RESOLVED', 'RefundRequest', refundRequestId, adminId, { outcome, receiptNumber });
+
+  return prisma.refundRequest.findUniqueOrThrow({ where: { id: refundRequestId } });
+};
+
+// Admin records that a manual (card/crypto) refund has been paid - only now is the customer told it's done
+export const recordManualRefundPayout = async (refundRequestId: string, adminId: string, reference?: string) => {
+  const refund = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId },
+    select: { status: true },
+  });
+
+  if (!refund) {
+    throw new Error('Refund request not found');
+  }
+
+  if (refund.status !== 'AWAITING_PAYOUT') {
+    throw new Error('Only refunds awaiting a manual payout can be recorded as paid');
+  }
+
+  const completed = await completeRefund(refundRequestId, reference ?? null);
+
+  if (!completed) {
+    throw new Error('Refund payout was recorded by another request');
+  }
+
+  await logAudit('REFUND_PAYOUT_RECORDED', 'RefundRequest', refundRequestId, adminId, { reference });
+
+  return prisma.refundRequest.findUniqueOrThrow({ where: { id: refundRequestId } });
+};
+
+// Admin retry for a FAILED refund
+export const retryRefund = async (refundRequestId: string, adminId: string) => {
+  const refund = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId },
+    select: { status: true },
+  });
+
+  if (!refund) {
+    throw new Error('Refund request not found');
+  }
+
+  if (refund.status !== 'FAILED') {
+    throw new Error('Only failed refunds can be retried');
+  }
+
+  await logAudit('REFUND_RETRIED', 'RefundRequest', refundRequestId, adminId);
+
+  return processRefund(refundRequestId);
+};
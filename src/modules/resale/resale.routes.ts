@@ -0,0 +1,99 @@
+import { FastifyInstance } from 'fastify';
+import { createListingSchema, eventListingsQuerySchema } from './resale.schema';
+import {
+  createListing,
+  getEventListings,
+  getMyListings,
+  cancelListing,
+  buyListing,
+} from './resale.service';
+
+export default async (fastify: FastifyInstance) => {
+  // Tickets for sale for an event (public)
+  fastify.get(
+    '/listings',
+    { schema: eventListingsQuerySchema },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.query as { eventId: string };
+        const listings = await getEventListings(eventId);
+        reply.send(listings);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // List one of your tickets for resale (authenticated)
+  fastify.post(
+    '/listings',
+    { schema: createListingSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { ticketPurchaseId, price, payoutPhone } = request.body as {
+          ticketPurchaseId: string;
+          price: number;
+          payoutPhone?: string;
+        };
+        const listing = await createListing(request.user!.id, ticketPurchaseId, price, payoutPhone);
+        reply.status(201).send(listing);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Your listings and their payouts (authenticated)
+  fastify.get(
+    '/listings/mine',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const listings = await getMyListings(request.user!.id);
+        reply.send(listings);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Withdraw a listing (authenticated, seller only)
+  fastify.delete(
+    '/listings/:listingId',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { listingId } = request.params as { listingId: string };
+        const result = await cancelListing(listingId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Reserve a listed ticket and create the order to pay for it (authenticated)
+  fastify.post(
+    '/listings/:listingId/buy',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { listingId } = request.params as { listingId: string };
+        const result = await buyListing(listingId, request.user!.id);
+        reply.status(201).send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+};
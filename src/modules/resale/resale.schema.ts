@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const createListingSchema = z.object({
+  body: z.object({
+    ticketPurchaseId: z.string().uuid(),
+    price: z.number().positive(),
+    // Defaults to the phone number on the seller's profile
+    payoutPhone: z.string().min(9).max(15).optional(),
+  }),
+});
+
+export const eventListingsQuerySchema = z.object({
+  querystring: z.object({
+    eventId: z.string().uuid(),
+  }),
+});
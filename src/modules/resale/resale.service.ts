@@ -0,0 +1,654 @@
+// Resale marketplace – attendees resell issued tickets at a capped price, paid through the normal checkout
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { createNotification } from '../notifications/notification.service';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { getPaymentProvider, normalizeMsisdn, createCallbackToken, MpesaB2CResult } from '../payments/providers';
+import { cancelUnpaidOrder, PAYMENT_GRACE_MS } from '../tickets/reservations.service';
+import { OPEN_REFUND_STATUSES } from '../refunds/refunds.service';
+import { reassignTicketPurchase } from '../tickets/transfers.service';
+
+// Listing lifecycle:
+//   ACTIVE → RESERVED (buyer checking out) → SOLD
+//     ↑          ↓ payment failed / hold expired
+//     └──────────┘
+//   ACTIVE → CANCELLED (seller withdrew, or the event was cancelled)
+
+const RESALE_HOLD_MS = 10 * 60 * 1000; // Buyer has 10 minutes to pay
+const SWEEP_BATCH_SIZE = 100;
+
+// Listings that still tie up the ticket
+export const OPEN_LISTING_STATUSES = ['ACTIVE', 'RESERVED'];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const LISTING_PUBLIC_SELECT = {
+  id: true,
+  eventId: true,
+  price: true,
+  faceValue: true,
+  status: true,
+  createdAt: true,
+  ticketPurchase: {
+    select: { ticket: { select: { id: true, name: true, category: true } } },
+  },
+} as const;
+
+// List one of your ACTIVE tickets for resale
+export const createListing = async (
+  sellerId: string,
+  ticketPurchaseId: string,
+  price: number,
+  payoutPhone?: string
+) => {
+  const purchase = await prisma.ticketPurchase.findUnique({
+    where: { id: ticketPurchaseId },
+    include: {
+      user: { select: { phoneNumber: true } },
+      event: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          startTime: true,
+          resaleEnabled: true,
+          resalePriceCapPercent: true,
+          resaleRoyaltyPercent: true,
+        },
+      },
+      order: { select: { items: { select: { ticketId: true, priceAtTime: true } } } },
+      resaleListings: { where: { status: { in: OPEN_LISTING_STATUSES } }, select: { id: true } },
+      transfers: { where: { status: 'PENDING' }, select: { id: true } },
+    },
+  });
+
+  if (!purchase) {
+    throw new Error('Ticket not found');
+  }
+
+  if (purchase.userId !== sellerId) {
+    throw new Error('Unauthorized: This is not your ticket');
+  }
+
+  if (purchase.status !== 'ACTIVE') {
+    throw new Error('Only active tickets can be listed for resale');
+  }
+
+  if (purchase.resaleListings.length > 0) {
+    throw new Error('This ticket is already listed for resale');
+  }
+
+  if (purchase.transfers.length > 0) {
+    throw new Error('This ticket has a pending transfer. Cancel the transfer before listing it.');
+  }
+
+  const { event } = purchase;
+  if (!event.resaleEnabled) {
+    throw new Error('The organizer has disabled resale for this event');
+  }
+
+  if (event.status !== 'PUBLISHED' || event.startTime <= new Date()) {
+    throw new Error('Tickets can only be resold before the event starts');
+  }
+
+  const openRefund = await prisma.refundRequest.count({
+    where: {
+      orderId: purchase.orderId,
+      status: { in: OPEN_REFUND_STATUSES },
+      OR: [
+        { ticketPurchaseIds: { equals: Prisma.DbNull } },
+        { ticketPurchaseIds: { array_contains: [purchase.id] } },
+      ],
+    },
+  });
+
+  if (openRefund > 0) {
+    throw new Error('This ticket has a refund in progress and cannot be resold');
+  }
+
+  // The cap is based on what the ticket was originally bought for
+  const faceValue = purchase.order.items.find((item) => item.ticketId === purchase.ticketId)?.priceAtTime ?? 0;
+  const maxPrice = roundMoney(faceValue * (event.resalePriceCapPercent / 100));
+
+  if (price > maxPrice) {
+    throw new Error(`Resale price cannot exceed KES ${maxPrice} (${event.resalePriceCapPercent}% of face value)`);
+  }
+
+  const phone = payoutPhone || purchase.user.phoneNumber;
+  if (!phone) {
+    throw new Error('A payout phone number is required to receive the sale proceeds');
+  }
+
+  const royaltyAmount = roundMoney(price * (event.resaleRoyaltyPercent / 100));
+
+  const listing = await prisma.resaleListing.create({
+    data: {
+      ticketPurchaseId: purchase.id,
+      eventId: event.id,
+      sellerId,
+      price,
+      faceValue,
+      royaltyPercent: event.resaleRoyaltyPercent,
+      royaltyAmount,
+      sellerProceeds: roundMoney(price - royaltyAmount),
+      payoutPhone: normalizeMsisdn(phone),
+    },
+  });
+
+  await logAudit('RESALE_LISTED', 'ResaleListing', listing.id, sellerId, {
+    ticketPurchaseId: purchase.id,
+    eventId: event.id,
+    price,
+    faceValue,
+  });
+
+  return listing;
+};
+
+// Public: tickets for sale for an event
+export const getEventListings = async (eventId: string) => {
+  const listings = await prisma.resaleListing.findMany({
+    where: { eventId, status: 'ACTIVE' },
+    select: LISTING_PUBLIC_SELECT,
+    orderBy: { price: 'asc' },
+  });
+
+  return listings.map(({ ticketPurchase, ...listing }) => ({
+    ...listing,
+    ticket: ticketPurchase.ticket,
+  }));
+};
+
+// The seller's own listings, including sold ones and their payouts
+export const getMyListings = async (sellerId: string) => {
+  return prisma.resaleListing.findMany({
+    where: { sellerId },
+    include: {
+      event: { select: { id: true, title: true, startTime: true } },
+      ticketPurchase: { select: { ticketNumber: true, ticket: { select: { name: true, category: true } } } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+// Withdraw a listing that nobody is buying
+export const cancelListing = async (listingId: string, sellerId: string) => {
+  const listing = await prisma.resaleListing.findUnique({
+    where: { id: listingId },
+    select: { sellerId: true, status: true },
+  });
+
+  if (!listing) {
+    throw new Error('Listing not found');
+  }
+
+  if (listing.sellerId !== sellerId) {
+    throw new Error('Unauthorized: This is not your listing');
+  }
+
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { id: listingId, status: 'ACTIVE' },
+    data: { status: 'CANCELLED' },
+  });
+
+  if (count === 0) {
+    throw new Error(
+      listing.status === 'RESERVED'
+        ? 'A buyer is currently paying for this ticket'
+        : `Cannot cancel a listing with status: ${listing.status}`
+    );
+  }
+
+  await logAudit('RESALE_CANCELLED', 'ResaleListing', listingId, sellerId);
+
+  return { message: 'Listing cancelled' };
+};
+
+/**
+ * Reserve a listing for the buyer and create a pending order for it.
+ * The buyer then pays through /api/payments/initiate like any other order.
+ */
+export const buyListing = async (listingId: string, buyerId: string) => {
+  const now = new Date();
+  const reservedUntil = new Date(now.getTime() + RESALE_HOLD_MS);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const listing = await tx.resaleListing.findUnique({
+      where: { id: listingId },
+      include: {
+        ticketPurchase: { select: { ticketId: true } },
+        event: { select: { status: true, startTime: true } },
+      },
+    });
+
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+
+    if (listing.sellerId === buyerId) {
+      throw new Error('You cannot buy your own listing');
+    }
+
+    if (listing.event.status !== 'PUBLISHED' || listing.event.startTime <= now) {
+      throw new Error('This event is no longer accepting resale purchases');
+    }
+
+    // Claim the listing - only one buyer can win
+    const { count } = await tx.resaleListing.updateMany({
+      where: { id: listingId, status: 'ACTIVE' },
+      data: { status: 'RESERVED', buyerId, reservedUntil },
+    });
+
+    if (count === 0) {
+      throw new Error('This ticket is no longer available');
+    }
+
+    const order = await tx.order.create({
+      data: {
+        userId: buyerId,
+        eventId: listing.eventId,
+        subtotal: listing.price,
+        totalAmount: listing.price,
+        pricingBreakdown: {
+          resale: { listingId: listing.id, faceValue: listing.faceValue, price: listing.price },
+        } as unknown as Prisma.InputJsonValue,
+        items: {
+          create: {
+            ticketId: listing.ticketPurchase.ticketId,
+            quantity: 1,
+            priceAtTime: listing.price,
+          },
+        },
+      },
+    });
+
+    await tx.resaleListing.update({
+      where: { id: listingId },
+      data: { orderId: order.id },
+    });
+
+    return { order, listing };
+  });
+
+  await logAudit('RESALE_RESERVED', 'ResaleListing', listingId, buyerId, {
+    orderId: result.order.id,
+    price: result.listing.price,
+  });
+
+  return {
+    message: 'Ticket reserved. Complete payment to receive it.',
+    orderId: result.order.id,
+    listingId,
+    totalAmount: result.order.totalAmount,
+    status: result.order.status,
+    expiresAt: reservedUntil,
+  };
+};
+
+/**
+ * Hand a paid-for resale ticket to its buyer: ownership moves to the buyer's order,
+ * the seller's QR code stops working and a new one is issued.
+ * Returns null if the order isn't a resale order. Idempotent.
+ */
+export const fulfillResaleOrder = async (orderId: string) => {
+  const result = await prisma.$transaction(async (tx) => {
+    const listing = await tx.resaleListing.findUnique({
+      where: { orderId },
+      include: {
+        ticketPurchase: { include: { ticket: { select: { name: true } } } },
+        event: { select: { title: true, organizerId: true } },
+        order: { select: { status: true } },
+      },
+    });
+
+    if (!listing) {
+      return null;
+    }
+
+    if (listing.status === 'SOLD') {
+      return { listing, purchase: listing.ticketPurchase, sold: false };
+    }
+
+    if (listing.order?.status !== 'PAID') {
+      throw new Error(`Cannot complete resale for order with status: ${listing.order?.status}`);
+    }
+
+    const { count } = await tx.resaleListing.updateMany({
+      where: { id: listing.id, orderId, status: 'RESERVED' },
+      data: { status: 'SOLD', soldAt: new Date(), reservedUntil: null },
+    });
+
+    if (count === 0) {
+      throw new Error('Resale listing is no longer reserved for this order');
+    }
+
+    const { ticketPurchase } = listing;
+    if (ticketPurchase.status !== 'ACTIVE' || ticketPurchase.userId !== listing.sellerId) {
+      throw new Error('The resold ticket is no longer held by the seller');
+    }
+
+    // New QR code for the buyer - the seller's copy is rejected at the gate
+    const purchase = await reassignTicketPurchase(tx, ticketPurchase, listing.buyerId!, { orderId });
+
+    return { listing, purchase, sold: true };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  const { listing, purchase, sold } = result;
+
+  if (sold) {
+    try {
+      await createNotification({
+        userId: listing.sellerId,
+        eventId: listing.eventId,
+        type: 'TICKET_RESALE',
+        title: 'Your ticket has been sold',
+        message: `Your ticket for "${listing.event.title}" sold for KES ${listing.price.toLocaleString()}. KES ${listing.sellerProceeds.toLocaleString()} is on its way to your M-Pesa.`,
+        data: { listingId: listing.id, price: listing.price, sellerProceeds: listing.sellerProceeds },
+      });
+
+      await createNotification({
+        userId: listing.buyerId!,
+        eventId: listing.eventId,
+        type: 'TICKET_PURCHASE',
+        title: '🎫 Resale Ticket Confirmed',
+        message: `Your resale ticket for "${listing.event.title}" is ready. Order ID: ${orderId}`,
+        data: { orderId, listingId: listing.id, ticketPurchaseId: purchase.id },
+      });
+    } catch {
+      // Non-critical
+    }
+
+    await logAudit('RESALE_COMPLETED', 'ResaleListing', listing.id, listing.buyerId, {
+      orderId,
+      ticketPurchaseId: purchase.id,
+      sellerId: listing.sellerId,
+      price: listing.price,
+      royaltyAmount: listing.royaltyAmount,
+    });
+
+    await payoutSeller(listing.id);
+  }
+
+  return [purchase];
+};
+
+// Send the seller their share of a sale over M-Pesa B2C
+export const payoutSeller = async (listingId: string) => {
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { id: listingId, status: 'SOLD', OR: [{ payoutStatus: null }, { payoutStatus: 'FAILED' }] },
+    data: { payoutStatus: 'PROCESSING', payoutFailureReason: null },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const listing = await prisma.resaleListing.findUniqueOrThrow({ where: { id: listingId } });
+
+  try {
+    const payout = await getPaymentProvider().initiateB2CPayment({
+      amount: listing.sellerProceeds,
+      phoneNumber: listing.payoutPhone,
+      reference: listing.id,
+      remarks: `MobiTickets resale ${listing.id.slice(0, 8).toUpperCase()}`,
+      callbackToken: createCallbackToken(listing.id),
+    });
+
+    await prisma.resaleListing.update({
+      where: { id: listingId },
+      data: { payoutRef: payout.conversationId },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await failSellerPayout(listingId, errorMessage);
+  }
+
+  return true;
+};
+
+// Payout states where a B2C result may still arrive. UNCONFIRMED (timed out) is never retried
+// automatically - the seller could be paid twice.
+const AWAITING_B2C_RESULT = ['PROCESSING', 'UNCONFIRMED'];
+
+const failSellerPayout = async (listingId: string, reason: string) => {
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { id: listingId, payoutStatus: { in: AWAITING_B2C_RESULT } },
+    data: { payoutStatus: 'FAILED', payoutFailureReason: reason },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  const listing = await prisma.resaleListing.findUniqueOrThrow({
+    where: { id: listingId },
+    select: { id: true, sellerId: true, sellerProceeds: true },
+  });
+
+  await createSystemAlert(
+    'payment',
+    'high',
+    'Resale payout failed',
+    `Payout of KES ${listing.sellerProceeds} for resale listing ${listing.id} failed: ${reason}`,
+    { listingId: listing.id, sellerId: listing.sellerId, amount: listing.sellerProceeds, reason }
+  );
+
+  await logAudit('RESALE_PAYOUT_FAILED', 'ResaleListing', listing.id, null, { reason });
+};
+
+// listingId comes from the signed token in the callback URL; the result must be for that listing's payout
+const findListingForB2C = async (
+  result: Pick<MpesaB2CResult, 'ConversationID' | 'OriginatorConversationID'>,
+  listingId: string
+) => {
+  const listing = await prisma.resaleListing.findUnique({
+    where: { id: listingId },
+    select: { id: true, payoutRef: true },
+  });
+
+  if (!listing || (result.OriginatorConversationID !== listing.id && result.ConversationID !== listing.payoutRef)) {
+    return null;
+  }
+
+  return listing;
+};
+
+const completeSellerPayout = async (listingId: string, receiptNumber: string | null) => {
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { id: listingId, payoutStatus: { in: AWAITING_B2C_RESULT } },
+    data: { payoutStatus: 'COMPLETED', payoutReceipt: receiptNumber },
+  });
+
+  if (count > 0) {
+    await logAudit('RESALE_PAYOUT_COMPLETED', 'ResaleListing', listingId, null, { receiptNumber });
+  }
+
+  return count > 0;
+};
+
+// M-Pesa B2C result for a seller payout. Returns null if the result isn't for a resale payout.
+export const handleResalePayoutResult = async (result: MpesaB2CResult, listingId: string) => {
+  const listing = await findListingForB2C(result, listingId);
+
+  if (!listing) {
+    return null;
+  }
+
+  if (result.ResultCode !== 0) {
+    await failSellerPayout(listing.id, result.ResultDesc);
+    return { message: 'Result processed' };
+  }
+
+  await completeSellerPayout(listing.id, result.TransactionID || null);
+
+  return { message: 'Result processed' };
+};
+
+// M-Pesa B2C timeout for a seller payout. Returns null if it isn't for a resale payout.
+// The money may still have moved, so the payout waits for its result or an admin's check.
+export const handleResalePayoutTimeout = async (
+  result: Pick<MpesaB2CResult, 'ConversationID' | 'OriginatorConversationID'>,
+  listingId: string
+) => {
+  const listing = await findListingForB2C(result, listingId);
+
+  if (!listing) {
+    return null;
+  }
+
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { id: listing.id, payoutStatus: 'PROCESSING' },
+    data: { payoutStatus: 'UNCONFIRMED', payoutFailureReason: 'M-Pesa B2C request timed out' },
+  });
+
+  if (count > 0) {
+    await createSystemAlert(
+      'payment',
+      'high',
+      'Resale payout unconfirmed',
+      `The M-Pesa B2C payout for resale listing ${listing.id} timed out. ` +
+        'Check the M-Pesa statement and record whether it was paid before doing anything else.',
+      { listingId: listing.id, conversationId: listing.payoutRef }
+    );
+    await logAudit('RESALE_PAYOUT_UNCONFIRMED', 'ResaleListing', listing.id, null, { conversationId: listing.payoutRef });
+  }
+
+  return { message: 'Timeout received' };
+};
+
+// Admin outcome for an UNCONFIRMED seller payout after checking the M-Pesa statement
+export const resolveUnconfirmedSellerPayout = async (
+  listingId: string,
+  adminId: string,
+  outcome: 'PAID' | 'NOT_PAID',
+  receiptNumber?: string
+) => {
+  const listing = await prisma.resaleListing.findUnique({
+    where: { id: listingId },
+    select: { payoutStatus: true },
+  });
+
+  if (!listing) {
+    throw new Error('Listing not found');
+  }
+
+  if (listing.payoutStatus !== 'UNCONFIRMED') {
+    throw new Error('Only unconfirmed seller payouts can be resolved');
+  }
+
+  if (outcome === 'PAID') {
+    await completeSellerPayout(listingId, receiptNumber ?? null);
+  } else {
+    await failSellerPayout(listingId, 'M-Pesa B2C payout not found on the statement');
+  }
+
+  await logAudit('RESALE_PAYOUT_RESOLVED', 'ResaleListing', listingId, adminId, { outcome, receiptNumber });
+
+  const updated = await prisma.resaleListing.findUniqueOrThrow({
+    where: { id: listingId },
+    select: { payoutStatus: true, payoutFailureReason: true },
+  });
+
+  return { message: 'Seller payout resolved', ...updated };
+};
+
+// Admin retry for a failed seller payout
+export const retrySellerPayout = async (listingId: string, adminId: string) => {
+  const listing = await prisma.resaleListing.findUnique({
+    where: { id: listingId },
+    select: { status: true, payoutStatus: true },
+  });
+
+  if (!listing) {
+    throw new Error('Listing not found');
+  }
+
+  if (listing.status !== 'SOLD' || listing.payoutStatus !== 'FAILED') {
+    throw new Error('Only failed seller payouts can be retried');
+  }
+
+  await logAudit('RESALE_PAYOUT_RETRIED', 'ResaleListing', listingId, adminId);
+  await payoutSeller(listingId);
+
+  const updated = await prisma.resaleListing.findUniqueOrThrow({
+    where: { id: listingId },
+    select: { payoutStatus: true, payoutFailureReason: true },
+  });
+
+  return { message: 'Seller payout retried', ...updated };
+};
+
+// Put listings whose buyer never paid back on the market (run by the reservation sweeper)
+export const releaseExpiredResaleHolds = async () => {
+  const now = new Date();
+  const graceCutoff = new Date(now.getTime() - PAYMENT_GRACE_MS);
+
+  const expired = await prisma.resaleListing.findMany({
+    where: {
+      status: 'RESERVED',
+      reservedUntil: { lt: now },
+      order: {
+        status: 'PENDING',
+        OR: [
+          { transaction: { is: null } },
+          { transaction: { is: { OR: [{ status: { not: 'PENDING' } }, { updatedAt: { lt: graceCutoff } }] } } },
+        ],
+      },
+    },
+    select: { id: true, orderId: true },
+    orderBy: { reservedUntil: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const summary = { checked: expired.length, relisted: 0 };
+
+  for (const listing of expired) {
+    const orderId = listing.orderId!;
+    const cancellation = await prisma.$transaction(async (tx) => {
+      const cancellation = await cancelUnpaidOrder(tx, orderId, 'EXPIRED');
+
+      if (cancellation.cancelled) {
+        // A sent M-Pesa prompt stays PENDING for reconciliation (see releaseExpiredReservations)
+        await tx.transaction.updateMany({
+          where: { orderId, status: 'PENDING', OR: [{ paymentMethod: { not: 'MPESA' } }, { gatewayTxId: null }] },
+          data: { status: 'FAILED', failureReason: 'Resale hold expired' },
+        });
+      }
+
+      return cancellation;
+    });
+
+    if (cancellation.cancelled) {
+      summary.relisted += cancellation.released;
+      await logAudit('ORDER_CANCELLED', 'Order', orderId, null, {
+        reason: 'Resale hold expired',
+        listingId: listing.id,
+      });
+    }
+  }
+
+  return summary;
+};
+
+// Withdraw every open listing for a cancelled event (buyers mid-checkout are refunded with the event)
+export const cancelEventListings = async (eventId: string) => {
+  const { count } = await prisma.resaleListing.updateMany({
+    where: { eventId, status: 'ACTIVE' },
+    data: { status: 'CANCELLED' },
+  });
+
+  return count;
+};
+
+// Used by the ticket gate and transfers: a listed ticket belongs to the marketplace until withdrawn
+export const hasOpenListing = async (ticketPurchaseId: string) => {
+  const count = await prisma.resaleListing.count({
+    where: { ticketPurchaseId, status: { in: OPEN_LISTING_STATUSES } },
+  });
+  return count > 0;
+};
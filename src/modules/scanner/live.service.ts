@@ -0,0 +1,142 @@
+// Live check-in dashboard – running totals and scan events pushed to organizers over SSE
+import type { TicketScan } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { assertEventOwner } from '../staff/staff.service';
+
+const TOP_FAILURE_REASONS = 20;
+
+/**
+ * Running totals for an event: tickets issued / checked in / inside per tier,
+ * main-gate entries and exits per gate, and why scans were turned away.
+ * Read straight from the database so the dashboard is never behind.
+ */
+export const getCheckInTotals = async (eventId: string) => {
+  const [tickets, purchases, gateScans, failures] = await Promise.all([
+    prisma.ticket.findMany({
+      where: { eventId },
+      select: { id: true, name: true, category: true },
+      orderBy: { price: 'asc' },
+    }),
+    prisma.ticketPurchase.groupBy({
+      by: ['ticketId', 'status', 'insideVenue'],
+      where: { eventId, status: { in: ['ACTIVE', 'USED'] } },
+      _count: { _all: true },
+    }),
+    prisma.ticketScan.groupBy({
+      by: ['gate', 'direction'],
+      where: { eventId, zoneId: null, result: 'ACCEPTED' },
+      _count: { _all: true },
+    }),
+    prisma.ticketScan.groupBy({
+      by: ['reason'],
+      where: { eventId, result: { not: 'ACCEPTED' } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const byTier = tickets.map((ticket) => {
+    const rows = purchases.filter((p) => p.ticketId === ticket.id);
+    const sum = (match: (row: (typeof rows)[number]) => boolean) =>
+      rows.filter(match).reduce((total, row) => total + row._count._all, 0);
+
+    return {
+      ticketId: ticket.id,
+      name: ticket.name,
+      category: ticket.category,
+      issued: sum(() => true),
+      checkedIn: sum((row) => row.status === 'USED'),
+      inside: sum((row) => row.status === 'USED' && row.insideVenue),
+    };
+  });
+
+  const gates = new Map<string, { gate: string; entries: number; exits: number }>();
+  for (const row of gateScans) {
+    const gate = row.gate ?? 'Unassigned';
+    const totals = gates.get(gate) ?? { gate, entries: 0, exits: 0 };
+    if (row.direction === 'EXIT') {
+      totals.exits += row._count._all;
+    } else {
+      totals.entries += row._count._all;
+    }
+    gates.set(gate, totals);
+  }
+
+  const failureReasons = failures
+    .map((row) => ({ reason: row.reason ?? 'Unknown', count: row._count._all }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    issued: byTier.reduce((total, tier) => total + tier.issued, 0),
+    checkedIn: byTier.reduce((total, tier) => total + tier.checkedIn, 0),
+    inside: byTier.reduce((total, tier) => total + tier.inside, 0),
+    failedScans: failureReasons.reduce((total, failure) => total + failure.count, 0),
+    byTier,
+    byGate: [...gates.values()].sort((a, b) => b.entries - a.entries),
+    failureReasons: failureReasons.slice(0, TOP_FAILURE_REASONS),
+    updatedAt: new Date(),
+  };
+};
+
+// First message on a new dashboard connection (organizer/admin only)
+export const getLiveCheckInSnapshot = async (eventId: string, userId: string, userRole: string) => {
+  const event = await assertEventOwner(eventId, userId, userRole);
+
+  return {
+    eventId,
+    eventTitle: event.title,
+    totals: await getCheckInTotals(eventId),
+  };
+};
+
+const pushToDashboards = async (eventId: string, data: Record<string, unknown>) => {
+  // Imported lazily - the stream registry lives with the SSE routes in app.ts
+  const { hasCheckInStreamListeners, sendCheckInStreamUpdate } = await import('../../app');
+
+  if (!hasCheckInStreamListeners(eventId)) {
+    return;
+  }
+
+  sendCheckInStreamUpdate(eventId, { ...data, totals: await getCheckInTotals(eventId) });
+};
+
+/**
+ * Push a live scan (allowed or turned away) to the event's dashboards.
+ * Never throws - a dashboard hiccup must not hold up the gate.
+ */
+export const publishCheckInScan = async (
+  scan: TicketScan,
+  ticket?: { ticketType: string; category: string }
+) => {
+  try {
+    await pushToDashboards(scan.eventId, {
+      type: 'scan',
+      scan: {
+        id: scan.id,
+        result: scan.result,
+        reason: scan.reason,
+        direction: scan.direction,
+        gate: scan.gate,
+        zoneId: scan.zoneId,
+        source: scan.source,
+        ticketNumber: scan.ticketNumber,
+        ticketType: ticket?.ticketType,
+        category: ticket?.category,
+        scannedAt: scan.scannedAt,
+      },
+    });
+  } catch (error) {
+    console.error(`[Live check-ins] Failed to publish scan ${scan.id}:`, error);
+  }
+};
+
+// Offline uploads arrive in batches - send the summary rather than every scan
+export const publishCheckInUpload = async (
+  eventId: string,
+  upload: { deviceId: string; gate?: string; processed: number; accepted: number; duplicates: number; rejected: number }
+) => {
+  try {
+    await pushToDashboards(eventId, { type: 'offline-upload', upload });
+  } catch (error) {
+    console.error(`[Live check-ins] Failed to publish offline upload for event ${eventId}:`, error);
+  }
+};
@@ -0,0 +1,171 @@
+import { FastifyInstance } from 'fastify';
+import { requireRole } from '../../middleware/rbac';
+import {
+  scannerManifestQuerySchema,
+  uploadCheckInsSchema,
+  createZoneSchema,
+  updateZoneSchema,
+  OfflineScan,
+} from './scanner.schema';
+import { getScannerManifest, uploadCheckIns, getScanConflicts } from './scanner.service';
+import {
+  getEventZones,
+  createZone,
+  updateZone,
+  deactivateZone,
+  getTicketScanLog,
+  ZoneInput,
+} from './zones.service';
+
+export default async (fastify: FastifyInstance) => {
+  // Signed manifest of an event's tickets for offline scanning (organizer/admin/assigned staff)
+  fastify.get(
+    '/events/:eventId/manifest',
+    { schema: scannerManifestQuerySchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN', 'STAFF'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const { gate } = request.query as { gate?: string };
+        const result = await getScannerManifest(eventId, request.user!.id, request.user!.role, gate);
+        reply.header('Cache-Control', 'no-store').send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Upload check-ins recorded offline (organizer/admin/assigned staff)
+  fastify.post(
+    '/events/:eventId/check-ins',
+    { schema: uploadCheckInsSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN', 'STAFF'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const { deviceId, gate, zoneId, scans } = request.body as {
+          deviceId: string;
+          gate?: string;
+          zoneId?: string;
+          scans: OfflineScan[];
+        };
+        const result = await uploadCheckIns(eventId, request.user!.id, request.user!.role, deviceId, gate, zoneId, scans);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Duplicate scans flagged for review (organizer/admin)
+  fastify.get(
+    '/events/:eventId/conflicts',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const result = await getScanConflicts(eventId, request.user!.id, request.user!.role);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Venue zones for an event (organizer/admin/assigned staff)
+  fastify.get(
+    '/events/:eventId/zones',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN', 'STAFF'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const zones = await getEventZones(eventId, request.user!.id, request.user!.role);
+        reply.send(zones);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Add a restricted zone, e.g. a VIP lounge (organizer/admin)
+  fastify.post(
+    '/events/:eventId/zones',
+    { schema: createZoneSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const zone = await createZone(eventId, request.user!.id, request.user!.role, request.body as ZoneInput);
+        reply.status(201).send(zone);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Change a zone's tiers, re-entry limit or open/closed state (organizer/admin)
+  fastify.patch(
+    '/zones/:zoneId',
+    { schema: updateZoneSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { zoneId } = request.params as { zoneId: string };
+        const zone = await updateZone(zoneId, request.user!.id, request.user!.role, request.body as ZoneInput);
+        reply.send(zone);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Close a zone (organizer/admin)
+  fastify.delete(
+    '/zones/:zoneId',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { zoneId } = request.params as { zoneId: string };
+        const result = await deactivateZone(zoneId, request.user!.id, request.user!.role);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Entry/exit log for one ticket (organizer/admin/assigned staff)
+  fastify.get(
+    '/tickets/:ticketPurchaseId/scans',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN', 'STAFF'])] },
+    async (request, reply) => {
+      try {
+        const { ticketPurchaseId } = request.params as { ticketPurchaseId: string };
+        const result = await getTicketScanLog(ticketPurchaseId, request.user!.id, request.user!.role);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+export const MAX_SCANS_PER_UPLOAD = 500;
+
+export const offlineScanSchema = z
+  .object({
+    clientScanId: z.string().min(1).max(100),
+    // The scanned QR content, or the ticket number typed in by hand
+    qrData: z.string().min(1).max(2000).optional(),
+    ticketNumber: z.string().min(1).max(50).optional(),
+    scannedAt: z.string().datetime(),
+    direction: z.enum(['ENTRY', 'EXIT']).default('ENTRY'),
+  })
+  .refine((scan) => scan.qrData || scan.ticketNumber, {
+    message: 'Each scan needs qrData or ticketNumber',
+  });
+
+export const scannerManifestQuerySchema = z.object({
+  params: z.object({ eventId: z.string().uuid() }),
+  querystring: z.object({
+    // Required for staff limited to specific gates
+    gate: z.string().min(1).max(100).optional(),
+  }),
+});
+
+export const uploadCheckInsSchema = z.object({
+  params: z.object({ eventId: z.string().uuid() }),
+  body: z.object({
+    deviceId: z.string().min(1).max(100),
+    gate: z.string().min(1).max(100).optional(),
+    // Zone the device was stationed at; leave out at the main gate
+    zoneId: z.string().uuid().optional(),
+    scans: z.array(offlineScanSchema).min(1).max(MAX_SCANS_PER_UPLOAD),
+  }),
+});
+
+export type OfflineScan = z.infer<typeof offlineScanSchema>;
+
+const ticketCategorySchema = z.enum(['REGULAR', 'VIP', 'VVIP']);
+
+export const createZoneSchema = z.object({
+  params: z.object({ eventId: z.string().uuid() }),
+  body: z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(500).optional(),
+    allowedCategories: z.array(ticketCategorySchema).min(1),
+    // Times a ticket may come back in after scanning out; leave out for unlimited
+    maxReentries: z.number().int().min(0).max(100).nullable().optional(),
+  }),
+});
+
+export const updateZoneSchema = z.object({
+  params: z.object({ zoneId: z.string().uuid() }),
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(500).nullable().optional(),
+    allowedCategories: z.array(ticketCategorySchema).min(1).optional(),
+    maxReentries: z.number().int().min(0).max(100).nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
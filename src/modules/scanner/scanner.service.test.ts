@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeDb, createTable } from '../../../test/fake-db';
+
+const state = vi.hoisted(() => ({ db: null as any }));
+
+vi.mock('../../lib/prisma', () => ({
+  get prisma() {
+    return state.db;
+  },
+}));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../../lib/ticket-keys', () => ({ signWithTicketKey: vi.fn() }));
+vi.mock('../alerts/alerts.service', () => ({ createSystemAlert: vi.fn() }));
+vi.mock('../staff/staff.service', () => ({
+  assertEventOwner: vi.fn(),
+  assertScanPermission: vi.fn().mockResolvedValue({ id: 'event-1', title: 'Nairobi Jazz Night', organizerId: 'organizer-1' }),
+}));
+vi.mock('./live.service', () => ({ publishCheckInScan: vi.fn(), publishCheckInUpload: vi.fn() }));
+vi.mock('../tickets/analytics.service', () => ({ invalidateOrganizerAnalyticsCache: vi.fn() }));
+vi.mock('../../utils/analytics', () => ({ computeEventAnalytics: vi.fn() }));
+
+import { uploadCheckIns } from './scanner.service';
+import { createSystemAlert } from '../alerts/alerts.service';
+import type { OfflineScan } from './scanner.schema';
+
+const EVENT_ID = 'event-1';
+
+const setup = ({ maxReentries = null as number | null } = {}) => {
+  state.db = createFakeDb({
+    event: createTable('event', [{ id: EVENT_ID, maxReentries }]),
+    ticketPurchase: createTable(
+      'ticketPurchase',
+      [
+        { id: 'purchase-1', eventId: EVENT_ID, ticketNumber: 'MBT-0001' },
+        { id: 'purchase-2', eventId: EVENT_ID, ticketNumber: 'MBT-0002' },
+        { id: 'other-event', eventId: 'event-2', ticketNumber: 'MBT-9999' },
+      ],
+      {
+        status: 'ACTIVE',
+        checkedInAt: null,
+        entryCount: 0,
+        insideVenue: false,
+        qrCodeData: 'MBT2.unused',
+        ticket: { name: 'Regular', category: 'REGULAR' },
+      }
+    ),
+    venueZone: createTable('venueZone'),
+    ticketScan: createTable('ticketScan'),
+  });
+  return state.db;
+};
+
+const entry = (clientScanId: string, ticketNumber: string, time: string, direction: 'ENTRY' | 'EXIT' = 'ENTRY'): OfflineScan => ({
+  clientScanId,
+  ticketNumber,
+  scannedAt: `2026-12-01T${time}:00.000Z`,
+  direction,
+});
+
+// Device at a gate uploading what it scanned while offline
+const upload = (deviceId: string, gate: string, scans: OfflineScan[]) =>
+  uploadCheckIns(EVENT_ID, 'staff-1', 'STAFF', deviceId, gate, undefined, scans);
+
+describe('uploadCheckIns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('checks tickets in at the time they were scanned', async () => {
+    const db = setup();
+
+    const summary = await upload('device-1', 'A', [entry('scan-1', 'MBT-0001', '18:00'), entry('scan-2', 'MBT-0002', '18:01')]);
+
+    expect(summary).toMatchObject({ processed: 2, accepted: 2, duplicates: 0, rejected: 0 });
+    expect(db.ticketPurchase.rows[0]).toMatchObject({
+      status: 'USED',
+      entryCount: 1,
+      checkedInAt: new Date('2026-12-01T18:00:00.000Z'),
+    });
+    expect(db.ticketScan.rows[0]).toMatchObject({ source: 'OFFLINE', deviceId: 'device-1', clientScanId: 'scan-1' });
+  });
+
+  it('returns the original outcome when a device uploads the same scans again', async () => {
+    const db = setup();
+    const scans = [entry('scan-1', 'MBT-0001', '18:00'), entry('scan-2', 'MBT-0001', '18:05')];
+
+    const first = await upload('device-1', 'A', scans);
+    const retry = await upload('device-1', 'A', scans);
+
+    expect(retry.results).toEqual(first.results);
+    expect(first.results.map((r) => r.result)).toEqual(['ACCEPTED', 'DUPLICATE']);
+    expect(db.ticketScan.rows).toHaveLength(2);
+    expect(db.ticketPurchase.rows[0].entryCount).toBe(1);
+  });
+
+  it('reconciles a batch in the order the scans happened', async () => {
+    setup();
+
+    const summary = await upload('device-1', 'A', [
+      entry('scan-2', 'MBT-0001', '18:30', 'EXIT'),
+      entry('scan-1', 'MBT-0001', '18:00', 'ENTRY'),
+    ]);
+
+    expect(summary.results.map((r) => [r.clientScanId, r.result])).toEqual([
+      ['scan-1', 'ACCEPTED'],
+      ['scan-2', 'ACCEPTED'],
+    ]);
+  });
+
+  it('flags a ticket let in at two gates and points at the first entry', async () => {
+    const db = setup();
+    await upload('device-1', 'A', [entry('scan-1', 'MBT-0001', '18:00')]);
+
+    const summary = await upload('device-2', 'B', [entry('scan-1', 'MBT-0001', '18:10')]);
+
+    const [firstEntry, duplicate] = db.ticketScan.rows;
+    expect(summary).toMatchObject({ duplicates: 1, crossGateDuplicates: 1 });
+    expect(duplicate).toMatchObject({
+      result: 'DUPLICATE',
+      crossGate: true,
+      duplicateOfId: firstEntry.id,
+      reason: 'Already checked in at gate A (device device-1)',
+    });
+    expect(createSystemAlert).toHaveBeenCalledWith(
+      'security',
+      'medium',
+      'Tickets admitted at more than one gate: Nairobi Jazz Night',
+      expect.any(String),
+      expect.objectContaining({ deviceId: 'device-2', ticketNumbers: ['MBT-0001'] })
+    );
+  });
+
+  it('does not flag the same device scanning a ticket twice as a cross-gate duplicate', async () => {
+    setup();
+
+    const summary = await upload('device-1', 'A', [entry('scan-1', 'MBT-0001', '18:00'), entry('scan-2', 'MBT-0001', '18:02')]);
+
+    expect(summary).toMatchObject({ duplicates: 1, crossGateDuplicates: 0 });
+    expect(createSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('does not flag a refused re-entry after the holder scanned out', async () => {
+    setup({ maxReentries: 0 });
+    await upload('device-1', 'A', [entry('scan-1', 'MBT-0001', '18:00'), entry('scan-2', 'MBT-0001', '19:00', 'EXIT')]);
+
+    const summary = await upload('device-2', 'B', [entry('scan-1', 'MBT-0001', '19:30')]);
+
+    expect(summary).toMatchObject({ duplicates: 1, crossGateDuplicates: 0 });
+    expect(createSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown tickets and tickets for another event', async () => {
+    setup();
+
+    const summary = await upload('device-1', 'A', [entry('scan-1', 'MBT-0404', '18:00'), entry('scan-2', 'MBT-9999', '18:01')]);
+
+    expect(summary.results.map((r) => r.reason)).toEqual(['Ticket not found', 'Ticket is for a different event']);
+    expect(summary.rejected).toBe(2);
+  });
+});
@@ -0,0 +1,300 @@
+// Gate scanner sync – signed ticket manifests for offline scanning and batch check-in uploads
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { signWithTicketKey } from '../../lib/ticket-keys';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { assertScanPermission } from '../staff/staff.service';
+import { publishCheckInUpload } from './live.service';
+import { admitTicket } from './zones.service';
+import { invalidateOrganizerAnalyticsCache } from '../tickets/analytics.service';
+import { computeEventAnalytics } from '../../utils/analytics';
+import { verifyQRCodeData, parseRotatingQRCodeData, verifyRotatingCode } from '../../utils/qr-code';
+import type { OfflineScan } from './scanner.schema';
+
+// Manifests stay usable for this long after the event ends (late uploads, re-entry checks)
+const MANIFEST_GRACE_MS = 12 * 60 * 60 * 1000;
+
+// Matches the QR code a ticket currently carries without shipping the code itself
+export const hashQRCode = (qrCodeData: string) =>
+  crypto.createHash('sha256').update(qrCodeData).digest('hex').slice(0, 16);
+
+/**
+ * Everything a gate device needs to admit attendees without a connection:
+ * every issued ticket with its status, entries so far and a hash of its current QR code,
+ * signed with the ticket key so the device can tell it came from us.
+ * Rotating app codes (MBTR) can't be checked offline - their secrets never leave the server -
+ * so offline devices should ask for the printed code or the ticket number instead.
+ */
+export const getScannerManifest = async (eventId: string, userId: string, userRole: string, gate?: string) => {
+  const event = await assertScanPermission(eventId, userId, userRole, gate);
+  const { maxReentries } = await prisma.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { maxReentries: true },
+  });
+
+  const purchases = await prisma.ticketPurchase.findMany({
+    where: { eventId, status: { in: ['ACTIVE', 'USED'] } },
+    select: {
+      id: true,
+      ticketNumber: true,
+      status: true,
+      checkedInAt: true,
+      entryCount: true,
+      insideVenue: true,
+      qrCodeData: true,
+      ticket: { select: { name: true, category: true } },
+      resaleListings: { where: { status: { in: ['ACTIVE', 'RESERVED'] } }, select: { id: true } },
+    },
+    orderBy: { ticketNumber: 'asc' },
+  });
+
+  const generatedAt = new Date();
+  const endsAt = event.endTime ?? event.startTime;
+
+  const manifest = {
+    version: 2,
+    eventId: event.id,
+    eventTitle: event.title,
+    generatedAt,
+    validUntil: new Date(endsAt.getTime() + MANIFEST_GRACE_MS),
+    maxReentries, // null = unlimited
+    rotatingCodesSupported: false,
+    ticketCount: purchases.length,
+    tickets: purchases.map((p) => ({
+      ticketPurchaseId: p.id,
+      ticketNumber: p.ticketNumber,
+      ticketType: p.ticket.name,
+      category: p.ticket.category,
+      // Listed tickets belong to the marketplace until the listing is withdrawn
+      status: p.status === 'ACTIVE' && p.resaleListings.length > 0 ? 'LISTED' : p.status,
+      checkedInAt: p.checkedInAt,
+      entryCount: p.entryCount,
+      insideVenue: p.insideVenue,
+      qrHash: hashQRCode(p.qrCodeData),
+    })),
+  };
+
+  // Devices verify the signature over the manifest exactly as serialized here
+  const { kid, signature } = signWithTicketKey(JSON.stringify(manifest));
+
+  await logAudit('SCANNER_MANIFEST_DOWNLOADED', 'Event', eventId, userId, {
+    ticketCount: manifest.ticketCount,
+    gate,
+    kid,
+  });
+
+  return { manifest, kid, signature };
+};
+
+interface ScanContext {
+  eventId: string;
+  deviceId: string;
+  gate: string | null;
+  zoneId: string | null;
+  scannedById: string;
+}
+
+const withTicket = { ticket: { select: { name: true, category: true } } } as const;
+
+type ScanResult = 'ACCEPTED' | 'DUPLICATE' | 'REJECTED';
+
+// Work out which ticket a scan refers to
+const identifyScan = async (scan: OfflineScan, scannedAt: Date) => {
+  if (scan.qrData) {
+    const rotating = parseRotatingQRCodeData(scan.qrData);
+
+    if (rotating) {
+      const purchase = await prisma.ticketPurchase.findUnique({ where: { id: rotating.ticketId }, include: withTicket });
+      // Checked against the window the device scanned it in, not upload time
+      if (!purchase || !purchase.rotatingSecret || !verifyRotatingCode(purchase.rotatingSecret, rotating.code, scannedAt.getTime())) {
+        return { purchase: null, reason: 'Rotating QR code was expired or not genuine' };
+      }
+      return { purchase, reason: null };
+    }
+
+    const payload = verifyQRCodeData(scan.qrData);
+    if (!payload) {
+      return { purchase: null, reason: 'Invalid or tampered QR code' };
+    }
+
+    const purchase = await prisma.ticketPurchase.findUnique({ where: { id: payload.ticketId }, include: withTicket });
+    if (purchase && purchase.qrCodeData !== scan.qrData) {
+      return { purchase: null, reason: 'QR code has been replaced - the ticket changed hands' };
+    }
+    return { purchase, reason: purchase ? null : 'Ticket not found' };
+  }
+
+  const purchase = await prisma.ticketPurchase.findUnique({
+    where: { ticketNumber: scan.ticketNumber! },
+    include: withTicket,
+  });
+  return { purchase, reason: purchase ? null : 'Ticket not found' };
+};
+
+// Reconcile one uploaded scan against the ticket's current status, with the same
+// zone and re-entry rules as a live scan
+const reconcileScan = async (context: ScanContext, scan: OfflineScan) => {
+  const existing = await prisma.ticketScan.findUnique({
+    where: { deviceId_clientScanId: { deviceId: context.deviceId, clientScanId: scan.clientScanId } },
+  });
+
+  // Already uploaded (the device retried) - report the original outcome
+  if (existing) {
+    return existing;
+  }
+
+  const scannedAt = new Date(scan.scannedAt);
+  const record = (
+    result: ScanResult,
+    data: { ticketPurchaseId?: string; ticketNumber?: string; reason?: string; duplicateOfId?: string; crossGate?: boolean }
+  ) =>
+    prisma.ticketScan.create({
+      data: {
+        eventId: context.eventId,
+        deviceId: context.deviceId,
+        clientScanId: scan.clientScanId,
+        gate: context.gate,
+        scannedById: context.scannedById,
+        source: 'OFFLINE',
+        scannedAt,
+        result,
+        ticketNumber: data.ticketNumber ?? scan.ticketNumber ?? null,
+        ...data,
+      },
+    });
+
+  if (isNaN(scannedAt.getTime())) {
+    return record('REJECTED', { reason: 'Invalid scan time' });
+  }
+
+  const { purchase, reason } = await identifyScan(scan, scannedAt);
+
+  if (!purchase) {
+    return record('REJECTED', { reason: reason ?? 'Ticket not found' });
+  }
+
+  const ticket = { ticketPurchaseId: purchase.id, ticketNumber: purchase.ticketNumber };
+
+  if (purchase.eventId !== context.eventId) {
+    return record('REJECTED', { ...ticket, reason: 'Ticket is for a different event' });
+  }
+
+  const { scan: recorded, result } = await admitTicket(purchase, {
+    zoneId: context.zoneId,
+    direction: scan.direction,
+    gate: context.gate,
+    scannedById: context.scannedById,
+    offline: { deviceId: context.deviceId, clientScanId: scan.clientScanId, scannedAt },
+  });
+
+  // A second entry while the holder was still inside - find where they got in,
+  // so two gates letting the same ticket in gets flagged (a refused re-entry after scanning out isn't one)
+  const refusedReentry = !context.zoneId && purchase.status === 'USED' && !purchase.insideVenue;
+  if (result !== 'DUPLICATE' || scan.direction !== 'ENTRY' || refusedReentry) {
+    return recorded;
+  }
+
+  const lastEntry = await prisma.ticketScan.findFirst({
+    where: {
+      ticketPurchaseId: purchase.id,
+      zoneId: context.zoneId,
+      direction: 'ENTRY',
+      result: 'ACCEPTED',
+      scannedAt: { lte: scannedAt },
+    },
+    orderBy: { scannedAt: 'desc' },
+  });
+
+  if (!lastEntry) {
+    return recorded;
+  }
+
+  const crossGate = lastEntry.deviceId !== context.deviceId || (lastEntry.gate ?? null) !== context.gate;
+  const location = `${lastEntry.gate ? `gate ${lastEntry.gate}` : 'the live scanner'}${lastEntry.deviceId ? ` (device ${lastEntry.deviceId})` : ''}`;
+
+  return prisma.ticketScan.update({
+    where: { id: recorded.id },
+    data: { reason: `Already checked in at ${location}`, duplicateOfId: lastEntry.id, crossGate },
+  });
+};
+
+/**
+ * Upload a batch of check-ins recorded offline. Scans are reconciled in the order
+ * they happened; re-uploading the same scans is safe.
+ */
+export const uploadCheckIns = async (
+  eventId: string,
+  userId: string,
+  userRole: string,
+  deviceId: string,
+  gate: string | undefined,
+  zoneId: string | undefined,
+  scans: OfflineScan[]
+) => {
+  const event = await assertScanPermission(eventId, userId, userRole, gate);
+  const context: ScanContext = { eventId, deviceId, gate: gate ?? null, zoneId: zoneId ?? null, scannedById: userId };
+
+  const ordered = [...scans].sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+  const results = [];
+
+  for (const scan of ordered) {
+    const outcome = await reconcileScan(context, scan);
+    results.push({
+      clientScanId: scan.clientScanId,
+      result: outcome.result,
+      reason: outcome.reason,
+      ticketNumber: outcome.ticketNumber,
+      crossGate: outcome.crossGate,
+    });
+  }
+
+  const summary = {
+    processed: results.length,
+    accepted: results.filter((r) => r.result === 'ACCEPTED').length,
+    duplicates: results.filter((r) => r.result === 'DUPLICATE').length,
+    crossGateDuplicates: results.filter((r) => r.crossGate).length,
+    rejected: results.filter((r) => r.result === 'REJECTED').length,
+  };
+
+  await logAudit('SCANNER_CHECKINS_UPLOADED', 'Event', eventId, userId, { deviceId, gate, zoneId, ...summary });
+  await publishCheckInUpload(eventId, { deviceId, gate, ...summary });
+
+  if (summary.crossGateDuplicates > 0) {
+    await createSystemAlert(
+      'security',
+      'medium',
+      `Tickets admitted at more than one gate: ${event.title}`,
+      `${summary.crossGateDuplicates} ticket(s) uploaded by scanner ${deviceId}${gate ? ` at gate ${gate}` : ''} had already been checked in elsewhere.`,
+      {
+        eventId,
+        deviceId,
+        gate,
+        ticketNumbers: results.filter((r) => r.crossGate).map((r) => r.ticketNumber),
+      }
+    );
+  }
+
+  if (summary.accepted > 0) {
+    try {
+      await computeEventAnalytics(eventId);
+      await invalidateOrganizerAnalyticsCache(event.organizerId);
+    } catch (analyticsError) {
+      console.error(`[Analytics] Failed to update analytics for event ${eventId} after check-in upload:`, analyticsError);
+    }
+  }
+
+  return { ...summary, results };
+};
+
+// Duplicate scans flagged for an event, cross-gate ones first
+export const getScanConflicts = async (eventId: string, userId: string, userRole: string) => {
+  await assertScanPermission(eventId, userId, userRole);
+
+  return prisma.ticketScan.findMany({
+    where: { eventId, result: 'DUPLICATE' },
+    include: { scannedBy: { select: { id: true, fullName: true } } },
+    orderBy: [{ crossGate: 'desc' }, { scannedAt: 'desc' }],
+    take: 200,
+  });
+};
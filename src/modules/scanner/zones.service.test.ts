@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFakeDb, createTable } from '../../../test/fake-db';
+
+const state = vi.hoisted(() => ({ db: null as any }));
+
+vi.mock('../../lib/prisma', () => ({
+  get prisma() {
+    return state.db;
+  },
+}));
+vi.mock('../../lib/audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../staff/staff.service', () => ({ assertEventOwner: vi.fn(), assertScanPermission: vi.fn() }));
+vi.mock('./live.service', () => ({ publishCheckInScan: vi.fn() }));
+
+import { admitTicket, ScanDirection } from './zones.service';
+
+const EVENT_ID = 'event-1';
+const PURCHASE_ID = 'purchase-1';
+
+const setup = ({ maxReentries = null as number | null, category = 'VIP', zoneReentries = null as number | null } = {}) => {
+  state.db = createFakeDb({
+    event: createTable('event', [{ id: EVENT_ID, maxReentries }]),
+    ticketPurchase: createTable('ticketPurchase', [
+      {
+        id: PURCHASE_ID,
+        eventId: EVENT_ID,
+        ticketNumber: 'MBT-0001',
+        status: 'ACTIVE',
+        checkedInAt: null,
+        entryCount: 0,
+        insideVenue: false,
+        ticket: { name: category, category },
+      },
+    ]),
+    venueZone: createTable('venueZone', [
+      {
+        id: 'lounge',
+        eventId: EVENT_ID,
+        name: 'VIP Lounge',
+        allowedCategories: ['VIP', 'VVIP'],
+        maxReentries: zoneReentries,
+        isActive: true,
+      },
+    ]),
+    ticketScan: createTable('ticketScan'),
+  });
+};
+
+// Scan the ticket as it currently stands, a minute after the previous scan
+const scan = async (direction: ScanDirection, zoneId: string | null = null) => {
+  vi.advanceTimersByTime(60_000);
+  const purchase = await state.db.ticketPurchase.findUniqueOrThrow({ where: { id: PURCHASE_ID } });
+  return admitTicket(purchase, { direction, zoneId, gate: 'A', scannedById: 'staff-1' });
+};
+
+const ticket = () => state.db.ticketPurchase.rows[0];
+
+describe('admitTicket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-12-01T18:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('main gate', () => {
+    it('checks a ticket in once and logs every scan', async () => {
+      setup();
+
+      await expect(scan('ENTRY')).resolves.toMatchObject({ result: 'ACCEPTED', firstEntry: true });
+      await expect(scan('ENTRY')).resolves.toMatchObject({ result: 'DUPLICATE', reason: expect.stringContaining('Ticket already used') });
+
+      expect(ticket()).toMatchObject({ status: 'USED', entryCount: 1, insideVenue: true });
+      expect(state.db.ticketScan.rows.map((s: { result: string }) => s.result)).toEqual(['ACCEPTED', 'DUPLICATE']);
+    });
+
+    it('lets the holder back in until the event re-entry limit is used up', async () => {
+      setup({ maxReentries: 1 });
+
+      await scan('ENTRY');
+      await expect(scan('EXIT')).resolves.toMatchObject({ result: 'ACCEPTED', reason: 'Exit recorded. 1 re-entry left.' });
+      await expect(scan('ENTRY')).resolves.toMatchObject({ result: 'ACCEPTED', reason: 'Welcome back! Re-entry 1 of 1.' });
+      await expect(scan('EXIT')).resolves.toMatchObject({
+        result: 'ACCEPTED',
+        reason: 'Exit recorded. This ticket cannot be used to come back in.',
+      });
+      await expect(scan('ENTRY')).resolves.toMatchObject({ result: 'REJECTED', reason: 'Re-entry limit reached (1 allowed)' });
+
+      expect(ticket()).toMatchObject({ entryCount: 2, insideVenue: false });
+    });
+
+    it('refuses any re-entry when the event allows none', async () => {
+      setup({ maxReentries: 0 });
+
+      await scan('ENTRY');
+      await scan('EXIT');
+
+      await expect(scan('ENTRY')).resolves.toMatchObject({
+        result: 'DUPLICATE',
+        reason: expect.stringContaining('(no re-entry for this event)'),
+      });
+    });
+
+    it('allows unlimited re-entry when no limit is set', async () => {
+      setup();
+
+      for (let i = 0; i < 5; i++) {
+        await expect(scan('ENTRY')).resolves.toMatchObject({ result: 'ACCEPTED' });
+        await expect(scan('EXIT')).resolves.toMatchObject({ result: 'ACCEPTED', reason: 'Exit recorded.' });
+      }
+
+      expect(ticket().entryCount).toBe(5);
+    });
+
+    it('only lets one of two gates readmit the same exit', async () => {
+      setup();
+      await scan('ENTRY');
+      await scan('EXIT');
+
+      const purchase = await state.db.ticketPurchase.findUniqueOrThrow({ where: { id: PURCHASE_ID } });
+      const request = { direction: 'ENTRY' as const, gate: 'A', scannedById: 'staff-1' };
+      const results = await Promise.all([admitTicket(purchase, request), admitTicket(purchase, { ...request, gate: 'B' })]);
+
+      expect(results.map((r) => r.result).sort()).toEqual(['ACCEPTED', 'DUPLICATE']);
+      expect(ticket().entryCount).toBe(2);
+    });
+
+    it('rejects an exit before the ticket was checked in', async () => {
+      setup();
+
+      await expect(scan('EXIT')).resolves.toMatchObject({ result: 'REJECTED', reason: 'Ticket has not been checked in yet' });
+    });
+  });
+
+  describe('zones', () => {
+    it('only admits the tiers the zone allows', async () => {
+      setup({ category: 'REGULAR' });
+      await scan('ENTRY');
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({
+        result: 'REJECTED',
+        reason: 'VIP Lounge is for VIP, VVIP tickets only',
+      });
+    });
+
+    it('needs the holder to be inside the venue', async () => {
+      setup();
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'REJECTED', reason: 'Check in at the main gate first' });
+    });
+
+    it('tracks entries and exits and applies the zone re-entry limit', async () => {
+      setup({ zoneReentries: 1 });
+      await scan('ENTRY');
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'ACCEPTED', zone: { id: 'lounge', name: 'VIP Lounge' } });
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'DUPLICATE', reason: 'Already inside VIP Lounge' });
+      await expect(scan('EXIT', 'lounge')).resolves.toMatchObject({ result: 'ACCEPTED' });
+      await expect(scan('EXIT', 'lounge')).resolves.toMatchObject({ result: 'DUPLICATE', reason: 'Ticket is not inside VIP Lounge' });
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'ACCEPTED' });
+      await scan('EXIT', 'lounge');
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({
+        result: 'REJECTED',
+        reason: 'Re-entry limit for VIP Lounge reached (1 allowed)',
+      });
+    });
+
+    it('counts leaving the venue as leaving the zone', async () => {
+      setup();
+      await scan('ENTRY');
+      await scan('ENTRY', 'lounge');
+      await scan('EXIT');
+      await scan('ENTRY');
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'ACCEPTED' });
+    });
+
+    it('turns everyone away from a closed zone', async () => {
+      setup();
+      await scan('ENTRY');
+      state.db.venueZone.rows[0].isActive = false;
+
+      await expect(scan('ENTRY', 'lounge')).resolves.toMatchObject({ result: 'REJECTED', reason: 'VIP Lounge is closed' });
+    });
+  });
+});
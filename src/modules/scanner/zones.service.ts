@@ -0,0 +1,416 @@
+// Venue zones and re-entry – who may go where, and how often they may come back in
+import { Prisma, TicketCategory } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { assertEventOwner, assertScanPermission } from '../staff/staff.service';
+import { publishCheckInScan } from './live.service';
+
+// Scan decisions:
+//   main gate (no zone) ENTRY  ACTIVE → USED (first entry), or a re-entry while under event.maxReentries
+//                       EXIT   marks the ticket as outside so it can come back in
+//   zone                ENTRY  ticket tier must be allowed, and the holder must be inside the venue
+//                       EXIT   frees the holder to re-enter the zone (within zone.maxReentries)
+
+export type ScanDirection = 'ENTRY' | 'EXIT';
+
+export interface ZoneInput {
+  name?: string;
+  description?: string | null;
+  allowedCategories?: TicketCategory[];
+  maxReentries?: number | null;
+  isActive?: boolean;
+}
+
+export interface ScanRequest {
+  zoneId?: string | null;
+  direction: ScanDirection;
+  gate: string | null;
+  scannedById: string;
+  // Scans recorded by a gate device while offline, replayed at the time they happened
+  offline?: { deviceId: string; clientScanId: string; scannedAt: Date };
+}
+
+type AdmissionPurchase = {
+  id: string;
+  eventId: string;
+  ticketNumber: string;
+  status: string;
+  checkedInAt: Date | null;
+  entryCount: number;
+  insideVenue: boolean;
+  ticket: { name: string; category: TicketCategory };
+};
+
+const CATEGORIES: TicketCategory[] = ['REGULAR', 'VIP', 'VVIP'];
+
+const storedCategories = (value: Prisma.JsonValue) =>
+  Array.isArray(value) ? CATEGORIES.filter((c) => value.includes(c)) : [];
+
+const formatTime = (date: Date) => date.toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' });
+
+const toZoneResponse = <T extends { allowedCategories: Prisma.JsonValue }>(zone: T) => ({
+  ...zone,
+  allowedCategories: storedCategories(zone.allowedCategories),
+});
+
+const validateZoneInput = (input: ZoneInput) => {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Zone name is required');
+  }
+
+  if (input.allowedCategories !== undefined) {
+    if (input.allowedCategories.length === 0 || input.allowedCategories.some((c) => !CATEGORIES.includes(c))) {
+      throw new Error(`Allowed ticket tiers must be one or more of ${CATEGORIES.join(', ')}`);
+    }
+  }
+
+  if (input.maxReentries !== undefined && input.maxReentries !== null) {
+    if (!Number.isInteger(input.maxReentries) || input.maxReentries < 0) {
+      throw new Error('Re-entry limit must be a whole number of zero or more');
+    }
+  }
+};
+
+// Zones for an event (anyone who can scan for it)
+export const getEventZones = async (eventId: string, userId: string, userRole: string) => {
+  await assertScanPermission(eventId, userId, userRole);
+
+  const zones = await prisma.venueZone.findMany({
+    where: { eventId },
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+  });
+
+  return zones.map(toZoneResponse);
+};
+
+export const createZone = async (eventId: string, userId: string, userRole: string, input: ZoneInput) => {
+  await assertEventOwner(eventId, userId, userRole);
+  validateZoneInput(input);
+
+  if (!input.name || !input.allowedCategories) {
+    throw new Error('A zone needs a name and at least one allowed ticket tier');
+  }
+
+  const name = input.name.trim();
+  const existing = await prisma.venueZone.findUnique({ where: { eventId_name: { eventId, name } } });
+  if (existing) {
+    throw new Error(`This event already has a zone called "${name}"`);
+  }
+
+  const zone = await prisma.venueZone.create({
+    data: {
+      eventId,
+      name,
+      description: input.description ?? null,
+      allowedCategories: input.allowedCategories,
+      maxReentries: input.maxReentries ?? null,
+    },
+  });
+
+  await logAudit('VENUE_ZONE_CREATED', 'VenueZone', zone.id, userId, {
+    eventId,
+    name,
+    allowedCategories: input.allowedCategories,
+    maxReentries: zone.maxReentries,
+  });
+
+  return toZoneResponse(zone);
+};
+
+export const updateZone = async (zoneId: string, userId: string, userRole: string, input: ZoneInput) => {
+  const zone = await prisma.venueZone.findUnique({ where: { id: zoneId } });
+  if (!zone) {
+    throw new Error('Zone not found');
+  }
+
+  await assertEventOwner(zone.eventId, userId, userRole);
+  validateZoneInput(input);
+
+  const name = input.name?.trim();
+  if (name && name !== zone.name) {
+    const clash = await prisma.venueZone.findUnique({ where: { eventId_name: { eventId: zone.eventId, name } } });
+    if (clash) {
+      throw new Error(`This event already has a zone called "${name}"`);
+    }
+  }
+
+  const updated = await prisma.venueZone.update({
+    where: { id: zoneId },
+    data: {
+      ...(name && { name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.allowedCategories && { allowedCategories: input.allowedCategories }),
+      ...(input.maxReentries !== undefined && { maxReentries: input.maxReentries }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    },
+  });
+
+  await logAudit('VENUE_ZONE_UPDATED', 'VenueZone', zoneId, userId, { eventId: zone.eventId, changes: input });
+
+  return toZoneResponse(updated);
+};
+
+// Zones are deactivated rather than deleted so the scan log keeps its history
+export const deactivateZone = async (zoneId: string, userId: string, userRole: string) => {
+  const zone = await prisma.venueZone.findUnique({ where: { id: zoneId } });
+  if (!zone) {
+    throw new Error('Zone not found');
+  }
+
+  await assertEventOwner(zone.eventId, userId, userRole);
+
+  await prisma.venueZone.update({ where: { id: zoneId }, data: { isActive: false } });
+  await logAudit('VENUE_ZONE_DEACTIVATED', 'VenueZone', zoneId, userId, { eventId: zone.eventId });
+
+  return { message: `${zone.name} is closed. Its scanners will now deny entry.`, zoneId };
+};
+
+// Main gate: first entry, re-entries and exits
+const decideMainGate = async (purchase: AdmissionPurchase, maxReentries: number | null, direction: ScanDirection, now: Date) => {
+  if (direction === 'EXIT') {
+    if (purchase.status !== 'USED') {
+      return { allowed: false, result: 'REJECTED' as const, reason: 'Ticket has not been checked in yet' };
+    }
+    if (!purchase.insideVenue) {
+      return { allowed: false, result: 'DUPLICATE' as const, reason: 'Ticket has already been scanned out' };
+    }
+
+    const { count } = await prisma.ticketPurchase.updateMany({
+      where: { id: purchase.id, status: 'USED', insideVenue: true },
+      data: { insideVenue: false },
+    });
+
+    if (count === 0) {
+      return { allowed: false, result: 'DUPLICATE' as const, reason: 'Ticket was just scanned out at another gate' };
+    }
+
+    const reentriesLeft = maxReentries === null ? null : Math.max(maxReentries - (purchase.entryCount - 1), 0);
+    return {
+      allowed: true,
+      result: 'ACCEPTED' as const,
+      reason:
+        reentriesLeft === null
+          ? 'Exit recorded.'
+          : reentriesLeft === 0
+            ? 'Exit recorded. This ticket cannot be used to come back in.'
+            : `Exit recorded. ${reentriesLeft} re-entr${reentriesLeft === 1 ? 'y' : 'ies'} left.`,
+    };
+  }
+
+  if (purchase.status === 'ACTIVE') {
+    const { count } = await prisma.ticketPurchase.updateMany({
+      where: { id: purchase.id, status: 'ACTIVE' },
+      data: { status: 'USED', checkedInAt: now, entryCount: 1, insideVenue: true },
+    });
+
+    if (count === 0) {
+      return { allowed: false, result: 'DUPLICATE' as const, reason: 'Ticket was just checked in at another gate.' };
+    }
+    return { allowed: true, result: 'ACCEPTED' as const, reason: 'Check-in successful!', firstEntry: true };
+  }
+
+  if (purchase.status !== 'USED') {
+    return { allowed: false, result: 'REJECTED' as const, reason: `Ticket is not active. Status: ${purchase.status}` };
+  }
+
+  if (purchase.insideVenue || maxReentries === 0) {
+    return {
+      allowed: false,
+      result: 'DUPLICATE' as const,
+      reason: `Ticket already used at ${formatTime(new Date(purchase.checkedInAt!))}${purchase.insideVenue ? '' : ' (no re-entry for this event)'}`,
+    };
+  }
+
+  const reentries = purchase.entryCount - 1;
+  if (maxReentries !== null && reentries >= maxReentries) {
+    return {
+      allowed: false,
+      result: 'REJECTED' as const,
+      reason: `Re-entry limit reached (${maxReentries} allowed)`,
+    };
+  }
+
+  // Guarded on the entry count we read, so two gates can't both let the same exit back in
+  const { count } = await prisma.ticketPurchase.updateMany({
+    where: { id: purchase.id, status: 'USED', insideVenue: false, entryCount: purchase.entryCount },
+    data: { insideVenue: true, entryCount: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    return { allowed: false, result: 'DUPLICATE' as const, reason: 'Ticket was just scanned at another gate.' };
+  }
+
+  return {
+    allowed: true,
+    result: 'ACCEPTED' as const,
+    reason: `Welcome back! Re-entry ${reentries + 1}${maxReentries === null ? '' : ` of ${maxReentries}`}.`,
+  };
+};
+
+// Restricted zones: tier check, then entries and exits from the scan log
+const decideZone = async (
+  purchase: AdmissionPurchase,
+  zone: { id: string; name: string; allowedCategories: Prisma.JsonValue; maxReentries: number | null },
+  direction: ScanDirection
+) => {
+  const allowedCategories = storedCategories(zone.allowedCategories);
+
+  if (!allowedCategories.includes(purchase.ticket.category)) {
+    return {
+      allowed: false,
+      result: 'REJECTED' as const,
+      reason: `${zone.name} is for ${allowedCategories.join(', ')} tickets only`,
+    };
+  }
+
+  if (purchase.status !== 'USED' || !purchase.insideVenue) {
+    return { allowed: false, result: 'REJECTED' as const, reason: 'Check in at the main gate first' };
+  }
+
+  const [lastZoneScan, lastVenueEntry, zoneEntries] = await Promise.all([
+    prisma.ticketScan.findFirst({
+      where: { ticketPurchaseId: purchase.id, zoneId: zone.id, result: 'ACCEPTED' },
+      orderBy: { scannedAt: 'desc' },
+    }),
+    prisma.ticketScan.findFirst({
+      where: { ticketPurchaseId: purchase.id, zoneId: null, direction: 'ENTRY', result: 'ACCEPTED' },
+      orderBy: { scannedAt: 'desc' },
+    }),
+    prisma.ticketScan.count({
+      where: { ticketPurchaseId: purchase.id, zoneId: zone.id, direction: 'ENTRY', result: 'ACCEPTED' },
+    }),
+  ]);
+
+  // Leaving the venue also takes the holder out of every zone
+  const insideZone =
+    lastZoneScan?.direction === 'ENTRY' && (!lastVenueEntry || lastVenueEntry.scannedAt <= lastZoneScan.scannedAt);
+
+  if (direction === 'EXIT') {
+    return insideZone
+      ? { allowed: true, result: 'ACCEPTED' as const, reason: `Left ${zone.name}.` }
+      : { allowed: false, result: 'DUPLICATE' as const, reason: `Ticket is not inside ${zone.name}` };
+  }
+
+  if (insideZone) {
+    return { allowed: false, result: 'DUPLICATE' as const, reason: `Already inside ${zone.name}` };
+  }
+
+  if (zoneEntries > 0 && zone.maxReentries !== null && zoneEntries - 1 >= zone.maxReentries) {
+    return {
+      allowed: false,
+      result: 'REJECTED' as const,
+      reason: `Re-entry limit for ${zone.name} reached (${zone.maxReentries} allowed)`,
+    };
+  }
+
+  return { allowed: true, result: 'ACCEPTED' as const, reason: `Access granted to ${zone.name}` };
+};
+
+// Log a scan and push it to the event's live dashboards
+const recordScan = async (
+  purchase: AdmissionPurchase,
+  request: ScanRequest,
+  zoneId: string | null,
+  result: 'ACCEPTED' | 'DUPLICATE' | 'REJECTED',
+  reason: string | null
+) => {
+  const scan = await prisma.ticketScan.create({
+    data: {
+      eventId: purchase.eventId,
+      ticketPurchaseId: purchase.id,
+      ticketNumber: purchase.ticketNumber,
+      zoneId,
+      direction: request.direction,
+      gate: request.gate,
+      scannedById: request.scannedById,
+      source: request.offline ? 'OFFLINE' : 'ONLINE',
+      deviceId: request.offline?.deviceId,
+      clientScanId: request.offline?.clientScanId,
+      result,
+      reason,
+      scannedAt: request.offline?.scannedAt ?? new Date(),
+    },
+  });
+
+  // Offline uploads are published as one summary by the upload itself
+  if (!request.offline) {
+    await publishCheckInScan(scan, { ticketType: purchase.ticket.name, category: purchase.ticket.category });
+  }
+  return scan;
+};
+
+// Turned away before the zone rules were reached (replaced QR, listed for resale, refunded...)
+export const recordRejectedScan = (purchase: AdmissionPurchase, request: ScanRequest, reason: string) =>
+  recordScan(purchase, request, request.zoneId ?? null, 'REJECTED', reason);
+
+/**
+ * Decide whether a ticket may pass a main-gate or zone scanner, apply it to the
+ * ticket and record the scan (allowed or not) in the entry/exit log.
+ */
+export const admitTicket = async (purchase: AdmissionPurchase, request: ScanRequest) => {
+  const now = request.offline?.scannedAt ?? new Date();
+
+  const zone = request.zoneId
+    ? await prisma.venueZone.findFirst({ where: { id: request.zoneId, eventId: purchase.eventId } })
+    : null;
+
+  let decision: { allowed: boolean; result: 'ACCEPTED' | 'DUPLICATE' | 'REJECTED'; reason: string; firstEntry?: boolean };
+
+  if (request.zoneId && !zone) {
+    decision = { allowed: false, result: 'REJECTED', reason: 'This scanner is set to a zone that is not part of this event' };
+  } else if (zone && !zone.isActive) {
+    decision = { allowed: false, result: 'REJECTED', reason: `${zone.name} is closed` };
+  } else if (zone) {
+    decision = await decideZone(purchase, zone, request.direction);
+  } else {
+    const event = await prisma.event.findUniqueOrThrow({
+      where: { id: purchase.eventId },
+      select: { maxReentries: true },
+    });
+    decision = await decideMainGate(purchase, event.maxReentries, request.direction, now);
+  }
+
+  // Allowed scans keep their friendly message in the response only
+  const scan = await recordScan(purchase, request, zone?.id ?? null, decision.result, decision.allowed ? null : decision.reason);
+
+  return {
+    ...decision,
+    firstEntry: decision.firstEntry ?? false,
+    zone: zone ? { id: zone.id, name: zone.name } : null,
+    scan,
+  };
+};
+
+// Entry/exit log for one ticket (anyone who can scan for its event)
+export const getTicketScanLog = async (ticketPurchaseId: string, userId: string, userRole: string) => {
+  const purchase = await prisma.ticketPurchase.findUnique({
+    where: { id: ticketPurchaseId },
+    select: {
+      id: true,
+      eventId: true,
+      ticketNumber: true,
+      status: true,
+      checkedInAt: true,
+      entryCount: true,
+      insideVenue: true,
+      ticket: { select: { name: true, category: true } },
+    },
+  });
+
+  if (!purchase) {
+    throw new Error('Ticket not found');
+  }
+
+  await assertScanPermission(purchase.eventId, userId, userRole);
+
+  const scans = await prisma.ticketScan.findMany({
+    where: { ticketPurchaseId },
+    include: {
+      zone: { select: { id: true, name: true } },
+      scannedBy: { select: { id: true, fullName: true } },
+    },
+    orderBy: { scannedAt: 'asc' },
+  });
+
+  return { ticket: purchase, scans };
+};
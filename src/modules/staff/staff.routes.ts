@@ -0,0 +1,137 @@
+import { FastifyInstance } from 'fastify';
+import { requireRole } from '../../middleware/rbac';
+import { inviteStaffSchema, updateStaffGatesSchema, acceptStaffInviteSchema } from './staff.schema';
+import {
+  inviteStaff,
+  getEventStaff,
+  updateStaffGates,
+  revokeStaff,
+  getStaffInvite,
+  acceptStaffInvite,
+  getMyAssignments,
+} from './staff.service';
+
+export default async (fastify: FastifyInstance) => {
+  // Invite door staff to an event (organizer/admin)
+  fastify.post(
+    '/events/:eventId/invites',
+    { schema: inviteStaffSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const { email, gates } = request.body as { email: string; gates?: string[] | null };
+        const result = await inviteStaff(eventId, request.user!.id, request.user!.role, email, gates);
+        reply.status(201).send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Door team for an event (organizer/admin)
+  fastify.get(
+    '/events/:eventId',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const staff = await getEventStaff(eventId, request.user!.id, request.user!.role);
+        reply.send(staff);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Events you're on the door team for (authenticated)
+  fastify.get(
+    '/assignments',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const assignments = await getMyAssignments(request.user!.id);
+        reply.send(assignments);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Preview a staff invite (public - shown before the invitee signs in)
+  fastify.get(
+    '/invites/:token',
+    async (request, reply) => {
+      try {
+        const { token } = request.params as { token: string };
+        const invite = await getStaffInvite(token);
+        reply.send(invite);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Accept a staff invite (authenticated, invited email only)
+  fastify.post(
+    '/invites/accept',
+    { schema: acceptStaffInviteSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { token } = request.body as { token: string };
+        const result = await acceptStaffInvite(token, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Change the gates a staff member may scan at (organizer/admin)
+  fastify.patch(
+    '/:staffId',
+    { schema: updateStaffGatesSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { staffId } = request.params as { staffId: string };
+        const { gates } = request.body as { gates?: string[] | null };
+        const result = await updateStaffGates(staffId, request.user!.id, request.user!.role, gates);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Remove a staff member or withdraw their invite (organizer/admin)
+  fastify.delete(
+    '/:staffId',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { staffId } = request.params as { staffId: string };
+        const result = await revokeStaff(staffId, request.user!.id, request.user!.role);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+};
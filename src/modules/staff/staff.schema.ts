@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Gate names an assignment is limited to; leave out (or send null) for every gate
+const gatesSchema = z.array(z.string().trim().min(1).max(100)).max(50).nullable().optional();
+
+export const inviteStaffSchema = z.object({
+  params: z.object({ eventId: z.string().uuid() }),
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    gates: gatesSchema,
+  }),
+});
+
+export const updateStaffGatesSchema = z.object({
+  params: z.object({ staffId: z.string().uuid() }),
+  body: z.object({
+    gates: gatesSchema,
+  }),
+});
+
+export const acceptStaffInviteSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Invite token is required'),
+  }),
+});
@@ -0,0 +1,427 @@
+// Door staff – organizers invite people to scan tickets for one event, optionally at specific gates
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { getFrontendUrl } from '../../lib/email';
+import { sendStaffInviteEmail } from '../../lib/queue';
+import { invalidateUserProfileCache } from '../auth/auth.service';
+
+// Assignment lifecycle:
+//   PENDING (invite emailed) → ACTIVE (accepted by the invited email) → REVOKED
+//   Re-inviting a revoked or pending address issues a fresh invite on the same row.
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invites last a week (or until the event ends)
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sameGate = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Trimmed, de-duplicated gate names; null when the assignment covers every gate
+const normalizeGates = (gates?: string[] | null): string[] | null => {
+  if (!gates) {
+    return null;
+  }
+
+  const unique: string[] = [];
+  for (const gate of gates.map((g) => g.trim()).filter(Boolean)) {
+    if (!unique.some((existing) => sameGate(existing, gate))) {
+      unique.push(gate);
+    }
+  }
+
+  return unique.length > 0 ? unique : null;
+};
+
+const storedGates = (gates: Prisma.JsonValue | null) =>
+  Array.isArray(gates) ? gates.filter((g): g is string => typeof g === 'string') : null;
+
+const describeGates = (gates: string[] | null) => (gates ? gates.join(', ') : 'All gates');
+
+// Managing staff (and other door setup) is limited to the event's organizer and admins
+export const assertEventOwner = async (eventId: string, userId: string, userRole: string) => {
+  const event = await prisma.event.findFirst({
+    where: { id: eventId, deletedAt: null },
+    select: { id: true, title: true, organizerId: true, startTime: true, endTime: true, status: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  if (event.organizerId !== userId && userRole !== 'ADMIN') {
+    throw new Error('Unauthorized: You can only manage door access for your own events');
+  }
+
+  return event;
+};
+
+const findAssignment = async (staffId: string, userId: string, userRole: string) => {
+  const assignment = await prisma.eventStaff.findUnique({ where: { id: staffId } });
+
+  if (!assignment) {
+    throw new Error('Staff assignment not found');
+  }
+
+  await assertEventOwner(assignment.eventId, userId, userRole);
+  return assignment;
+};
+
+/**
+ * Check that a user may scan tickets for an event: its organizer, an admin, or
+ * door staff with an active assignment covering the gate they are scanning at.
+ */
+export const assertScanPermission = async (
+  eventId: string,
+  userId: string,
+  userRole: string,
+  gate?: string | null
+) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, title: true, organizerId: true, startTime: true, endTime: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  if (event.organizerId === userId || userRole === 'ADMIN') {
+    return event;
+  }
+
+  const assignment = await prisma.eventStaff.findFirst({
+    where: { eventId, userId, status: 'ACTIVE' },
+    select: { gates: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Unauthorized: You are not assigned to scan tickets for this event');
+  }
+
+  const gates = storedGates(assignment.gates);
+  if (gates && gates.length > 0) {
+    if (!gate) {
+      throw new Error(`Unauthorized: You are assigned to specific gates (${describeGates(gates)}). Include the gate you are scanning at.`);
+    }
+    if (!gates.some((allowed) => sameGate(allowed, gate))) {
+      throw new Error(`Unauthorized: You are not assigned to gate ${gate}`);
+    }
+  }
+
+  return event;
+};
+
+/**
+ * Invite someone to scan tickets for an event. They accept by signing in with
+ * the invited email address; gates limits where they may scan.
+ */
+export const inviteStaff = async (
+  eventId: string,
+  inviterId: string,
+  inviterRole: string,
+  email: string,
+  gates?: string[] | null
+) => {
+  const event = await assertEventOwner(eventId, inviterId, inviterRole);
+  const now = new Date();
+  const endsAt = event.endTime ?? event.startTime;
+
+  if (event.status === 'CANCELLED' || endsAt <= now) {
+    throw new Error('Staff can only be invited to upcoming or ongoing events');
+  }
+
+  const inviteEmail = email.trim().toLowerCase();
+  const organizer = await prisma.user.findUnique({
+    where: { id: event.organizerId },
+    select: { email: true },
+  });
+
+  if (organizer && sameEmail(organizer.email, inviteEmail)) {
+    throw new Error('The event organizer can already scan tickets for this event');
+  }
+
+  const existing = await prisma.eventStaff.findUnique({
+    where: { eventId_email: { eventId, email: inviteEmail } },
+  });
+
+  if (existing?.status === 'ACTIVE') {
+    throw new Error(`${inviteEmail} is already on the door team for this event`);
+  }
+
+  const gateList = normalizeGates(gates);
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Math.min(now.getTime() + INVITE_TTL_MS, endsAt.getTime()));
+  const invite = {
+    invitedById: inviterId,
+    gates: gateList ?? Prisma.DbNull,
+    status: 'PENDING',
+    tokenHash: hashToken(token),
+    expiresAt,
+    userId: null,
+    acceptedAt: null,
+    revokedAt: null,
+  };
+
+  const assignment = existing
+    ? await prisma.eventStaff.update({ where: { id: existing.id }, data: invite })
+    : await prisma.eventStaff.create({ data: { ...invite, eventId, email: inviteEmail } });
+
+  const inviter = await prisma.user.findUnique({
+    where: { id: inviterId },
+    select: { fullName: true },
+  });
+
+  const inviteLink = `${getFrontendUrl()}/staff/accept?token=${token}`;
+  const expiresInHours = Math.max(Math.round((expiresAt.getTime() - now.getTime()) / (60 * 60 * 1000)), 1);
+
+  try {
+    await sendStaffInviteEmail(inviteEmail, {
+      staffId: assignment.id,
+      inviterName: inviter?.fullName || 'The event organizer',
+      eventName: event.title,
+      eventDate: event.startTime.toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' }),
+      gates: describeGates(gateList),
+      acceptLink: inviteLink,
+      expiresIn: expiresInHours >= 48 ? `${Math.floor(expiresInHours / 24)} days` : `${expiresInHours} hours`,
+    });
+  } catch (emailError) {
+    // The organizer can still share the link themselves
+    console.error(`Failed to queue staff invite ${assignment.id}:`, emailError);
+  }
+
+  await logAudit('STAFF_INVITED', 'EventStaff', assignment.id, inviterId, {
+    eventId,
+    email: inviteEmail,
+    gates: gateList,
+    expiresAt,
+  });
+
+  return {
+    message: `Invite sent to ${inviteEmail}`,
+    staffId: assignment.id,
+    status: assignment.status,
+    gates: gateList,
+    inviteLink,
+    expiresAt,
+  };
+};
+
+// Door team for an event, including pending invites
+export const getEventStaff = async (eventId: string, userId: string, userRole: string) => {
+  await assertEventOwner(eventId, userId, userRole);
+
+  const staff = await prisma.eventStaff.findMany({
+    where: { eventId },
+    omit: { tokenHash: true },
+    include: {
+      user: { select: { id: true, fullName: true, phoneNumber: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const scanCounts = await prisma.ticketScan.groupBy({
+    by: ['scannedById'],
+    where: { eventId, scannedById: { in: staff.map((s) => s.userId).filter((id): id is string => !!id) } },
+    _count: { _all: true },
+  });
+
+  return staff.map((assignment) => ({
+    ...assignment,
+    gates: storedGates(assignment.gates),
+    scanCount: scanCounts.find((c) => c.scannedById === assignment.userId)?._count._all ?? 0,
+  }));
+};
+
+// Change which gates a staff member may scan at (null or empty = every gate)
+export const updateStaffGates = async (
+  staffId: string,
+  userId: string,
+  userRole: string,
+  gates?: string[] | null
+) => {
+  const assignment = await findAssignment(staffId, userId, userRole);
+
+  if (assignment.status === 'REVOKED') {
+    throw new Error('This staff member has been removed. Invite them again instead.');
+  }
+
+  const gateList = normalizeGates(gates);
+  const updated = await prisma.eventStaff.update({
+    where: { id: staffId },
+    data: { gates: gateList ?? Prisma.DbNull },
+  });
+
+  await logAudit('STAFF_GATES_UPDATED', 'EventStaff', staffId, userId, {
+    eventId: assignment.eventId,
+    from: storedGates(assignment.gates),
+    to: gateList,
+  });
+
+  return { message: 'Staff gates updated', staffId, status: updated.status, gates: gateList };
+};
+
+// Remove a staff member (or withdraw a pending invite); they lose scan access at once.
+// Someone promoted to STAFF by an invite goes back to ATTENDEE once their last event is revoked.
+export const revokeStaff = async (staffId: string, userId: string, userRole: string) => {
+  const assignment = await findAssignment(staffId, userId, userRole);
+
+  const demoted = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.eventStaff.updateMany({
+      where: { id: staffId, status: { in: ['PENDING', 'ACTIVE'] } },
+      data: { status: 'REVOKED', revokedAt: new Date(), tokenHash: null },
+    });
+
+    if (count === 0) {
+      throw new Error('This staff member has already been removed');
+    }
+
+    if (!assignment.userId) {
+      return false;
+    }
+
+    const stillStaff = await tx.eventStaff.count({ where: { userId: assignment.userId, status: 'ACTIVE' } });
+    if (stillStaff > 0) {
+      return false;
+    }
+
+    const { count: demotedCount } = await tx.user.updateMany({
+      where: { id: assignment.userId, role: 'STAFF' },
+      data: { role: 'ATTENDEE' },
+    });
+    return demotedCount > 0;
+  });
+
+  if (demoted) {
+    await invalidateUserProfileCache(assignment.userId!);
+  }
+
+  await logAudit('STAFF_REVOKED', 'EventStaff', staffId, userId, {
+    eventId: assignment.eventId,
+    email: assignment.email,
+    previousStatus: assignment.status,
+    roleChanged: demoted ? { from: 'STAFF', to: 'ATTENDEE' } : undefined,
+  });
+
+  return { message: `${assignment.email} can no longer scan tickets for this event`, staffId };
+};
+
+// Look up an invite by its token; pending invites that have run out are reported as expired
+const findInvite = async (token: string) => {
+  const assignment = await prisma.eventStaff.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      invitedBy: { select: { fullName: true } },
+      event: { select: { id: true, title: true, startTime: true, endTime: true } },
+    },
+  });
+
+  if (!assignment) {
+    throw new Error('Staff invite not found');
+  }
+
+  if (assignment.status === 'PENDING' && assignment.expiresAt && assignment.expiresAt <= new Date()) {
+    throw new Error('This staff invite has expired. Ask the organizer to send a new one.');
+  }
+
+  return assignment;
+};
+
+// Public preview of an invite, shown before the invitee signs in
+export const getStaffInvite = async (token: string) => {
+  const assignment = await findInvite(token);
+
+  return {
+    staffId: assignment.id,
+    status: assignment.status,
+    email: assignment.email,
+    inviterName: assignment.invitedBy.fullName || 'The event organizer',
+    eventId: assignment.event.id,
+    eventTitle: assignment.event.title,
+    eventStartTime: assignment.event.startTime,
+    gates: storedGates(assignment.gates),
+    expiresAt: assignment.expiresAt,
+  };
+};
+
+/**
+ * Accept a staff invite (the user must be signed in with the invited email).
+ * Attendees are given the STAFF role so they can reach the scanner.
+ */
+export const acceptStaffInvite = async (token: string, userId: string) => {
+  const assignment = await findInvite(token);
+
+  if (assignment.status !== 'PENDING') {
+    throw new Error(`This staff invite has already been ${assignment.status === 'ACTIVE' ? 'accepted' : 'withdrawn'}`);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, role: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!sameEmail(user.email, assignment.email)) {
+    throw new Error('Unauthorized: This invite was sent to a different email address');
+  }
+
+  const promoted = user.role === 'ATTENDEE';
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.eventStaff.updateMany({
+      where: { id: assignment.id, status: 'PENDING' },
+      data: { status: 'ACTIVE', userId, acceptedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('This staff invite is no longer pending');
+    }
+
+    if (promoted) {
+      await tx.user.update({ where: { id: userId }, data: { role: 'STAFF' } });
+    }
+  });
+
+  if (promoted) {
+    await invalidateUserProfileCache(userId);
+  }
+
+  await logAudit('STAFF_INVITE_ACCEPTED', 'EventStaff', assignment.id, userId, {
+    eventId: assignment.eventId,
+    gates: storedGates(assignment.gates),
+    roleChanged: promoted ? { from: 'ATTENDEE', to: 'STAFF' } : undefined,
+  });
+
+  return {
+    message: promoted
+      ? `You're on the door team for "${assignment.event.title}". Sign in again to open the scanner.`
+      : `You're on the door team for "${assignment.event.title}".`,
+    staffId: assignment.id,
+    eventId: assignment.eventId,
+    gates: storedGates(assignment.gates),
+    roleChanged: promoted,
+  };
+};
+
+// Events the user is on the door team for
+export const getMyAssignments = async (userId: string) => {
+  const assignments = await prisma.eventStaff.findMany({
+    where: { userId, status: 'ACTIVE' },
+    include: {
+      event: { select: { id: true, title: true, startTime: true, endTime: true, location: true, status: true } },
+    },
+    orderBy: { event: { startTime: 'asc' } },
+  });
+
+  return assignments.map((assignment) => ({
+    staffId: assignment.id,
+    gates: storedGates(assignment.gates),
+    acceptedAt: assignment.acceptedAt,
+    event: assignment.event,
+  }));
+};
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+vi.mock('../../lib/prisma', () => ({ prisma: {} }));
+vi.mock('../flashsales/flashsales.service', () => ({ redeemFlashSale: vi.fn() }));
+
+import { priceCart, priceAndRedeem } from './pricing.service';
+import { redeemFlashSale } from '../flashsales/flashsales.service';
+
+const EVENT_ID = 'event-1';
+
+const ticket = (overrides: Record<string, unknown> = {}) => ({
+  id: 'regular',
+  name: 'Regular',
+  category: 'REGULAR',
+  price: 1000,
+  eventId: EVENT_ID,
+  groupDiscountEnabled: false,
+  groupMinSize: null,
+  groupMaxSize: null,
+  groupDiscountPercent: null,
+  ...overrides,
+});
+
+const sale = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sale-1',
+  name: 'Early bird',
+  promoCode: null,
+  discountPercent: 10,
+  discountAmount: null,
+  ticketCategories: [],
+  maxRedemptions: null,
+  currentRedemptions: 0,
+  ...overrides,
+});
+
+const fakeDb = (tickets: unknown[], sales: unknown[] = [], promoSale: unknown = null) =>
+  ({
+    ticket: { findMany: vi.fn().mockResolvedValue(tickets) },
+    flashSale: {
+      findMany: vi.fn().mockResolvedValue(sales),
+      findFirst: vi.fn().mockResolvedValue(promoSale),
+    },
+  }) as unknown as Prisma.TransactionClient;
+
+describe('priceCart', () => {
+  it('prices a cart at face value when nothing applies', async () => {
+    const pricing = await priceCart(fakeDb([ticket()]), [{ ticketId: 'regular', quantity: 2 }]);
+
+    expect(pricing).toMatchObject({ eventId: EVENT_ID, subtotal: 2000, discountAmount: 0, totalAmount: 2000, flashSale: null });
+    expect(pricing.lines[0]?.discount).toBeNull();
+  });
+
+  it('applies the public flash sale that saves the most', async () => {
+    const db = fakeDb([ticket()], [sale({ id: 'small', discountPercent: 10 }), sale({ id: 'big', discountPercent: 25 })]);
+
+    const pricing = await priceCart(db, [{ ticketId: 'regular', quantity: 2 }]);
+
+    expect(pricing.totalAmount).toBe(1500);
+    expect(pricing.discountAmount).toBe(500);
+    expect(pricing.flashSale?.id).toBe('big');
+  });
+
+  it('skips sold-out sales', async () => {
+    const db = fakeDb([ticket()], [sale({ discountPercent: 50, maxRedemptions: 5, currentRedemptions: 5 })]);
+
+    const pricing = await priceCart(db, [{ ticketId: 'regular', quantity: 1 }]);
+
+    expect(pricing.totalAmount).toBe(1000);
+    expect(pricing.flashSale).toBeNull();
+  });
+
+  it('caps a fixed discount at the ticket price and prefers it over the percentage', async () => {
+    const db = fakeDb([ticket({ price: 300 })], [sale({ discountPercent: 10, discountAmount: 500 })]);
+
+    const pricing = await priceCart(db, [{ ticketId: 'regular', quantity: 1 }]);
+
+    expect(pricing.lines[0]?.effectiveUnitPrice).toBe(0);
+    expect(pricing.totalAmount).toBe(0);
+  });
+
+  it('only discounts the ticket tiers a sale covers', async () => {
+    const db = fakeDb(
+      [ticket(), ticket({ id: 'vip', name: 'VIP', category: 'VIP', price: 5000 })],
+      [sale({ discountPercent: 20, ticketCategories: ['VIP'] })]
+    );
+
+    const pricing = await priceCart(db, [
+      { ticketId: 'regular', quantity: 1 },
+      { ticketId: 'vip', quantity: 1 },
+    ]);
+
+    expect(pricing.lines.find((l) => l.ticketId === 'regular')?.discount).toBeNull();
+    expect(pricing.lines.find((l) => l.ticketId === 'vip')?.total).toBe(4000);
+    expect(pricing.totalAmount).toBe(5000);
+  });
+
+  it('gives the group discount only inside the group size range, without stacking it on a sale', async () => {
+    const groupTicket = ticket({ groupDiscountEnabled: true, groupMinSize: 4, groupMaxSize: 10, groupDiscountPercent: 15 });
+    const db = () => fakeDb([groupTicket], [sale({ discountPercent: 10 })]);
+
+    const tooFew = await priceCart(db(), [{ ticketId: 'regular', quantity: 3 }]);
+    const group = await priceCart(db(), [{ ticketId: 'regular', quantity: 4 }]);
+    const tooMany = await priceCart(db(), [{ ticketId: 'regular', quantity: 11 }]);
+
+    expect(tooFew.lines[0]?.discount?.type).toBe('FLASH_SALE');
+    expect(group.lines[0]?.discount?.type).toBe('GROUP');
+    expect(group.totalAmount).toBe(3400);
+    expect(group.flashSale).toBeNull();
+    expect(tooMany.lines[0]?.discount?.type).toBe('FLASH_SALE');
+  });
+
+  it('rounds discounts to the cent', async () => {
+    const db = fakeDb([ticket({ price: 999.99 })], [sale({ discountPercent: 33 })]);
+
+    const pricing = await priceCart(db, [{ ticketId: 'regular', quantity: 3 }]);
+
+    expect(pricing.lines[0]?.effectiveUnitPrice).toBe(669.99);
+    expect(pricing.totalAmount).toBe(2009.97);
+  });
+
+  it('rejects an unknown promo code and one that does not cover the cart', async () => {
+    await expect(
+      priceCart(fakeDb([ticket()]), [{ ticketId: 'regular', quantity: 1 }], { promoCode: 'NOPE' })
+    ).rejects.toThrow('Invalid or expired promo code');
+
+    const vipOnly = sale({ promoCode: 'VIPONLY', ticketCategories: ['VIP'] });
+    await expect(
+      priceCart(fakeDb([ticket()], [], vipOnly), [{ ticketId: 'regular', quantity: 1 }], { promoCode: 'VIPONLY' })
+    ).rejects.toThrow('This promo code does not apply to the selected tickets');
+  });
+
+  it('labels a promo code discount with the code', async () => {
+    const promo = sale({ promoCode: 'SAVE10' });
+
+    const pricing = await priceCart(fakeDb([ticket()], [], promo), [{ ticketId: 'regular', quantity: 1 }], {
+      promoCode: 'SAVE10',
+    });
+
+    expect(pricing.lines[0]?.discount).toMatchObject({ type: 'PROMO_CODE', label: 'Promo code SAVE10' });
+    expect(pricing.totalAmount).toBe(900);
+  });
+
+  it('refuses carts that mix events or name unknown tickets', async () => {
+    await expect(
+      priceCart(fakeDb([ticket(), ticket({ id: 'other', eventId: 'event-2' })]), [
+        { ticketId: 'regular', quantity: 1 },
+        { ticketId: 'other', quantity: 1 },
+      ])
+    ).rejects.toThrow('All tickets in an order must be for the same event');
+
+    await expect(priceCart(fakeDb([]), [{ ticketId: 'missing', quantity: 1 }])).rejects.toThrow('Ticket not found');
+  });
+});
+
+describe('priceAndRedeem', () => {
+  beforeEach(() => {
+    vi.mocked(redeemFlashSale).mockReset();
+  });
+
+  it('re-prices without an automatic sale that sold out during checkout', async () => {
+    vi.mocked(redeemFlashSale).mockResolvedValue(false as never);
+    const db = fakeDb([ticket()], [sale({ discountPercent: 50 })]);
+
+    const pricing = await priceAndRedeem(db, [{ ticketId: 'regular', quantity: 1 }]);
+
+    expect(pricing.totalAmount).toBe(1000);
+    expect(pricing.flashSale).toBeNull();
+  });
+
+  it('fails when an entered promo code sold out during checkout', async () => {
+    vi.mocked(redeemFlashSale).mockResolvedValue(false as never);
+    const db = fakeDb([ticket()], [], sale({ promoCode: 'SAVE10' }));
+
+    await expect(priceAndRedeem(db, [{ ticketId: 'regular', quantity: 1 }], 'SAVE10')).rejects.toThrow(
+      'Promo code has reached its maximum usage limit'
+    );
+  });
+});
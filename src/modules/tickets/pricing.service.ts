@@ -0,0 +1,304 @@
+// Checkout pricing engine – flash sales, promo codes and group discounts
+import { Prisma, TicketCategory } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { redeemFlashSale } from '../flashsales/flashsales.service';
+
+type Db = Prisma.TransactionClient;
+
+export type DiscountType = 'FLASH_SALE' | 'PROMO_CODE' | 'GROUP';
+
+export interface AppliedDiscount {
+  type: DiscountType;
+  label: string;
+  flashSaleId?: string;
+  percent?: number;
+  amountPerTicket: number;
+  amount: number;
+}
+
+export interface PricedLine {
+  ticketId: string;
+  ticketName: string;
+  category: TicketCategory;
+  quantity: number;
+  unitPrice: number;
+  effectiveUnitPrice: number;
+  subtotal: number;
+  discount: AppliedDiscount | null;
+  total: number;
+}
+
+export interface CartPricing {
+  eventId: string;
+  lines: PricedLine[];
+  subtotal: number;
+  discountAmount: number;
+  totalAmount: number;
+  flashSale: { id: string; name: string; promoCode: string | null } | null;
+}
+
+interface PricingTicket {
+  id: string;
+  name: string;
+  category: TicketCategory;
+  price: number;
+  eventId: string;
+  groupDiscountEnabled: boolean;
+  groupMinSize: number | null;
+  groupMaxSize: number | null;
+  groupDiscountPercent: number | null;
+}
+
+interface PricingSale {
+  id: string;
+  name: string;
+  promoCode: string | null;
+  discountPercent: number;
+  discountAmount: number | null;
+  ticketCategories: Prisma.JsonValue;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// A fixed discountAmount takes precedence over discountPercent; both are per ticket
+const saleDiscountPerTicket = (sale: PricingSale, ticket: PricingTicket) => {
+  const categories = (sale.ticketCategories as TicketCategory[] | null) || [];
+  if (categories.length > 0 && !categories.includes(ticket.category)) {
+    return null;
+  }
+
+  if (sale.discountAmount && sale.discountAmount > 0) {
+    return { amountPerTicket: Math.min(sale.discountAmount, ticket.price), percent: undefined };
+  }
+
+  const percent = Math.min(Math.max(sale.discountPercent, 0), 100);
+  return { amountPerTicket: ticket.price * (percent / 100), percent };
+};
+
+const groupDiscountPerTicket = (ticket: PricingTicket, quantity: number) => {
+  if (!ticket.groupDiscountEnabled || !ticket.groupDiscountPercent) {
+    return null;
+  }
+
+  if (quantity < (ticket.groupMinSize ?? 1)) {
+    return null;
+  }
+
+  if (ticket.groupMaxSize && quantity > ticket.groupMaxSize) {
+    return null;
+  }
+
+  const percent = Math.min(ticket.groupDiscountPercent, 100);
+  return { amountPerTicket: ticket.price * (percent / 100), percent };
+};
+
+// Price each line with the single best discount available to it (discounts don't stack)
+const priceLines = (
+  tickets: Map<string, PricingTicket>,
+  items: Array<{ ticketId: string; quantity: number }>,
+  sale: PricingSale | null
+) => {
+  return items.map((item): PricedLine => {
+    const ticket = tickets.get(item.ticketId)!;
+    const candidates: AppliedDiscount[] = [];
+
+    const group = groupDiscountPerTicket(ticket, item.quantity);
+    if (group) {
+      candidates.push({
+        type: 'GROUP',
+        label: `Group discount (${item.quantity} tickets)`,
+        percent: group.percent,
+        amountPerTicket: group.amountPerTicket,
+        amount: 0,
+      });
+    }
+
+    const saleDiscount = sale ? saleDiscountPerTicket(sale, ticket) : null;
+    if (sale && saleDiscount) {
+      candidates.push({
+        type: sale.promoCode ? 'PROMO_CODE' : 'FLASH_SALE',
+        label: sale.promoCode ? `Promo code ${sale.promoCode}` : sale.name,
+        flashSaleId: sale.id,
+        percent: saleDiscount.percent,
+        amountPerTicket: saleDiscount.amountPerTicket,
+        amount: 0,
+      });
+    }
+
+    const best = candidates.sort((a, b) => b.amountPerTicket - a.amountPerTicket)[0];
+    const amountPerTicket = best ? roundMoney(best.amountPerTicket) : 0;
+    const effectiveUnitPrice = roundMoney(ticket.price - amountPerTicket);
+    const subtotal = roundMoney(ticket.price * item.quantity);
+    const total = roundMoney(effectiveUnitPrice * item.quantity);
+
+    return {
+      ticketId: ticket.id,
+      ticketName: ticket.name,
+      category: ticket.category,
+      quantity: item.quantity,
+      unitPrice: ticket.price,
+      effectiveUnitPrice,
+      subtotal,
+      discount: best && amountPerTicket > 0 ? { ...best, amountPerTicket, amount: roundMoney(subtotal - total) } : null,
+      total,
+    };
+  });
+};
+
+const summarize = (eventId: string, lines: PricedLine[], sale: PricingSale | null): CartPricing => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.subtotal, 0));
+  const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+  const saleUsed = sale && lines.some((line) => line.discount?.flashSaleId === sale.id);
+
+  return {
+    eventId,
+    lines,
+    subtotal,
+    discountAmount: roundMoney(subtotal - totalAmount),
+    totalAmount,
+    flashSale: saleUsed ? { id: sale.id, name: sale.name, promoCode: sale.promoCode } : null,
+  };
+};
+
+/**
+ * Price a cart for one event.
+ * With a promo code, that code's sale is applied (and must be valid).
+ * Without one, the best active public flash sale is applied automatically
+ * unless `allowAutoSales` is false.
+ */
+export const priceCart = async (
+  db: Db,
+  items: Array<{ ticketId: string; quantity: number }>,
+  options: { promoCode?: string; allowAutoSales?: boolean } = {}
+): Promise<CartPricing> => {
+  const ticketRows = await db.ticket.findMany({
+    where: { id: { in: items.map((item) => item.ticketId) } },
+    select: {
+      id: true,
+      name: true,
+      category: true,
+      price: true,
+      eventId: true,
+      groupDiscountEnabled: true,
+      groupMinSize: true,
+      groupMaxSize: true,
+      groupDiscountPercent: true,
+    },
+  });
+
+  const tickets = new Map(ticketRows.map((t) => [t.id, t]));
+  for (const item of items) {
+    if (!tickets.has(item.ticketId)) {
+      throw new Error('Ticket not found');
+    }
+  }
+
+  const eventIds = new Set(ticketRows.map((t) => t.eventId));
+  if (eventIds.size !== 1) {
+    throw new Error('All tickets in an order must be for the same event');
+  }
+  const eventId = ticketRows[0]!.eventId;
+
+  const now = new Date();
+  const saleSelect = {
+    id: true,
+    name: true,
+    promoCode: true,
+    discountPercent: true,
+    discountAmount: true,
+    ticketCategories: true,
+    maxRedemptions: true,
+    currentRedemptions: true,
+  } as const;
+
+  if (options.promoCode) {
+    const sale = await db.flashSale.findFirst({
+      where: {
+        eventId,
+        promoCode: options.promoCode,
+        isActive: true,
+        startTime: { lte: now },
+        endTime: { gte: now },
+      },
+      select: saleSelect,
+    });
+
+    if (!sale) {
+      throw new Error('Invalid or expired promo code');
+    }
+
+    if (sale.maxRedemptions !== null && sale.currentRedemptions >= sale.maxRedemptions) {
+      throw new Error('Promo code has reached its maximum usage limit');
+    }
+
+    if (!ticketRows.some((ticket) => saleDiscountPerTicket(sale, ticket))) {
+      throw new Error('This promo code does not apply to the selected tickets');
+    }
+
+    // If a group discount beats the code on every line, the code simply isn't used
+    return summarize(eventId, priceLines(tickets, items, sale), sale);
+  }
+
+  const noSale = summarize(eventId, priceLines(tickets, items, null), null);
+  if (options.allowAutoSales === false) {
+    return noSale;
+  }
+
+  const sales = await db.flashSale.findMany({
+    where: {
+      eventId,
+      promoCode: null,
+      isActive: true,
+      startTime: { lte: now },
+      endTime: { gte: now },
+    },
+    select: saleSelect,
+  });
+
+  // Pick whichever public sale saves the buyer the most
+  let best = noSale;
+  for (const sale of sales) {
+    if (sale.maxRedemptions !== null && sale.currentRedemptions >= sale.maxRedemptions) continue;
+    const pricing = summarize(eventId, priceLines(tickets, items, sale), sale);
+    if (pricing.totalAmount < best.totalAmount) {
+      best = pricing;
+    }
+  }
+
+  return best;
+};
+
+// Public quote for a cart (no inventory is held and no redemption is used)
+export const quoteCart = async (
+  items: Array<{ ticketId: string; quantity: number }>,
+  promoCode?: string
+) => {
+  return priceCart(prisma, items, { promoCode });
+};
+
+/**
+ * Price a cart and lock in its flash sale redemption (runs inside the checkout transaction).
+ * If an automatic sale sells out in the meantime the cart is re-priced without it;
+ * an explicitly entered promo code that sold out is an error.
+ */
+export const priceAndRedeem = async (
+  db: Db,
+  items: Array<{ ticketId: string; quantity: number }>,
+  promoCode?: string
+) => {
+  const pricing = await priceCart(db, items, { promoCode });
+
+  if (!pricing.flashSale) {
+    return pricing;
+  }
+
+  if (await redeemFlashSale(pricing.flashSale.id, db)) {
+    return pricing;
+  }
+
+  if (promoCode) {
+    throw new Error('Promo code has reached its maximum usage limit');
+  }
+
+  return priceCart(db, items, { allowAutoSales: false });
+};
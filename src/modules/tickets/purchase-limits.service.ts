@@ -0,0 +1,234 @@
+// Purchase limits and anti-scalping checks – per-event caps across orders, and burst alerts for admins
+import { Prisma, OrderStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { redis } from '../../lib/redis';
+import { createSystemAlert } from '../alerts/alerts.service';
+import { normalizeMsisdn } from '../payments/providers';
+
+type Tx = Prisma.TransactionClient;
+
+// Who is buying, as seen by the checkout routes
+export interface BuyerContext {
+  queueToken?: string;
+  ipAddress?: string;
+  deviceId?: string;
+}
+
+// Orders that count towards a cap. Partially refunded orders still count in full.
+const COUNTED_ORDER_STATUSES: OrderStatus[] = ['PENDING', 'PAID'];
+
+// Burst heuristics - orders from one IP or device within the window
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+const IP_BURST_ORDERS = 10;
+const IP_BURST_ACCOUNTS = 4;
+const DEVICE_BURST_ORDERS = 6;
+const DEVICE_BURST_ACCOUNTS = 3;
+// Accounts paying for one event from the same M-Pesa number before admins are told
+const SHARED_PAYMENT_ACCOUNT_USERS = 3;
+
+const toMsisdn = (phoneNumber: string | null | undefined) => {
+  if (!phoneNumber) return null;
+  try {
+    return normalizeMsisdn(phoneNumber);
+  } catch {
+    return null;
+  }
+};
+
+// The ways a Kenyan number may have been typed into a profile
+const phoneVariants = (msisdns: string[]) =>
+  msisdns.flatMap((msisdn) => [msisdn, `+${msisdn}`, `0${msisdn.slice(3)}`]);
+
+/**
+ * The buyer plus every account linked to them by a phone number: the same
+ * number on the profile, or an M-Pesa number either account has paid from.
+ */
+const getLinkedAccountIds = async (tx: Tx, userId: string) => {
+  const [user, payments] = await Promise.all([
+    tx.user.findUnique({ where: { id: userId }, select: { phoneNumber: true } }),
+    tx.transaction.findMany({
+      where: { order: { userId }, phoneNumber: { not: null } },
+      select: { phoneNumber: true },
+      distinct: ['phoneNumber'],
+    }),
+  ]);
+
+  const msisdns = new Set(payments.map((payment) => payment.phoneNumber!));
+  const profileMsisdn = toMsisdn(user?.phoneNumber);
+  if (profileMsisdn) msisdns.add(profileMsisdn);
+
+  if (msisdns.size === 0) {
+    return [userId];
+  }
+
+  const numbers = [...msisdns];
+  const [byProfile, byPayment] = await Promise.all([
+    tx.user.findMany({ where: { phoneNumber: { in: phoneVariants(numbers) } }, select: { id: true } }),
+    tx.order.findMany({
+      where: { transaction: { phoneNumber: { in: numbers } } },
+      select: { userId: true },
+      distinct: ['userId'],
+    }),
+  ]);
+
+  return [...new Set([userId, ...byProfile.map((u) => u.id), ...byPayment.map((o) => o.userId)])];
+};
+
+const sumOrderedTickets = async (tx: Tx, where: Prisma.OrderWhereInput) => {
+  const result = await tx.orderItem.aggregate({
+    where: { order: { ...where, status: { in: COUNTED_ORDER_STATUSES } } },
+    _sum: { quantity: true },
+  });
+  return result._sum.quantity ?? 0;
+};
+
+// One alert per subject per window - a burst shouldn't bury the admin dashboard.
+// Never throws: alerting must not hold up a purchase.
+const raiseOnce = async (key: string, raise: () => Promise<unknown>) => {
+  try {
+    const first = await redis.set(key, '1', { nx: true, ex: Math.ceil(BURST_WINDOW_MS / 1000) });
+    if (first) {
+      await raise();
+    }
+  } catch (error) {
+    console.error(`[Anti-scalping] Failed to raise alert ${key}:`, error);
+  }
+};
+
+/**
+ * Per-event cap across all of a buyer's orders - and those of accounts sharing
+ * their phone number - checked before a new order is created
+ * (runs inside the caller's transaction).
+ */
+export const assertPurchaseLimits = async (tx: Tx, userId: string, eventId: string, quantity: number) => {
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: { maxTicketsPerUser: true },
+  });
+
+  if (!event?.maxTicketsPerUser) {
+    return;
+  }
+
+  const accountIds = await getLinkedAccountIds(tx, userId);
+  const alreadyOrdered = await sumOrderedTickets(tx, { eventId, userId: { in: accountIds } });
+
+  if (alreadyOrdered + quantity > event.maxTicketsPerUser) {
+    const remaining = Math.max(event.maxTicketsPerUser - alreadyOrdered, 0);
+    const linked = accountIds.length > 1 ? ' (including accounts sharing your phone number)' : '';
+    throw new Error(
+      `Purchase limit reached: at most ${event.maxTicketsPerUser} ticket(s) per person for this event. ` +
+      `You have ${alreadyOrdered} already${linked}, so you can buy ${remaining} more.`
+    );
+  }
+};
+
+/**
+ * The same cap keyed on the M-Pesa number paying for the order, so one wallet
+ * can't fund many accounts. Flags numbers shared by several accounts.
+ */
+export const assertPaymentAccountLimit = async (
+  order: { id: string; userId: string; eventId: string },
+  msisdn: string
+) => {
+  const event = await prisma.event.findUnique({
+    where: { id: order.eventId },
+    select: { title: true, maxTicketsPerUser: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  const paidFromNumber: Prisma.OrderWhereInput = {
+    eventId: order.eventId,
+    id: { not: order.id },
+    transaction: { phoneNumber: msisdn, status: { in: ['PENDING', 'COMPLETED'] } },
+  };
+
+  const payers = await prisma.order.findMany({
+    where: { ...paidFromNumber, status: { in: COUNTED_ORDER_STATUSES } },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+  const accounts = new Set([order.userId, ...payers.map((payer) => payer.userId)]);
+
+  if (accounts.size >= SHARED_PAYMENT_ACCOUNT_USERS) {
+    await raiseOnce(`antiscalp:alerted:msisdn:${order.eventId}:${msisdn}`, () =>
+      createSystemAlert(
+        'security',
+        'medium',
+        'Payment account shared by several buyers',
+        `M-Pesa number ***${msisdn.slice(-4)} is paying for "${event.title}" orders from ${accounts.size} accounts.`,
+        { eventId: order.eventId, orderId: order.id, msisdn, userIds: [...accounts] }
+      )
+    );
+  }
+
+  if (!event.maxTicketsPerUser) {
+    return;
+  }
+
+  const [alreadyPaid, thisOrder] = await Promise.all([
+    sumOrderedTickets(prisma, paidFromNumber),
+    prisma.orderItem.aggregate({ where: { orderId: order.id }, _sum: { quantity: true } }),
+  ]);
+
+  if (alreadyPaid + (thisOrder._sum.quantity ?? 0) > event.maxTicketsPerUser) {
+    throw new Error(
+      `Purchase limit reached: this M-Pesa number has already paid for ${alreadyPaid} ticket(s) ` +
+      `for this event (limit ${event.maxTicketsPerUser} per person). Pay with your own number.`
+    );
+  }
+};
+
+const checkBurst = async (
+  order: { id: string; eventId: string },
+  field: 'ipAddress' | 'deviceId',
+  value: string,
+  limits: { orders: number; accounts: number }
+) => {
+  const recent = await prisma.order.findMany({
+    where: { [field]: value, createdAt: { gte: new Date(Date.now() - BURST_WINDOW_MS) } },
+    select: { id: true, userId: true, eventId: true },
+  });
+
+  const accounts = new Set(recent.map((o) => o.userId));
+  if (recent.length < limits.orders && accounts.size < limits.accounts) {
+    return;
+  }
+
+  const label = field === 'ipAddress' ? 'IP address' : 'device';
+  await raiseOnce(`antiscalp:alerted:${field}:${value}`, () =>
+    createSystemAlert(
+      'security',
+      accounts.size >= limits.accounts ? 'high' : 'medium',
+      `Purchase burst from one ${label}`,
+      `${recent.length} order(s) from ${accounts.size} account(s) in the last ${BURST_WINDOW_MS / 60000} minutes from ${label} ${value}.`,
+      {
+        [field]: value,
+        orderId: order.id,
+        eventIds: [...new Set(recent.map((o) => o.eventId))],
+        orderIds: recent.map((o) => o.id),
+        userIds: [...accounts],
+      }
+    )
+  );
+};
+
+/**
+ * Flag bursts of orders from one IP or device into the Alert table for admin review.
+ * Heuristic only - never blocks the purchase and never throws.
+ */
+export const flagPurchaseBurst = async (order: { id: string; eventId: string }, buyer: BuyerContext) => {
+  try {
+    if (buyer.ipAddress) {
+      await checkBurst(order, 'ipAddress', buyer.ipAddress, { orders: IP_BURST_ORDERS, accounts: IP_BURST_ACCOUNTS });
+    }
+    if (buyer.deviceId) {
+      await checkBurst(order, 'deviceId', buyer.deviceId, { orders: DEVICE_BURST_ORDERS, accounts: DEVICE_BURST_ACCOUNTS });
+    }
+  } catch (error) {
+    console.error(`[Anti-scalping] Failed to check order ${order.id} for purchase bursts:`, error);
+  }
+};
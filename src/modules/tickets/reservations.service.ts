@@ -0,0 +1,455 @@
+// Ticket reservations – time-boxed inventory holds so abandoned checkouts don't leak inventory
+import { Prisma, TicketStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { releaseFlashSaleRedemption } from '../flashsales/flashsales.service';
+import { assertQueueAdmission } from '../waitingroom/waitingroom.service';
+
+const RESERVATION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESERVATION_EXTENSION_MS = 10 * 60 * 1000; // One extension of another 10 minutes
+// Don't expire a hold while its M-Pesa prompt may still be on the customer's phone
+export const PAYMENT_GRACE_MS = 2 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+type Tx = Prisma.TransactionClient;
+
+// Keep Ticket.status in step with inventory: AVAILABLE while seats remain, RESERVED while
+// the last seats are held by checkouts in progress, SOLD once they are gone for good
+export const syncTicketStatus = async (tx: Tx, ticketId: string) => {
+  const ticket = await tx.ticket.findUnique({
+    where: { id: ticketId },
+    select: { availableQuantity: true },
+  });
+
+  if (!ticket) return;
+
+  let status: TicketStatus = 'AVAILABLE';
+  if (ticket.availableQuantity <= 0) {
+    const activeHolds = await tx.ticketReservation.count({
+      where: { ticketId, status: 'ACTIVE' },
+    });
+    status = activeHolds > 0 ? 'RESERVED' : 'SOLD';
+  }
+
+  await tx.ticket.update({ where: { id: ticketId }, data: { status } });
+};
+
+// Validate the tier's sale rules, take inventory off sale and record the hold
+// (runs inside the caller's transaction)
+export const holdTickets = async (tx: Tx, userId: string, ticketId: string, quantity: number) => {
+  const ticket = await tx.ticket.findUnique({
+    where: { id: ticketId },
+    select: {
+      name: true,
+      maxPerPurchase: true,
+      availableQuantity: true,
+      salesStartTime: true,
+      salesEndTime: true,
+      event: { select: { status: true } },
+    },
+  });
+
+  if (!ticket) {
+    throw new Error('Ticket not found');
+  }
+
+  if (ticket.event.status === 'DRAFT' || ticket.event.status === 'CANCELLED' || ticket.event.status === 'COMPLETED') {
+    throw new Error('Tickets for this event are not on sale');
+  }
+
+  const now = new Date();
+  if (ticket.salesStartTime && now < ticket.salesStartTime) {
+    throw new Error(`Sales for ${ticket.name} have not started yet`);
+  }
+
+  if (ticket.salesEndTime && now > ticket.salesEndTime) {
+    throw new Error(`Sales for ${ticket.name} have ended`);
+  }
+
+  if (quantity > ticket.maxPerPurchase) {
+    throw new Error(`You can buy at most ${ticket.maxPerPurchase} ${ticket.name} ticket(s) per purchase`);
+  }
+
+  // Seats that come back after a sell-out go to the waitlist first - but only while someone on it
+  // can take them (or an offer is still out), so a request too big for the free seats doesn't strand them
+  const waiting = await tx.waitlistEntry.count({
+    where: {
+      ticketId,
+      OR: [{ status: 'WAITING', quantity: { lte: ticket.availableQuantity } }, { status: 'OFFERED' }],
+    },
+  });
+  if (waiting > 0) {
+    throw new Error(`Insufficient tickets available. ${ticket.name} is sold out - join the waitlist to be offered any returned tickets.`);
+  }
+
+  // Decrement atomically - the guard fails if another buyer took the last seats
+  const { count } = await tx.ticket.updateMany({
+    where: { id: ticketId, availableQuantity: { gte: quantity } },
+    data: { availableQuantity: { decrement: quantity } },
+  });
+
+  if (count === 0) {
+    throw new Error(`Insufficient tickets available. Join the waitlist to be offered ${ticket.name} tickets if any are returned.`);
+  }
+
+  const reservation = await tx.ticketReservation.create({
+    data: {
+      ticketId,
+      userId,
+      quantity,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+    },
+  });
+
+  await syncTicketStatus(tx, ticketId);
+
+  return reservation;
+};
+
+// Return a hold's inventory. Only the call that moves it out of ACTIVE restocks.
+export const restockReservation = async (
+  tx: Tx,
+  reservation: { id: string; ticketId: string; quantity: number },
+  status: 'RELEASED' | 'EXPIRED'
+) => {
+  const { count } = await tx.ticketReservation.updateMany({
+    where: { id: reservation.id, status: 'ACTIVE' },
+    data: { status },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await tx.ticket.update({
+    where: { id: reservation.ticketId },
+    data: { availableQuantity: { increment: reservation.quantity } },
+  });
+
+  await syncTicketStatus(tx, reservation.ticketId);
+
+  return true;
+};
+
+// Release every active hold on an order. Returns the number of holds restocked.
+export const releaseOrderReservations = async (
+  tx: Tx,
+  orderId: string,
+  status: 'RELEASED' | 'EXPIRED'
+) => {
+  const reservations = await tx.ticketReservation.findMany({
+    where: { orderId, status: 'ACTIVE' },
+    select: { id: true, ticketId: true, quantity: true },
+  });
+
+  let released = 0;
+  for (const reservation of reservations) {
+    if (await restockReservation(tx, reservation, status)) {
+      released++;
+    }
+  }
+
+  return released;
+};
+
+// Cancel a PENDING order and give back everything it was holding: reserved seats and
+// any flash sale redemption. Only the call that moves the order out of PENDING has any effect.
+export const cancelUnpaidOrder = async (
+  tx: Tx,
+  orderId: string,
+  holdStatus: 'RELEASED' | 'EXPIRED'
+) => {
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  });
+
+  if (count === 0) {
+    return { cancelled: false, released: 0 };
+  }
+
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      flashSaleId: true,
+      resaleListing: { select: { id: true } },
+      _count: { select: { reservations: true } },
+    },
+  });
+
+  if (order.flashSaleId) {
+    await releaseFlashSaleRedemption(order.flashSaleId, tx);
+  }
+
+  // A resale order holds someone else's ticket, not inventory - put the listing back on the market
+  if (order.resaleListing) {
+    const { count: relisted } = await tx.resaleListing.updateMany({
+      where: { id: order.resaleListing.id, orderId, status: 'RESERVED' },
+      data: { status: 'ACTIVE', buyerId: null, orderId: null, reservedUntil: null },
+    });
+    return { cancelled: true, released: relisted };
+  }
+
+  if (order._count.reservations > 0) {
+    return { cancelled: true, released: await releaseOrderReservations(tx, orderId, holdStatus) };
+  }
+
+  // Orders placed before reservations existed hold inventory directly
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    select: { ticketId: true, quantity: true },
+  });
+
+  for (const item of items) {
+    await tx.ticket.update({
+      where: { id: item.ticketId },
+      data: { availableQuantity: { increment: item.quantity } },
+    });
+    await syncTicketStatus(tx, item.ticketId);
+  }
+
+  return { cancelled: true, released: items.length };
+};
+
+// Mark an order's holds as converted into sold tickets once it is paid
+export const convertOrderReservations = async (tx: Tx, orderId: string) => {
+  const reservations = await tx.ticketReservation.findMany({
+    where: { orderId, status: 'ACTIVE' },
+    select: { ticketId: true },
+  });
+
+  await tx.ticketReservation.updateMany({
+    where: { orderId, status: 'ACTIVE' },
+    data: { status: 'CONVERTED' },
+  });
+
+  for (const ticketId of new Set(reservations.map((r) => r.ticketId))) {
+    await syncTicketStatus(tx, ticketId);
+  }
+};
+
+// Throw if any hold on an unpaid order has lapsed (checked before starting a payment)
+export const assertOrderReservationsActive = async (orderId: string) => {
+  const lapsed = await prisma.ticketReservation.count({
+    where: {
+      orderId,
+      OR: [{ status: { not: 'ACTIVE' } }, { expiresAt: { lte: new Date() } }],
+    },
+  });
+
+  if (lapsed > 0) {
+    throw new Error('Your reservation has expired. Please start a new purchase.');
+  }
+
+  const resale = await prisma.resaleListing.findUnique({
+    where: { orderId },
+    select: { status: true, reservedUntil: true },
+  });
+
+  if (resale && (resale.status !== 'RESERVED' || !resale.reservedUntil || resale.reservedUntil <= new Date())) {
+    throw new Error('Your hold on this resale ticket has expired. Please start a new purchase.');
+  }
+};
+
+const loadOwnReservation = async (reservationId: string, userId: string) => {
+  const reservation = await prisma.ticketReservation.findUnique({
+    where: { id: reservationId },
+    include: {
+      ticket: { select: { id: true, name: true, price: true, eventId: true } },
+      order: { select: { id: true, status: true, transaction: { select: { status: true } } } },
+    },
+  });
+
+  if (!reservation) {
+    throw new Error('Reservation not found');
+  }
+
+  if (reservation.userId !== userId) {
+    throw new Error('Unauthorized: This is not your reservation');
+  }
+
+  return reservation;
+};
+
+const formatReservation = (reservation: Awaited<ReturnType<typeof loadOwnReservation>>) => ({
+  id: reservation.id,
+  ticketId: reservation.ticketId,
+  ticketName: reservation.ticket.name,
+  eventId: reservation.ticket.eventId,
+  quantity: reservation.quantity,
+  status: reservation.status,
+  orderId: reservation.orderId,
+  expiresAt: reservation.expiresAt,
+  secondsRemaining:
+    reservation.status === 'ACTIVE'
+      ? Math.max(0, Math.floor((reservation.expiresAt.getTime() - Date.now()) / 1000))
+      : 0,
+  canExtend: reservation.status === 'ACTIVE' && !reservation.extendedAt,
+});
+
+// Hold tickets for a user without creating an order yet
+export const createReservation = async (
+  userId: string,
+  ticketId: string,
+  quantity: number,
+  queueToken?: string
+) => {
+  await assertQueueAdmission([ticketId], userId, queueToken);
+
+  const existing = await prisma.ticketReservation.findFirst({
+    where: { userId, ticketId, status: 'ACTIVE', expiresAt: { gt: new Date() } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new Error('You already have an active reservation for this ticket');
+  }
+
+  const reservation = await prisma.$transaction((tx) => holdTickets(tx, userId, ticketId, quantity));
+
+  await logAudit('TICKETS_RESERVED', 'TicketReservation', reservation.id, userId, {
+    ticketId,
+    quantity,
+    expiresAt: reservation.expiresAt,
+  });
+
+  return getReservation(reservation.id, userId);
+};
+
+export const getReservation = async (reservationId: string, userId: string) => {
+  const reservation = await loadOwnReservation(reservationId, userId);
+  return formatReservation(reservation);
+};
+
+// Extend a hold once. Holds checked out together on one order are extended together.
+export const extendReservation = async (reservationId: string, userId: string) => {
+  const reservation = await loadOwnReservation(reservationId, userId);
+
+  if (reservation.status !== 'ACTIVE' || reservation.expiresAt <= new Date()) {
+    throw new Error('Reservation has expired');
+  }
+
+  if (reservation.extendedAt) {
+    throw new Error('Reservation has already been extended');
+  }
+
+  const now = new Date();
+  const { count } = await prisma.ticketReservation.updateMany({
+    where: {
+      ...(reservation.orderId ? { orderId: reservation.orderId } : { id: reservation.id }),
+      status: 'ACTIVE',
+      extendedAt: null,
+      expiresAt: { gt: now },
+    },
+    data: {
+      expiresAt: new Date(reservation.expiresAt.getTime() + RESERVATION_EXTENSION_MS),
+      extendedAt: now,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error('Reservation has already been extended');
+  }
+
+  await logAudit('RESERVATION_EXTENDED', 'TicketReservation', reservation.id, userId, {
+    orderId: reservation.orderId,
+  });
+
+  return getReservation(reservation.id, userId);
+};
+
+// Let the buyer give up a hold early (cancels the unpaid order it belongs to, if any)
+export const releaseReservation = async (reservationId: string, userId: string) => {
+  const reservation = await loadOwnReservation(reservationId, userId);
+
+  if (reservation.status !== 'ACTIVE') {
+    throw new Error(`Cannot release a reservation with status: ${reservation.status}`);
+  }
+
+  if (reservation.order?.transaction?.status === 'PENDING') {
+    throw new Error('A payment is in progress for this reservation');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (reservation.orderId) {
+      await cancelUnpaidOrder(tx, reservation.orderId, 'RELEASED');
+    } else {
+      await restockReservation(tx, reservation, 'RELEASED');
+    }
+  });
+
+  await logAudit('RESERVATION_RELEASED', 'TicketReservation', reservation.id, userId, {
+    orderId: reservation.orderId,
+  });
+
+  return { message: 'Reservation released' };
+};
+
+// Sweep lapsed holds back into inventory (run from the scheduled-task webhook).
+// Unpaid orders attached to an expired hold are cancelled along with it.
+export const releaseExpiredReservations = async () => {
+  const now = new Date();
+  const graceCutoff = new Date(now.getTime() - PAYMENT_GRACE_MS);
+
+  const expired = await prisma.ticketReservation.findMany({
+    where: {
+      status: 'ACTIVE',
+      expiresAt: { lt: now },
+      OR: [
+        { orderId: null },
+        { order: { status: 'PENDING', transaction: { is: null } } },
+        {
+          order: {
+            status: 'PENDING',
+            transaction: {
+              is: { OR: [{ status: { not: 'PENDING' } }, { updatedAt: { lt: graceCutoff } }] },
+            },
+          },
+        },
+      ],
+    },
+    select: { id: true, ticketId: true, quantity: true, orderId: true, userId: true },
+    orderBy: { expiresAt: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const summary = { checked: expired.length, released: 0, ordersCancelled: 0 };
+  const handledOrders = new Set<string>();
+
+  for (const reservation of expired) {
+    if (reservation.orderId && handledOrders.has(reservation.orderId)) {
+      continue;
+    }
+
+    const orderId = reservation.orderId;
+    const result = await prisma.$transaction(async (tx) => {
+      if (!orderId) {
+        return { cancelled: false, released: (await restockReservation(tx, reservation, 'EXPIRED')) ? 1 : 0 };
+      }
+
+      const cancellation = await cancelUnpaidOrder(tx, orderId, 'EXPIRED');
+
+      if (cancellation.cancelled) {
+        // A payment that never reached the gateway can't complete now. A sent M-Pesa prompt stays PENDING -
+        // the customer may still pay it, so reconciliation keeps asking Daraja and a late success raises a refund alert.
+        await tx.transaction.updateMany({
+          where: { orderId, status: 'PENDING', OR: [{ paymentMethod: { not: 'MPESA' } }, { gatewayTxId: null }] },
+          data: { status: 'FAILED', failureReason: 'Reservation expired' },
+        });
+      }
+
+      return cancellation;
+    });
+
+    summary.released += result.released;
+    if (orderId) {
+      handledOrders.add(orderId);
+      if (result.cancelled) {
+        summary.ordersCancelled++;
+        await logAudit('ORDER_CANCELLED', 'Order', orderId, null, { reason: 'Reservation expired' });
+      }
+    }
+  }
+
+  return summary;
+};
@@ -1,19 +1,68 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import {
   purchaseTicketSchema,
+  checkoutCartSchema,
+  checkoutReservationSchema,
+  quoteCartSchema,
+  createReservationSchema,
   refundRequestSchema,
   transferTicketSchema,
+  acceptTransferSchema,
   validateTicketSchema,
+  addTicketCapacitySchema,
 } from './tickets.schema';
 import {
   purchaseTickets,
   getUserTickets,
   getTicketQR,
+  getRotatingTicketCode,
   requestRefund,
-  transferTicket,
   validateTicket,
+  checkoutReservation,
+  checkoutCart,
+  addTicketCapacity,
+  CartItem,
 } from './tickets.service';
+import {
+  createReservation,
+  getReservation,
+  extendReservation,
+  releaseReservation,
+} from './reservations.service';
+import { quoteCart } from './pricing.service';
+import type { BuyerContext } from './purchase-limits.service';
+import {
+  transferTicket,
+  getTransferInvite,
+  acceptTransfer,
+  cancelTransfer,
+  getMyTransfers,
+} from './transfers.service';
 import { requireRole } from '../../middleware/rbac';
+import { getTicketPublicKeys } from '../../lib/ticket-keys';
+import { SIGNED_QR_PREFIX } from '../../utils/qr-code';
+import { QUEUE_TOKEN_HEADER } from '../waitingroom/waitingroom.service';
+
+// Response for every endpoint that creates a pending order
+const formatCheckout = (result: Awaited<ReturnType<typeof checkoutCart>>) => ({
+  message: 'Order created. Complete payment to receive your tickets.',
+  orderId: result.order.id,
+  subtotal: result.pricing.subtotal,
+  discountAmount: result.pricing.discountAmount,
+  totalAmount: result.order.totalAmount,
+  status: result.order.status,
+  flashSale: result.pricing.flashSale,
+  items: result.pricing.lines,
+  reservationIds: result.reservationIds,
+  expiresAt: result.expiresAt,
+});
+
+// Queue token, IP and device for the waiting room and anti-scalping checks
+const getBuyerContext = (request: FastifyRequest): BuyerContext => ({
+  queueToken: request.headers[QUEUE_TOKEN_HEADER] as string | undefined,
+  ipAddress: request.ip,
+  deviceId: request.headers['x-device-id'] as string | undefined,
+});
 
 export default async (fastify: FastifyInstance) => {
   // Purchase tickets (authenticated)
@@ -22,17 +71,143 @@ export default async (fastify: FastifyInstance) => {
     { schema: purchaseTicketSchema, preHandler: [fastify.authenticate] },
     async (request, reply) => {
       try {
-        const body = request.body as { ticketId: string; quantity: number };
-        const { ticketId, quantity } = body;
-        const result = await purchaseTickets(request.user!.id, ticketId, quantity);
-        reply.status(201).send({
-          message: 'Purchase successful',
-          orderId: result.order.id,
-          qrCode: result.qrCode,
-        });
+        const { ticketId, quantity, promoCode } = request.body as {
+          ticketId: string;
+          quantity: number;
+          promoCode?: string;
+        };
+        const result = await purchaseTickets(request.user!.id, ticketId, quantity, promoCode, getBuyerContext(request));
+        reply.status(201).send(formatCheckout(result));
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        reply.status(400).send({ error: errorMessage });
+        const statusCode = errorMessage.startsWith('Waiting room') || errorMessage.startsWith('Verification required') ? 403 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Cart checkout across ticket tiers - one order, one payment (authenticated)
+  fastify.post(
+    '/checkout',
+    { schema: checkoutCartSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { items, promoCode } = request.body as { items: CartItem[]; promoCode?: string };
+        const result = await checkoutCart(request.user!.id, items, promoCode, getBuyerContext(request));
+        reply.status(201).send(formatCheckout(result));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.startsWith('Waiting room') || errorMessage.startsWith('Verification required') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Price a cart with any flash sale, promo code and group discounts (public, nothing is held)
+  fastify.post(
+    '/quote',
+    { schema: quoteCartSchema },
+    async (request, reply) => {
+      try {
+        const { items, promoCode } = request.body as { items: CartItem[]; promoCode?: string };
+        const result = await quoteCart(items, promoCode);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Reserve tickets (authenticated) - holds inventory for 10 minutes
+  fastify.post(
+    '/reservations',
+    { schema: createReservationSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { ticketId, quantity } = request.body as { ticketId: string; quantity: number };
+        const result = await createReservation(request.user!.id, ticketId, quantity, getBuyerContext(request).queueToken);
+        reply.status(201).send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.startsWith('Waiting room') || errorMessage.startsWith('Verification required') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Get a reservation (authenticated)
+  fastify.get(
+    '/reservations/:id',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getReservation(id, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Extend a reservation once (authenticated)
+  fastify.post(
+    '/reservations/:id/extend',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await extendReservation(id, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Check out a reservation into a pending order (authenticated)
+  fastify.post(
+    '/reservations/:id/checkout',
+    { schema: checkoutReservationSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const { promoCode } = (request.body ?? {}) as { promoCode?: string };
+        const result = await checkoutReservation(request.user!.id, id, promoCode, getBuyerContext(request));
+        reply.status(201).send(formatCheckout(result));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') || errorMessage.startsWith('Verification required') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Release a reservation early (authenticated)
+  fastify.delete(
+    '/reservations/:id',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await releaseReservation(id, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
       }
     }
   );
@@ -70,14 +245,37 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
-  // Request refund (authenticated)
+  // Rotating QR code for a single ticket (authenticated, ticket holder only)
+  fastify.get(
+    '/:id/rotating-qr',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getRotatingTicketCode(id, request.user!.id);
+        reply.header('Cache-Control', 'no-store').send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Request a full, per-ticket or partial refund (authenticated)
   fastify.post(
     '/refund',
     { schema: refundRequestSchema, preHandler: [fastify.authenticate] },
     async (request, reply) => {
       try {
-        const { orderId, reason } = request.body as { orderId: string; reason: string };
-        const result = await requestRefund(orderId, request.user!.id, reason);
+        const { orderId, reason, ticketPurchaseIds, amount } = request.body as {
+          orderId: string;
+          reason: string;
+          ticketPurchaseIds?: string[];
+          amount?: number;
+        };
+        const result = await requestRefund(orderId, request.user!.id, reason, { ticketPurchaseIds, amount });
         reply.status(201).send(result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -107,21 +305,139 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
-  // Validate ticket QR (organizer/admin)
+  // Transfers sent, received and pending for the current user (authenticated)
+  fastify.get(
+    '/transfers',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const transfers = await getMyTransfers(request.user!.id);
+        reply.send(transfers);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Preview a transfer invite before signing up (public)
+  fastify.get(
+    '/transfers/invite/:token',
+    async (request, reply) => {
+      try {
+        const { token } = request.params as { token: string };
+        const invite = await getTransferInvite(token);
+        reply.send(invite);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Accept a pending transfer from an invite link (authenticated)
+  fastify.post(
+    '/transfers/accept',
+    { schema: acceptTransferSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { token } = request.body as { token: string };
+        const result = await acceptTransfer(token, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Cancel a pending transfer (authenticated, sender only)
+  fastify.delete(
+    '/transfers/:transferId',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { transferId } = request.params as { transferId: string };
+        const result = await cancelTransfer(transferId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Public keys for verifying ticket QR signatures offline (public, JWK set)
+  fastify.get(
+    '/signing-keys',
+    async (_request, reply) => {
+      try {
+        reply.header('Cache-Control', 'public, max-age=300').send({
+          keys: getTicketPublicKeys(),
+          tokenFormat: `${SIGNED_QR_PREFIX}.<kid>.<base64url payload>.<base64url Ed25519 signature over "${SIGNED_QR_PREFIX}.<kid>.<payload>">`,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Put more tickets on sale for a tier - its waitlist is offered them first (organizer/admin)
+  fastify.post(
+    '/tiers/:ticketId/capacity',
+    { schema: addTicketCapacitySchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { ticketId } = request.params as { ticketId: string };
+        const { quantity } = request.body as { quantity: number };
+        const result = await addTicketCapacity(ticketId, request.user!.id, request.user!.role, quantity);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Validate ticket QR (organizer/admin/assigned staff)
   fastify.post(
     '/validate',
     {
       schema: validateTicketSchema,
-      preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])],
+      preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN', 'STAFF'])],
     },
     async (request, reply) => {
       try {
-        const { qrData } = request.body as { qrData: string };
-        const result = await validateTicket(qrData);
+        const { qrData, eventId, gate, zoneId, direction } = request.body as {
+          qrData: string;
+          eventId: string;
+          gate?: string;
+          zoneId?: string;
+          direction?: 'ENTRY' | 'EXIT';
+        };
+        const result = await validateTicket(qrData, {
+          userId: request.user!.id,
+          role: request.user!.role,
+          eventId,
+          gate,
+          zoneId,
+          direction: direction === 'EXIT' ? 'EXIT' : 'ENTRY',
+        });
         reply.send(result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        reply.status(400).send({ error: errorMessage });
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
       }
     }
   );
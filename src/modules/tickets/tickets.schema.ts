@@ -1,16 +1,60 @@
 import { z } from 'zod';
 
+const promoCodeField = z.string().min(4).max(20).optional();
+
 export const purchaseTicketSchema = z.object({
+  body: z.object({
+    ticketId: z.string().uuid(),
+    quantity: z.number().int().min(1),
+    promoCode: promoCodeField,
+  }),
+});
+
+export const checkoutCartSchema = z.object({
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          ticketId: z.string().uuid(),
+          quantity: z.number().int().min(1),
+        })
+      )
+      .min(1, 'Your cart is empty')
+      .max(20),
+    promoCode: promoCodeField,
+  }),
+});
+
+export const quoteCartSchema = checkoutCartSchema;
+
+export const checkoutReservationSchema = z.object({
+  body: z
+    .object({
+      promoCode: promoCodeField,
+    })
+    .optional(),
+});
+
+export const createReservationSchema = z.object({
   body: z.object({
     ticketId: z.string().uuid(),
     quantity: z.number().int().min(1),
   }),
 });
 
+export const addTicketCapacitySchema = z.object({
+  params: z.object({ ticketId: z.string().uuid() }),
+  body: z.object({
+    quantity: z.number().int().min(1).max(100000),
+  }),
+});
+
 export const refundRequestSchema = z.object({
   body: z.object({
     orderId: z.string().uuid(),
     reason: z.string().min(10, 'Please provide a detailed reason for the refund'),
+    ticketPurchaseIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+    amount: z.number().positive().optional(),
   }),
 });
 
@@ -20,8 +64,21 @@ export const transferTicketSchema = z.object({
   }),
 });
 
+export const acceptTransferSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Transfer token is required'),
+  }),
+});
+
 export const validateTicketSchema = z.object({
   body: z.object({
     qrData: z.string().min(1, 'QR data is required'),
+    // Event the scanner is checking people in to - tickets for any other event are turned away
+    eventId: z.string().uuid(),
+    // Gate the scanner is stationed at (required for staff limited to specific gates)
+    gate: z.string().min(1).max(100).optional(),
+    // Zone scanners (VIP lounge, backstage); leave out at the main gate
+    zoneId: z.string().uuid().optional(),
+    direction: z.enum(['ENTRY', 'EXIT']).default('ENTRY'),
   }),
 });
\ No newline at end of file
@@ -1,11 +1,32 @@
 // Ticket business logic – atomic purchases with Prisma transactions + QR generation
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { logAudit } from '../../lib/audit';
 import { createNotification } from '../notifications/notification.service';
 import crypto from 'crypto';
-import { generateQRCodeData, verifyQRCodeData } from '../../utils/qr-code';
+import {
+  generateQRCodeData,
+  verifyQRCodeData,
+  generateTicketSecret,
+  generateRotatingQRCodeData,
+  parseRotatingQRCodeData,
+  verifyRotatingCode,
+  ROTATING_QR_PERIOD_SECONDS,
+  ROTATING_QR_DIGITS,
+} from '../../utils/qr-code';
 import { computeEventAnalytics } from '../../utils/analytics';
 import { invalidateOrganizerAnalyticsCache } from './analytics.service';
+import { holdTickets, convertOrderReservations, cancelUnpaidOrder, syncTicketStatus } from './reservations.service';
+import { priceAndRedeem, CartPricing } from './pricing.service';
+import { evaluateRefundPolicy, resolveRefundPolicy } from '../refunds/refund-policy.service';
+import { processRefund, OPEN_REFUND_STATUSES } from '../refunds/refunds.service';
+import { hasOpenListing, OPEN_LISTING_STATUSES } from '../resale/resale.service';
+import { assertScanPermission } from '../staff/staff.service';
+import { processTicketWaitlist } from '../waitlist/waitlist.service';
+import { assertQueueAdmission } from '../waitingroom/waitingroom.service';
+import { assertPurchaseLimits, flagPurchaseBurst, BuyerContext } from './purchase-limits.service';
+import { assertVerifiedBuyer } from '../auth/verification.service';
+import { admitTicket, recordRejectedScan, ScanDirection } from '../scanner/zones.service';
 
 /** Generates a human-readable ticket number: MBT-YYYYMMDD-XXXX */
 function generateTicketNumber(eventDate: Date): string {
@@ -14,154 +35,368 @@ function generateTicketNumber(eventDate: Date): string {
   return `MBT-${dateStr}-${random}`;
 }
 
-// Purchase tickets (transaction-safe to prevent oversell)
+export interface CartItem {
+  ticketId: string;
+  quantity: number;
+}
+
+// Snapshot of how an order's total was reached, stored on the order
+const toPricingBreakdown = (pricing: CartPricing) => ({
+  subtotal: pricing.subtotal,
+  discountAmount: pricing.discountAmount,
+  totalAmount: pricing.totalAmount,
+  flashSale: pricing.flashSale,
+  lines: pricing.lines.map((line) => ({
+    ticketId: line.ticketId,
+    ticketName: line.ticketName,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    effectiveUnitPrice: line.effectiveUnitPrice,
+    subtotal: line.subtotal,
+    discount: line.discount,
+    total: line.total,
+  })),
+});
+
+// Price a set of active reservations and create one PENDING order for them
+// (runs inside the caller's transaction)
+const createOrderForReservations = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  reservations: Array<{ id: string; ticketId: string; quantity: number; expiresAt: Date }>,
+  promoCode: string | undefined,
+  buyer: BuyerContext
+) => {
+  const pricing = await priceAndRedeem(
+    tx,
+    reservations.map((r) => ({ ticketId: r.ticketId, quantity: r.quantity })),
+    promoCode
+  );
+
+  // Some organizers only sell to verified accounts
+  await assertVerifiedBuyer(tx, userId, pricing.eventId);
+
+  // Per-person cap across every order for the event
+  await assertPurchaseLimits(tx, userId, pricing.eventId, reservations.reduce((sum, r) => sum + r.quantity, 0));
+
+  const order = await tx.order.create({
+    data: {
+      userId,
+      eventId: pricing.eventId,
+      ipAddress: buyer.ipAddress,
+      deviceId: buyer.deviceId,
+      subtotal: pricing.subtotal,
+      discountAmount: pricing.discountAmount,
+      totalAmount: pricing.totalAmount,
+      pricingBreakdown: toPricingBreakdown(pricing) as unknown as Prisma.InputJsonValue,
+      flashSaleId: pricing.flashSale?.id,
+      status: 'PENDING',
+      // priceAtTime is what the buyer actually pays per ticket (after discounts)
+      items: {
+        create: pricing.lines.map((line) => ({
+          ticketId: line.ticketId,
+          quantity: line.quantity,
+          priceAtTime: line.effectiveUnitPrice,
+        })),
+      },
+    },
+    include: { items: true },
+  });
+
+  // Claim the holds for this order - a concurrent checkout of the same hold rolls back here instead of
+  // leaving a second order that restocks seats it never took when it lapses
+  const { count } = await tx.ticketReservation.updateMany({
+    where: { id: { in: reservations.map((r) => r.id) }, orderId: null, status: 'ACTIVE' },
+    data: { orderId: order.id },
+  });
+
+  if (count !== reservations.length) {
+    throw new Error('Reservation has already been checked out');
+  }
+
+  // The order lapses with its earliest hold
+  const expiresAt = new Date(Math.min(...reservations.map((r) => r.expiresAt.getTime())));
+
+  return { order, pricing, reservationIds: reservations.map((r) => r.id), expiresAt };
+};
+
+// Cart checkout: hold several ticket tiers for one event and create a single
+// PENDING order so the buyer makes one combined payment.
+// TicketPurchases and QR codes are issued by issueOrderTickets once the order is PAID.
+export const checkoutCart = async (
+  userId: string,
+  items: CartItem[],
+  promoCode?: string,
+  buyer: BuyerContext = {}
+) => {
+  if (items.length === 0) {
+    throw new Error('Your cart is empty');
+  }
+
+  if (new Set(items.map((item) => item.ticketId)).size !== items.length) {
+    throw new Error('Each ticket type may only appear once in the cart');
+  }
+
+  // High-demand on-sales only let buyers through the waiting room
+  await assertQueueAdmission(items.map((item) => item.ticketId), userId, buyer.queueToken);
+
+  // Lock tiers in a stable order so concurrent carts can't deadlock each other
+  const sortedItems = [...items].sort((a, b) => a.ticketId.localeCompare(b.ticketId));
+
+  const result = await prisma.$transaction(async (tx) => {
+    const reservations = [];
+    for (const item of sortedItems) {
+      reservations.push(await holdTickets(tx, userId, item.ticketId, item.quantity));
+    }
+    return createOrderForReservations(tx, userId, reservations, promoCode, buyer);
+  });
+
+  await logAudit('ORDER_CREATED', 'Order', result.order.id, userId, {
+    items,
+    totalAmount: result.order.totalAmount,
+    discountAmount: result.order.discountAmount,
+    flashSaleId: result.order.flashSaleId,
+    reservationIds: result.reservationIds,
+  });
+
+  await flagPurchaseBurst(result.order, buyer);
+
+  return result;
+};
+
+// Purchase tickets of a single tier (a one-item cart)
 export const purchaseTickets = async (
   userId: string,
   ticketId: string,
-  quantity: number
+  quantity: number,
+  promoCode?: string,
+  buyer: BuyerContext = {}
+) => {
+  return checkoutCart(userId, [{ ticketId, quantity }], promoCode, buyer);
+};
+
+// Check out tickets held by an existing reservation
+export const checkoutReservation = async (
+  userId: string,
+  reservationId: string,
+  promoCode?: string,
+  buyer: BuyerContext = {}
 ) => {
+  const result = await prisma.$transaction(async (tx) => {
+    const reservation = await tx.ticketReservation.findUnique({ where: { id: reservationId } });
+
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    if (reservation.userId !== userId) {
+      throw new Error('Unauthorized: This is not your reservation');
+    }
+
+    if (reservation.status !== 'ACTIVE' || reservation.expiresAt <= new Date()) {
+      throw new Error('Reservation has expired');
+    }
+
+    if (reservation.orderId) {
+      throw new Error('Reservation has already been checked out');
+    }
+
+    return createOrderForReservations(tx, userId, [reservation], promoCode, buyer);
+  });
+
+  await logAudit('ORDER_CREATED', 'Order', result.order.id, userId, { reservationId });
+
+  await flagPurchaseBurst(result.order, buyer);
+
+  return result;
+};
+
+// Put more tickets on sale for a tier (organizer/admin). People on its waitlist are offered them first.
+export const addTicketCapacity = async (ticketId: string, userId: string, userRole: string, quantity: number) => {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error('Quantity must be a whole number of at least 1');
+  }
+
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    select: { id: true, name: true, eventId: true, event: { select: { organizerId: true, status: true } } },
+  });
+
+  if (!ticket) {
+    throw new Error('Ticket not found');
+  }
+
+  if (ticket.event.organizerId !== userId && userRole !== 'ADMIN') {
+    throw new Error('Unauthorized: You can only change tickets for your own events');
+  }
+
+  if (ticket.event.status === 'CANCELLED' || ticket.event.status === 'COMPLETED') {
+    throw new Error('Tickets for this event are no longer on sale');
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.ticket.update({
+      where: { id: ticketId },
+      data: {
+        totalQuantity: { increment: quantity },
+        availableQuantity: { increment: quantity },
+      },
+    });
+    await syncTicketStatus(tx, ticketId);
+    return tx.ticket.findUniqueOrThrow({ where: { id: ticketId } });
+  });
+
+  await logAudit('TICKET_CAPACITY_ADDED', 'Ticket', ticketId, userId, {
+    eventId: ticket.eventId,
+    added: quantity,
+    totalQuantity: updated.totalQuantity,
+  });
+
+  const waitlistOffers = await processTicketWaitlist(ticketId);
+  const { availableQuantity } = await prisma.ticket.findUniqueOrThrow({
+    where: { id: ticketId },
+    select: { availableQuantity: true },
+  });
+
+  return {
+    message: `Added ${quantity} ${ticket.name} ticket(s)`,
+    ticketId,
+    totalQuantity: updated.totalQuantity,
+    availableQuantity,
+    waitlistOffers,
+  };
+};
+
+// Issue TicketPurchases with signed QR codes for a PAID order.
+// Idempotent: returns the existing tickets if they were already issued.
+export const issueOrderTickets = async (orderId: string) => {
   let attempts = 0;
   const maxAttempts = 3;
 
-  while (attempts < maxAttempts) {
+  while (true) {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return await prisma.$transaction(async (tx: any) => {
-        // Lock & check availability
-        const ticket = await tx.ticket.findUnique({
-          where: { id: ticketId },
-          select: { 
-            availableQuantity: true, 
-            price: true,
-            name: true,
-            eventId: true,
-            event: { select: { title: true, startTime: true } }
+      const result = await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+          where: { id: orderId },
+          include: {
+            items: { include: { ticket: { select: { name: true } } } },
+            event: { select: { title: true, startTime: true, organizerId: true } },
+            ticketPurchases: true,
           },
         });
 
-        if (!ticket || ticket.availableQuantity < quantity) {
-          throw new Error('Insufficient tickets available');
+        if (!order) {
+          throw new Error('Order not found');
         }
 
-        // Decrement atomically
-        await tx.ticket.update({
-          where: { id: ticketId },
-          data: { availableQuantity: { decrement: quantity } },
-        });
-
-        // Create order
-        const totalAmount = ticket.price * quantity;
-        const order = await tx.order.create({
-          data: {
-            userId,
-            eventId: ticket.eventId,
-            totalAmount,
-            status: 'PAID', // Instantly confirmed for "pay-at-venue" logic
-          },
-        });
-
-        // Link order item
-        await tx.orderItem.create({
-          data: {
-            orderId: order.id,
-            ticketId,
-            quantity,
-            priceAtTime: ticket.price,
-          },
-        });
+        if (order.status !== 'PAID') {
+          throw new Error(`Cannot issue tickets for order with status: ${order.status}`);
+        }
 
-        // Create individual TicketPurchases with placeholders
-        const createdPurchases = [];
-        for (let i = 0; i < quantity; i++) {
-          const purchase = await tx.ticketPurchase.create({
-            data: {
-              userId,
-              orderId: order.id,
-              ticketId,
-              eventId: ticket.eventId,
-              status: 'ACTIVE',
-              ticketNumber: generateTicketNumber(ticket.event.startTime),
-              qrCodeData: crypto.randomUUID(), // Temporary unique placeholder
-            }
-          });
-          createdPurchases.push(purchase);
+        if (order.ticketPurchases.length > 0) {
+          return { order, purchases: order.ticketPurchases, issued: false };
         }
 
-        // Now update with real, signed QR codes
-        const finalPurchases = [];
-        for (const purchase of createdPurchases) {
-          const qrPayload = {
-            ticketId: purchase.id,
-            ticketNumber: purchase.ticketNumber,
-            eventId: purchase.eventId,
-            userId: purchase.userId,
-            ticketType: ticket.name,
-            timestamp: Date.now()
-          };
-          const qrCodeData = generateQRCodeData(qrPayload);
-          const updatedPurchase = await tx.ticketPurchase.update({
-            where: { id: purchase.id },
-            data: { qrCodeData }
-          });
-          finalPurchases.push(updatedPurchase);
+        await convertOrderReservations(tx, order.id);
+
+        const purchases = [];
+        for (const item of order.items) {
+          for (let i = 0; i < item.quantity; i++) {
+            // Create with a placeholder first - the signed QR payload needs the purchase id
+            const purchase = await tx.ticketPurchase.create({
+              data: {
+                userId: order.userId,
+                orderId: order.id,
+                ticketId: item.ticketId,
+                eventId: order.eventId,
+                status: 'ACTIVE',
+                ticketNumber: generateTicketNumber(order.event.startTime),
+                qrCodeData: crypto.randomUUID(), // Temporary unique placeholder
+                rotatingSecret: generateTicketSecret(),
+              },
+            });
+
+            const qrCodeData = generateQRCodeData({
+              ticketId: purchase.id,
+              ticketNumber: purchase.ticketNumber,
+              eventId: purchase.eventId,
+              userId: purchase.userId,
+              ticketType: item.ticket.name,
+              timestamp: Date.now(),
+            });
+
+            purchases.push(
+              await tx.ticketPurchase.update({
+                where: { id: purchase.id },
+                data: { qrCodeData },
+              })
+            );
+          }
         }
 
-        // Get user and event info for confirmation
-        const user = await tx.user.findUnique({
-          where: { id: userId },
-          select: { email: true, fullName: true },
-        });
+        return { order, purchases, issued: true };
+      });
+
+      if (result.issued) {
+        const { order, purchases } = result;
 
-        // Create in-app notification
         try {
           await createNotification({
-            userId,
-            eventId: ticket.eventId,
+            userId: order.userId,
+            eventId: order.eventId,
             type: 'TICKET_PURCHASE',
             title: '🎫 Ticket Purchase Confirmed',
-            message: `You purchased ${quantity} ticket(s) for "${ticket.event.title}". Order ID: ${order.id}`,
-            data: { orderId: order.id, ticketId, quantity },
+            message: `You purchased ${purchases.length} ticket(s) for "${order.event.title}". Order ID: ${order.id}`,
+            data: { orderId: order.id, quantity: purchases.length },
           });
         } catch {
           // Non-critical
         }
 
-        await logAudit('TICKET_PURCHASED', 'Order', order.id, userId, { ticketId, quantity });
+        await logAudit('TICKET_PURCHASED', 'Order', order.id, order.userId, {
+          ticketIds: order.items.map((item) => item.ticketId),
+          quantity: purchases.length,
+        });
 
-        // Return the first QR code for immediate display on frontend success screen
-        return { order, qrCode: finalPurchases[0]?.qrCodeData };
-      });
+        // Trigger analytics update
+        try {
+          await computeEventAnalytics(order.eventId);
+          await invalidateOrganizerAnalyticsCache(order.event.organizerId);
+        } catch (analyticsError) {
+          console.error(`[Analytics] Failed to update analytics for event after purchase:`, analyticsError);
+        }
+      }
+
+      return result.purchases;
     } catch (error: any) {
       // P2002 is Prisma's unique constraint violation error code
       if (error.code === 'P2002' && (error.meta?.target?.includes('ticketNumber') || error.meta?.target === 'ticketNumber')) {
         attempts++;
-        console.warn(`[purchaseTickets] Ticket number collision detected. Retrying... (Attempt ${attempts} of ${maxAttempts})`);
+        console.warn(`[issueOrderTickets] Ticket number collision detected. Retrying... (Attempt ${attempts} of ${maxAttempts})`);
         if (attempts >= maxAttempts) throw new Error('High booking volume. Please try again later.');
         continue; // Retry the entire transaction on ticketNumber collision
       }
       throw error; // Rethrow other errors immediately
     }
   }
+};
 
-  // After a successful purchase, trigger analytics update (outside the retry loop)
-  try {
-    const ticketInfo = await prisma.ticket.findUnique({ 
-      where: { id: ticketId }, 
-      select: { eventId: true, event: { select: { organizerId: true } } } 
-    });
-    if (ticketInfo) {
-      await computeEventAnalytics(ticketInfo.eventId);
-      await invalidateOrganizerAnalyticsCache(ticketInfo.event.organizerId);
-    }
-  } catch (analyticsError) {
-    console.error(`[Analytics] Failed to update analytics for event after purchase:`, analyticsError);
+// Cancel an unpaid order and return its held inventory.
+// Idempotent: only the call that moves the order out of PENDING restocks.
+export const releaseOrderInventory = async (orderId: string, reason: string) => {
+  const { cancelled } = await prisma.$transaction((tx) => cancelUnpaidOrder(tx, orderId, 'RELEASED'));
+
+  if (cancelled) {
+    await logAudit('ORDER_CANCELLED', 'Order', orderId, null, { reason });
   }
+
+  return cancelled;
 };
 
-// Get user's tickets
+// Get user's tickets (their own orders plus orders holding tickets transferred to them)
 export const getUserTickets = async (userId: string) => {
   const orders = await prisma.order.findMany({
-    where: { userId },
+    where: { OR: [{ userId }, { ticketPurchases: { some: { userId } } }] },
     include: {
       event: {
         select: {
@@ -185,6 +420,11 @@ export const getUserTickets = async (userId: string) => {
           },
         },
       },
+      // Only the tickets this user currently holds
+      ticketPurchases: {
+        where: { userId },
+        select: { id: true, ticketId: true, ticketNumber: true, status: true },
+      },
     },
     orderBy: { createdAt: 'desc' },
   });
@@ -196,147 +436,307 @@ export const getUserTickets = async (userId: string) => {
 export const getTicketQR = async (orderId: string, userId: string) => {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    select: { userId: true },
+    select: { userId: true, status: true },
   });
 
   if (!order) {
     throw new Error('Order not found');
   }
 
-  if (order.userId !== userId) {
+  // Tickets transferred or resold to someone else are theirs now - the buyer no longer sees those QR codes
+  const purchases = await prisma.ticketPurchase.findMany({
+    where: { orderId, userId },
+    select: { id: true, ticketNumber: true, qrCodeData: true, status: true },
+    orderBy: { purchasedAt: 'asc' },
+  });
+
+  if (order.userId !== userId && purchases.length === 0) {
     throw new Error('Unauthorized: This is not your ticket');
   }
 
-  const orderItems = await prisma.orderItem.findMany({
-    where: { orderId },
-    select: { ticketId: true },
-  });
-
-  if (orderItems.length === 0) {
-    throw new Error('No tickets found for this order');
+  if (order.status !== 'PAID') {
+    throw new Error(`Tickets are not available for an order with status: ${order.status}`);
   }
 
-  // Generate QR for the first ticket (or all tickets)
-  const qrCode = await generateTicketQR(orderItems[0]!.ticketId, orderId);
+  if (purchases.length === 0) {
+    throw new Error('No tickets found for this order. Tickets are issued once payment is confirmed.');
+  }
 
-  return { qrCode, orderId };
+  // First QR code for the success screen, plus every ticket in the order
+  return { qrCode: purchases[0]!.qrCodeData, tickets: purchases, orderId };
 };
 
-// Request a refund for an order
-export const requestRefund = async (orderId: string, userId: string, reason: string) => {
-  const order = await prisma.order.findUnique({
-    where: { id: orderId },
-    include: { items: true },
+/**
+ * Rotating QR code for one ticket (holder only). The app can refresh locally from
+ * the secret every period, or call this again when the code expires.
+ */
+export const getRotatingTicketCode = async (ticketPurchaseId: string, userId: string) => {
+  const purchase = await prisma.ticketPurchase.findUnique({
+    where: { id: ticketPurchaseId },
+    select: { id: true, userId: true, status: true, rotatingSecret: true },
   });
 
-  if (!order) {
-    throw new Error('Order not found');
+  if (!purchase) {
+    throw new Error('Ticket not found');
   }
 
-  if (order.userId !== userId) {
-    throw new Error('Unauthorized: This is not your order');
+  if (purchase.userId !== userId) {
+    throw new Error('Unauthorized: This is not your ticket');
   }
 
-  if (order.status !== 'PAID') {
-    throw new Error('Only paid orders can be refunded');
+  if (purchase.status !== 'ACTIVE') {
+    throw new Error(`Ticket is not active. Status: ${purchase.status}`);
   }
 
-  // Check if a refund request already exists
-  const existing = await prisma.refundRequest.findFirst({
-    where: { orderId, status: 'PENDING' },
-  });
+  // Tickets issued before rotating codes existed get a secret on first use
+  let secret = purchase.rotatingSecret;
+  if (!secret) {
+    secret = generateTicketSecret();
+    const { count } = await prisma.ticketPurchase.updateMany({
+      where: { id: purchase.id, rotatingSecret: null },
+      data: { rotatingSecret: secret },
+    });
 
-  if (existing) {
-    throw new Error('A refund request for this order is already pending');
+    if (count === 0) {
+      const current = await prisma.ticketPurchase.findUniqueOrThrow({
+        where: { id: purchase.id },
+        select: { rotatingSecret: true },
+      });
+      secret = current.rotatingSecret!;
+    }
   }
 
-  const refundRequest = await prisma.refundRequest.create({
-    data: {
-      orderId,
-      userId,
-      reason,
-      amount: order.totalAmount,
-    },
-  });
-
-  await logAudit('REFUND_REQUESTED', 'Order', orderId, userId, {
-    amount: order.totalAmount,
-    reason,
-  });
+  const { qrData, validUntil } = generateRotatingQRCodeData(purchase.id, secret);
 
   return {
-    message: 'Refund request submitted successfully',
-    refundRequestId: refundRequest.id,
+    ticketPurchaseId: purchase.id,
+    qrData,
+    validUntil,
+    // TOTP parameters for refreshing on the device: HMAC-SHA1 over the hex-decoded secret
+    secret,
+    algorithm: 'SHA1',
+    period: ROTATING_QR_PERIOD_SECONDS,
+    digits: ROTATING_QR_DIGITS,
   };
 };
 
-// Transfer a ticket to another user
-export const transferTicket = async (
-  ticketPurchaseId: string,
+export interface RefundRequestOptions {
+  ticketPurchaseIds?: string[]; // Tickets to return (defaults to every refundable ticket on the order)
+  amount?: number; // Specific amount to ask for (more than the policy allows goes to admin review).
+  // Without ticketPurchaseIds, an amount below the tickets' value is paid back without returning any ticket.
+}
+
+// Request a refund for some or all of the tickets on an order.
+// Requests inside the event's (or organizer's) refund policy are approved and paid out straight away;
+// the rest, and every request for an event with no policy attached, wait for an admin.
+export const requestRefund = async (
+  orderId: string,
   userId: string,
-  recipientEmail: string
+  reason: string,
+  options: RefundRequestOptions = {}
 ) => {
-  const ticketPurchase = await prisma.ticketPurchase.findUnique({
-    where: { id: ticketPurchaseId },
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
     include: {
-      event: { select: { title: true } },
-      ticket: { select: { name: true } },
+      items: true,
+      ticketPurchases: {
+        include: {
+          ticket: { select: { category: true } },
+          resaleListings: { where: { status: { in: OPEN_LISTING_STATUSES } }, select: { id: true } },
+        },
+      },
+      resaleListing: { select: { id: true } },
+      event: {
+        select: {
+          status: true,
+          startTime: true,
+          refundPolicy: true,
+          organizer: { select: { refundPolicy: true } },
+        },
+      },
+      refundRequests: {
+        where: { status: { in: OPEN_REFUND_STATUSES } },
+        select: { ticketPurchaseIds: true, amount: true },
+      },
     },
   });
 
-  if (!ticketPurchase) {
-    throw new Error('Ticket not found');
+  if (!order) {
+    throw new Error('Order not found');
   }
 
-  if (ticketPurchase.userId !== userId) {
-    throw new Error('Unauthorized: This is not your ticket');
+  if (order.userId !== userId) {
+    throw new Error('Unauthorized: This is not your order');
   }
 
-  if (ticketPurchase.status !== 'ACTIVE') {
-    throw new Error('Only active tickets can be transferred');
+  if (order.status !== 'PAID') {
+    throw new Error('Only paid orders can be refunded');
   }
 
-  // Find recipient
-  const recipient = await prisma.user.findUnique({
-    where: { email: recipientEmail },
-    select: { id: true, email: true, fullName: true },
-  });
+  // The seller has already been paid out - resale purchases are only refunded if the event is cancelled
+  if (order.resaleListing && order.event.status !== 'CANCELLED') {
+    throw new Error('Tickets bought on the resale marketplace are non-refundable');
+  }
+
+  // Tickets already covered by an open refund request
+  const claimed = new Set<string>();
+  for (const open of order.refundRequests) {
+    const ids = open.ticketPurchaseIds as string[] | null;
+    if (!ids) {
+      throw new Error('A refund request for this order is already in progress');
+    }
+    ids.forEach((id) => claimed.add(id));
+  }
+
+  // Only unused tickets still held by the buyer (and not listed for resale) can be returned
+  const refundable = order.ticketPurchases.filter(
+    (p) => p.status === 'ACTIVE' && p.userId === userId && !claimed.has(p.id) && p.resaleListings.length === 0
+  );
+
+  let selected = refundable;
+  if (options.ticketPurchaseIds && options.ticketPurchaseIds.length > 0) {
+    const requested = new Set(options.ticketPurchaseIds);
+    for (const id of requested) {
+      const purchase = order.ticketPurchases.find((p) => p.id === id);
+      if (!purchase) {
+        throw new Error('Ticket not found on this order');
+      }
+      if (!refundable.includes(purchase)) {
+        throw new Error(`Ticket ${purchase.ticketNumber} cannot be refunded`);
+      }
+    }
+    selected = refundable.filter((p) => requested.has(p.id));
+  }
 
-  if (!recipient) {
-    throw new Error('Recipient user not found. They must have a MobiTickets account.');
+  if (selected.length === 0) {
+    throw new Error('There are no refundable tickets on this order');
   }
 
-  if (recipient.id === userId) {
-    throw new Error('Cannot transfer ticket to yourself');
+  // Refunds are based on what was actually paid per ticket (after discounts)
+  const paidPrice = new Map(order.items.map((item) => [item.ticketId, item.priceAtTime]));
+  const ticketsValue = selected.reduce((sum, p) => sum + (paidPrice.get(p.ticketId) ?? 0), 0);
+  const remaining =
+    order.totalAmount - order.refundedAmount - order.refundRequests.reduce((sum, open) => sum + open.amount, 0);
+
+  // A cancelled event is always refunded in full; otherwise the event's refund policy applies
+  const { policy, source } = resolveRefundPolicy(order.event, order.event.organizer);
+  const cancelled = order.event.status === 'CANCELLED';
+  const { refundPercent, hoursBeforeStart } = cancelled
+    ? { refundPercent: 100, hoursBeforeStart: null }
+    : evaluateRefundPolicy(policy, order.event.startTime);
+
+  const nonRefundable = cancelled
+    ? []
+    : selected.filter((p) => policy.nonRefundableCategories.includes(p.ticket.category));
+  const processingFee = cancelled ? 0 : policy.processingFee;
+
+  const policyValue = selected
+    .filter((p) => !nonRefundable.includes(p))
+    .reduce((sum, p) => sum + (paidPrice.get(p.ticketId) ?? 0), 0);
+  const eligibleAmount = Math.max(
+    Math.min(Math.round(policyValue * refundPercent) / 100 - processingFee, remaining),
+    0
+  );
+
+  // Anything the policy doesn't cover goes to the admin queue instead of being refused outright
+  const amount = options.amount ?? (eligibleAmount > 0 ? eligibleAmount : Math.min(ticketsValue, remaining));
+  if (amount > remaining) {
+    throw new Error(`Refund amount exceeds the refundable amount of KES ${remaining}`);
   }
 
-  // Transfer the ticket purchase
-  await prisma.ticketPurchase.update({
-    where: { id: ticketPurchaseId },
-    data: { userId: recipient.id },
+  if (amount <= 0) {
+    throw new Error('There is nothing left to refund on this order');
+  }
+
+  // Asking for part of the money back without naming tickets keeps every ticket valid.
+  // That isn't something a policy covers, so it always goes to an admin.
+  const amountOnly =
+    options.amount !== undefined && !options.ticketPurchaseIds?.length && options.amount < ticketsValue;
+
+  // Only a policy the organizer attached approves refunds automatically - without one every request is reviewed
+  const withinPolicy =
+    !amountOnly &&
+    source !== 'DEFAULT' &&
+    nonRefundable.length === 0 &&
+    eligibleAmount > 0 &&
+    amount <= eligibleAmount;
+
+  const ticketPurchaseIds = amountOnly ? [] : selected.map((p) => p.id);
+  const refundRequest = await prisma.refundRequest.create({
+    data: {
+      orderId,
+      userId,
+      reason,
+      amount,
+      refundPercent,
+      processingFee: withinPolicy ? processingFee : 0,
+      ticketPurchaseIds: ticketPurchaseIds as unknown as Prisma.InputJsonValue,
+      ...(withinPolicy && { status: 'APPROVED', autoApproved: true, reviewedAt: new Date() }),
+    },
   });
 
-  await logAudit('TICKET_TRANSFERRED', 'TicketPurchase', ticketPurchaseId, userId, {
-    recipientId: recipient.id,
-    recipientEmail,
-    eventTitle: ticketPurchase.event.title,
+  await logAudit(withinPolicy ? 'REFUND_AUTO_APPROVED' : 'REFUND_REQUESTED', 'Order', orderId, userId, {
+    refundRequestId: refundRequest.id,
+    amount,
+    eligibleAmount,
+    refundPercent,
+    processingFee,
+    policySource: source,
+    hoursBeforeStart,
+    nonRefundableTickets: nonRefundable.map((p) => p.id),
+    ticketPurchaseIds,
+    reason,
   });
 
+  if (!withinPolicy) {
+    return {
+      message: 'Refund request submitted for review',
+      refundRequestId: refundRequest.id,
+      status: refundRequest.status,
+      amount,
+      eligibleAmount,
+      refundPercent,
+      ticketPurchaseIds,
+    };
+  }
+
+  const processed = await processRefund(refundRequest.id);
+
   return {
-    message: `Ticket transferred to ${recipientEmail}`,
-    recipientId: recipient.id,
+    message: 'Refund approved under the event\'s refund policy',
+    refundRequestId: refundRequest.id,
+    status: processed.status,
+    amount,
+    eligibleAmount,
+    refundPercent,
+    processingFee,
+    ticketPurchaseIds,
   };
 };
 
-// Validate a ticket QR code (for event entry)
-export const validateTicket = async (qrData: string) => {
-  const payload = verifyQRCodeData(qrData);
+// Who is scanning, and where (no zoneId = main gate)
+export interface TicketScanner {
+  userId: string;
+  role: string;
+  eventId: string; // Event being checked in
+  gate?: string;
+  zoneId?: string;
+  direction?: ScanDirection;
+}
 
-  if (!payload) {
-    return { valid: false, message: 'Invalid or tampered QR code.' };
+// Validate a ticket QR code at the main gate or a zone scanner (entry or exit)
+export const validateTicket = async (qrData: string, scanner: TicketScanner) => {
+  const direction = scanner.direction ?? 'ENTRY';
+
+  // The app shows a rotating code; printed tickets carry the static signed code
+  const rotating = parseRotatingQRCodeData(qrData);
+  const payload = rotating ? null : verifyQRCodeData(qrData);
+
+  if (!rotating && !payload) {
+    return { valid: false, decision: 'DENY', message: 'Invalid or tampered QR code.' };
   }
 
-  const { ticketId, eventId, ticketType } = payload;
+  const ticketId = rotating ? rotating.ticketId : payload!.ticketId;
 
   // Find the ticket purchase record
   const ticketPurchase = await prisma.ticketPurchase.findUnique({
@@ -344,65 +744,102 @@ export const validateTicket = async (qrData: string) => {
     include: {
       user: { select: { fullName: true } },
       event: { select: { title: true, organizerId: true } },
+      ticket: { select: { name: true, category: true } },
     }
   });
 
   if (!ticketPurchase) {
-    return { valid: false, message: 'Ticket not found. Invalid QR code.' };
+    return { valid: false, decision: 'DENY', message: 'Ticket not found. Invalid QR code.' };
   }
 
-  // Security check: Does the ticket belong to the event it's being scanned for?
-  if (ticketPurchase.eventId !== eventId) {
-    return { valid: false, message: 'Ticket is for a different event.' };
+  if (rotating) {
+    if (!ticketPurchase.rotatingSecret || !verifyRotatingCode(ticketPurchase.rotatingSecret, rotating.code)) {
+      return { valid: false, decision: 'DENY', message: 'QR code has expired or is not genuine. Ask the attendee to refresh their ticket.' };
+    }
+  } else if (ticketPurchase.eventId !== payload!.eventId) {
+    // The signed code must describe this ticket
+    return { valid: false, decision: 'DENY', message: 'Invalid or tampered QR code.' };
   }
 
-  // Check status
-  if (ticketPurchase.status === 'USED') {
-    return {
-      valid: false,
-      message: `Ticket already used at ${new Date(ticketPurchase.checkedInAt!).toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' })}`,
-      ticket: {
-        ticketNumber: ticketPurchase.ticketNumber,
-        attendeeName: ticketPurchase.user.fullName,
-        ticketType,
-        eventTitle: ticketPurchase.event.title,
-        status: ticketPurchase.status,
-        checkedInAt: ticketPurchase.checkedInAt,
-      }
-    };
+  // Security check: Does the ticket belong to the event it's being scanned for? (every code type)
+  if (ticketPurchase.eventId !== scanner.eventId) {
+    return { valid: false, decision: 'DENY', message: 'Ticket is for a different event.' };
   }
 
-  if (ticketPurchase.status !== 'ACTIVE') {
-    return { valid: false, message: `Ticket is not active. Status: ${ticketPurchase.status}` };
+  const eventId = ticketPurchase.eventId;
+  const ticketType = payload?.ticketType ?? ticketPurchase.ticket.name;
+
+  // Door staff can only admit tickets for the events (and gates) they were assigned to
+  await assertScanPermission(eventId, scanner.userId, scanner.role, scanner.gate);
+
+  const scanRequest = {
+    zoneId: scanner.zoneId,
+    direction,
+    gate: scanner.gate ?? null,
+    scannedById: scanner.userId,
+  };
+
+  // Turned away before the gate rules - still logged so the dashboard shows why
+  const deny = async (message: string) => {
+    await recordRejectedScan(ticketPurchase, scanRequest, message);
+    return { valid: false, decision: 'DENY', message };
+  };
+
+  if (ticketPurchase.status !== 'ACTIVE' && ticketPurchase.status !== 'USED') {
+    return deny(`Ticket is not active. Status: ${ticketPurchase.status}`);
   }
 
-  // All checks passed. Mark as USED.
-  const now = new Date();
-  const updatedTicket = await prisma.ticketPurchase.update({
-    where: { id: ticketId },
-    data: { status: 'USED', checkedInAt: now },
-  });
+  // A new QR code is issued whenever a ticket changes hands - older copies are void
+  // (rotating codes are covered by the secret changing with the owner)
+  if (!rotating && ticketPurchase.qrCodeData !== qrData) {
+    return deny('This QR code has been replaced. The ticket now belongs to someone else.');
+  }
+
+  if (await hasOpenListing(ticketId)) {
+    return deny('Ticket is listed for resale. The seller must cancel the listing before entry.');
+  }
 
-  await logAudit('TICKET_VALIDATED', 'TicketPurchase', ticketId, null, { eventId });
+  // Main gate / zone rules - applied with guarded updates since another gate may be scanning the same ticket
+  const admission = await admitTicket(ticketPurchase, scanRequest);
 
-  // Trigger analytics update
-  try {
-    await computeEventAnalytics(eventId);
-    await invalidateOrganizerAnalyticsCache(ticketPurchase.event.organizerId);
-  } catch (analyticsError) {
-    console.error(`[Analytics] Failed to update analytics for event ${eventId} after check-in:`, analyticsError);
+  const updatedTicket = await prisma.ticketPurchase.findUniqueOrThrow({ where: { id: ticketId } });
+
+  if (admission.allowed) {
+    await logAudit('TICKET_VALIDATED', 'TicketPurchase', ticketId, scanner.userId, {
+      eventId,
+      gate: scanner.gate,
+      zoneId: admission.zone?.id,
+      direction,
+      entryCount: updatedTicket.entryCount,
+    });
+  }
+
+  // Trigger analytics update on the first check-in
+  if (admission.firstEntry) {
+    try {
+      await computeEventAnalytics(eventId);
+      await invalidateOrganizerAnalyticsCache(ticketPurchase.event.organizerId);
+    } catch (analyticsError) {
+      console.error(`[Analytics] Failed to update analytics for event ${eventId} after check-in:`, analyticsError);
+    }
   }
 
   return {
-    valid: true,
-    message: 'Check-in successful!',
+    valid: admission.allowed,
+    decision: admission.allowed ? 'ALLOW' : 'DENY',
+    direction,
+    zone: admission.zone,
+    message: admission.reason,
     ticket: {
       ticketNumber: updatedTicket.ticketNumber,
       attendeeName: ticketPurchase.user.fullName,
       ticketType,
+      category: ticketPurchase.ticket.category,
       eventTitle: ticketPurchase.event.title,
       status: updatedTicket.status,
       checkedInAt: updatedTicket.checkedInAt,
+      entryCount: updatedTicket.entryCount,
+      insideVenue: updatedTicket.insideVenue,
     }
   };
 };
\ No newline at end of file
@@ -0,0 +1,445 @@
+// Ticket transfers – hand a ticket to someone else, with a fresh QR code for the new holder
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { getFrontendUrl } from '../../lib/email';
+import { sendTicketTransferInviteEmail } from '../../lib/queue';
+import { createNotification } from '../notifications/notification.service';
+import { generateQRCodeData, generateTicketSecret } from '../../utils/qr-code';
+import { OPEN_REFUND_STATUSES } from '../refunds/refunds.service';
+
+type Tx = Prisma.TransactionClient;
+
+// Transfer lifecycle:
+//   registered recipient → ACCEPTED immediately
+//   anyone else          → PENDING → ACCEPTED (recipient signed up and accepted the invite)
+//                                  → CANCELLED (sender changed their mind)
+//                                  → EXPIRED
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invites last a week (or until the event starts)
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Move a ticket to a new holder and issue a new signed QR code and rotating-code secret.
+ * The previous holder's QR no longer matches and is rejected at the gate.
+ */
+export const reassignTicketPurchase = async (
+  tx: Tx,
+  purchase: { id: string; ticketNumber: string; eventId: string; ticket: { name: string } },
+  newUserId: string,
+  data: Prisma.TicketPurchaseUncheckedUpdateInput = {}
+) => {
+  const qrCodeData = generateQRCodeData({
+    ticketId: purchase.id,
+    ticketNumber: purchase.ticketNumber,
+    eventId: purchase.eventId,
+    userId: newUserId,
+    ticketType: purchase.ticket.name,
+    timestamp: Date.now(),
+  });
+
+  return tx.ticketPurchase.update({
+    where: { id: purchase.id },
+    data: { ...data, userId: newUserId, qrCodeData, rotatingSecret: generateTicketSecret() },
+  });
+};
+
+// Checks shared by starting and accepting a transfer
+const assertTransferable = async (
+  purchase: { id: string; orderId: string; userId: string; status: string },
+  senderId: string
+) => {
+  if (purchase.userId !== senderId || purchase.status !== 'ACTIVE') {
+    throw new Error('Only active tickets can be transferred');
+  }
+
+  const listed = await prisma.resaleListing.count({
+    where: { ticketPurchaseId: purchase.id, status: { in: ['ACTIVE', 'RESERVED'] } },
+  });
+
+  if (listed > 0) {
+    throw new Error('This ticket is listed for resale. Cancel the listing before transferring it.');
+  }
+
+  // A refund in progress will void the ticket - the recipient would be left holding nothing
+  const openRefund = await prisma.refundRequest.count({
+    where: {
+      orderId: purchase.orderId,
+      status: { in: OPEN_REFUND_STATUSES },
+      OR: [
+        { ticketPurchaseIds: { equals: Prisma.DbNull } },
+        { ticketPurchaseIds: { array_contains: [purchase.id] } },
+      ],
+    },
+  });
+
+  if (openRefund > 0) {
+    throw new Error('This ticket has a refund in progress and cannot be transferred');
+  }
+};
+
+/**
+ * Transfer a ticket. Registered recipients get it straight away; anyone else is
+ * emailed an invite link and the ticket stays with the sender until they accept.
+ */
+export const transferTicket = async (
+  ticketPurchaseId: string,
+  userId: string,
+  recipientEmail: string
+) => {
+  const ticketPurchase = await prisma.ticketPurchase.findUnique({
+    where: { id: ticketPurchaseId },
+    include: {
+      user: { select: { fullName: true } },
+      event: { select: { title: true, startTime: true } },
+      ticket: { select: { name: true } },
+      transfers: { where: { status: 'PENDING' }, select: { id: true } },
+    },
+  });
+
+  if (!ticketPurchase) {
+    throw new Error('Ticket not found');
+  }
+
+  if (ticketPurchase.userId !== userId) {
+    throw new Error('Unauthorized: This is not your ticket');
+  }
+
+  await assertTransferable(ticketPurchase, userId);
+
+  if (ticketPurchase.transfers.length > 0) {
+    throw new Error('This ticket already has a pending transfer. Cancel it before sending it to someone else.');
+  }
+
+  const senderName = ticketPurchase.user.fullName || 'A MobiTickets user';
+
+  // Find recipient
+  const recipient = await prisma.user.findUnique({
+    where: { email: recipientEmail },
+    select: { id: true, email: true, fullName: true },
+  });
+
+  if (recipient?.id === userId) {
+    throw new Error('Cannot transfer ticket to yourself');
+  }
+
+  if (recipient) {
+    const transfer = await prisma.$transaction(async (tx) => {
+      // Guard against the ticket changing hands (another transfer, a check-in, a refund) since the checks above
+      const { count: held } = await tx.ticketPurchase.updateMany({
+        where: { id: ticketPurchaseId, userId, status: 'ACTIVE' },
+        data: { userId: recipient.id },
+      });
+
+      if (held === 0) {
+        throw new Error('Only active tickets can be transferred');
+      }
+
+      const transfer = await tx.ticketTransfer.create({
+        data: {
+          ticketPurchaseId,
+          senderId: userId,
+          recipientEmail: recipient.email,
+          recipientId: recipient.id,
+          status: 'ACCEPTED',
+          acceptedAt: new Date(),
+        },
+      });
+
+      await reassignTicketPurchase(tx, ticketPurchase, recipient.id);
+      return transfer;
+    });
+
+    await logAudit('TICKET_TRANSFERRED', 'TicketPurchase', ticketPurchaseId, userId, {
+      transferId: transfer.id,
+      recipientId: recipient.id,
+      recipientEmail,
+      eventTitle: ticketPurchase.event.title,
+    });
+
+    try {
+      await createNotification({
+        userId: recipient.id,
+        eventId: ticketPurchase.eventId,
+        type: 'TICKET_TRANSFER',
+        title: '🎁 You received a ticket',
+        message: `${senderName} sent you a ${ticketPurchase.ticket.name} ticket for "${ticketPurchase.event.title}".`,
+        data: { transferId: transfer.id, ticketPurchaseId },
+      });
+    } catch {
+      // Non-critical
+    }
+
+    return {
+      message: `Ticket transferred to ${recipientEmail}`,
+      transferId: transfer.id,
+      status: transfer.status,
+      recipientId: recipient.id,
+    };
+  }
+
+  // Not registered yet - hold the ticket for them behind an invite link
+  const now = new Date();
+  if (ticketPurchase.event.startTime <= now) {
+    throw new Error('Tickets can only be sent to new users before the event starts');
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Math.min(now.getTime() + INVITE_TTL_MS, ticketPurchase.event.startTime.getTime()));
+
+  const transfer = await prisma.ticketTransfer.create({
+    data: {
+      ticketPurchaseId,
+      senderId: userId,
+      recipientEmail,
+      tokenHash: hashToken(token),
+      expiresAt,
+    },
+  });
+
+  const inviteLink = `${getFrontendUrl()}/transfers/accept?token=${token}`;
+  const expiresInHours = Math.max(Math.round((expiresAt.getTime() - now.getTime()) / (60 * 60 * 1000)), 1);
+
+  try {
+    await sendTicketTransferInviteEmail(recipientEmail, {
+      transferId: transfer.id,
+      senderName,
+      eventName: ticketPurchase.event.title,
+      ticketType: ticketPurchase.ticket.name,
+      eventDate: ticketPurchase.event.startTime.toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' }),
+      acceptLink: inviteLink,
+      expiresIn: expiresInHours >= 48 ? `${Math.floor(expiresInHours / 24)} days` : `${expiresInHours} hours`,
+    });
+  } catch (emailError) {
+    // The sender can still share the link themselves
+    console.error(`Failed to queue transfer invite ${transfer.id}:`, emailError);
+  }
+
+  await logAudit('TICKET_TRANSFER_INVITED', 'TicketPurchase', ticketPurchaseId, userId, {
+    transferId: transfer.id,
+    recipientEmail,
+    eventTitle: ticketPurchase.event.title,
+    expiresAt,
+  });
+
+  return {
+    message: `${recipientEmail} doesn't have a MobiTickets account yet. We've emailed them an invite to claim the ticket.`,
+    transferId: transfer.id,
+    status: transfer.status,
+    inviteLink,
+    expiresAt,
+  };
+};
+
+// Look up a pending invite by its token; marks it EXPIRED once it has run out
+const findInvite = async (token: string) => {
+  const transfer = await prisma.ticketTransfer.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      sender: { select: { fullName: true } },
+      ticketPurchase: {
+        include: {
+          ticket: { select: { name: true } },
+          event: { select: { id: true, title: true, startTime: true } },
+        },
+      },
+    },
+  });
+
+  if (!transfer) {
+    throw new Error('Transfer invite not found');
+  }
+
+  if (transfer.status === 'PENDING' && transfer.expiresAt && transfer.expiresAt <= new Date()) {
+    await prisma.ticketTransfer.updateMany({
+      where: { id: transfer.id, status: 'PENDING' },
+      data: { status: 'EXPIRED' },
+    });
+    throw new Error('This transfer invite has expired');
+  }
+
+  return transfer;
+};
+
+// Public preview of an invite, shown before the recipient signs up
+export const getTransferInvite = async (token: string) => {
+  const transfer = await findInvite(token);
+  const { ticketPurchase } = transfer;
+
+  return {
+    transferId: transfer.id,
+    status: transfer.status,
+    senderName: transfer.sender.fullName || 'A MobiTickets user',
+    recipientEmail: transfer.recipientEmail,
+    eventId: ticketPurchase.event.id,
+    eventTitle: ticketPurchase.event.title,
+    eventStartTime: ticketPurchase.event.startTime,
+    ticketType: ticketPurchase.ticket.name,
+    expiresAt: transfer.expiresAt,
+  };
+};
+
+// Claim a pending transfer (the recipient must be signed in with the invited email)
+export const acceptTransfer = async (token: string, userId: string) => {
+  const transfer = await findInvite(token);
+
+  if (transfer.status !== 'PENDING') {
+    throw new Error(`This transfer has already been ${transfer.status.toLowerCase()}`);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!sameEmail(user.email, transfer.recipientEmail)) {
+    throw new Error('Unauthorized: This transfer was sent to a different email address');
+  }
+
+  if (transfer.senderId === userId) {
+    throw new Error('Cannot transfer ticket to yourself');
+  }
+
+  // The ticket may have been used, refunded or listed since the invite went out
+  await assertTransferable(transfer.ticketPurchase, transfer.senderId).catch(() => {
+    throw new Error('This ticket is no longer available for transfer');
+  });
+
+  const purchase = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.ticketTransfer.updateMany({
+      where: { id: transfer.id, status: 'PENDING' },
+      data: { status: 'ACCEPTED', recipientId: userId, acceptedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('This transfer is no longer pending');
+    }
+
+    // Guard against the ticket changing hands between the check above and now
+    const { count: held } = await tx.ticketPurchase.updateMany({
+      where: { id: transfer.ticketPurchaseId, userId: transfer.senderId, status: 'ACTIVE' },
+      data: { userId },
+    });
+
+    if (held === 0) {
+      throw new Error('This ticket is no longer available for transfer');
+    }
+
+    return reassignTicketPurchase(tx, transfer.ticketPurchase, userId);
+  });
+
+  await logAudit('TICKET_TRANSFERRED', 'TicketPurchase', purchase.id, transfer.senderId, {
+    transferId: transfer.id,
+    recipientId: userId,
+    recipientEmail: transfer.recipientEmail,
+    eventTitle: transfer.ticketPurchase.event.title,
+  });
+
+  try {
+    await createNotification({
+      userId: transfer.senderId,
+      eventId: purchase.eventId,
+      type: 'TICKET_TRANSFER',
+      title: 'Ticket transfer accepted',
+      message: `${transfer.recipientEmail} accepted your ticket for "${transfer.ticketPurchase.event.title}".`,
+      data: { transferId: transfer.id, ticketPurchaseId: purchase.id },
+    });
+  } catch {
+    // Non-critical
+  }
+
+  return {
+    message: 'Ticket accepted. It is now in your tickets.',
+    transferId: transfer.id,
+    ticketPurchaseId: purchase.id,
+    ticketNumber: purchase.ticketNumber,
+    qrCodeData: purchase.qrCodeData,
+  };
+};
+
+// Withdraw a transfer the recipient hasn't accepted yet (sender only)
+export const cancelTransfer = async (transferId: string, userId: string) => {
+  const transfer = await prisma.ticketTransfer.findUnique({
+    where: { id: transferId },
+    select: { senderId: true, status: true, ticketPurchaseId: true },
+  });
+
+  if (!transfer) {
+    throw new Error('Transfer not found');
+  }
+
+  if (transfer.senderId !== userId) {
+    throw new Error('Unauthorized: This is not your transfer');
+  }
+
+  const { count } = await prisma.ticketTransfer.updateMany({
+    where: { id: transferId, status: 'PENDING' },
+    data: { status: 'CANCELLED', cancelledAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new Error(`Cannot cancel a transfer with status: ${transfer.status}`);
+  }
+
+  await logAudit('TICKET_TRANSFER_CANCELLED', 'TicketPurchase', transfer.ticketPurchaseId, userId, {
+    transferId,
+  });
+
+  return { message: 'Transfer cancelled. The ticket is still yours.' };
+};
+
+// Transfers the user has sent, received, or been invited to
+export const getMyTransfers = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const transfers = await prisma.ticketTransfer.findMany({
+    where: {
+      OR: [
+        { senderId: userId },
+        { recipientId: userId },
+        { recipientEmail: { equals: user.email, mode: 'insensitive' }, status: 'PENDING' },
+      ],
+    },
+    select: {
+      id: true,
+      ticketPurchaseId: true,
+      senderId: true,
+      recipientEmail: true,
+      recipientId: true,
+      status: true,
+      expiresAt: true,
+      acceptedAt: true,
+      cancelledAt: true,
+      createdAt: true,
+      sender: { select: { fullName: true } },
+      ticketPurchase: {
+        select: {
+          ticketNumber: true,
+          ticket: { select: { name: true } },
+          event: { select: { id: true, title: true, startTime: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return transfers.map(({ senderId, ...transfer }) => ({
+    ...transfer,
+    direction: senderId === userId ? 'SENT' : 'RECEIVED',
+  }));
+};
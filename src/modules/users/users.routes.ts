@@ -1,5 +1,11 @@
 import { FastifyInstance } from 'fastify';
-import { updateProfileSchema, addFavoriteSchema, preferencesSchema } from './users.schema';
+import {
+  updateProfileSchema,
+  addFavoriteSchema,
+  preferencesSchema,
+  sessionParamsSchema,
+  revokeAllSessionsSchema,
+} from './users.schema';
 import {
   getProfile,
   updateProfile,
@@ -10,6 +16,7 @@ import {
   getUserPreferences,
   updateUserPreferences,
 } from './users.service';
+import { listSessions, revokeSession, revokeAllSessions } from '../auth/sessions.service';
 
 // Type for profile update data
 interface UpdateProfileData {
@@ -113,6 +120,55 @@ export default async (fastify: FastifyInstance) => {
     }
   );
 
+  // Sessions (signed-in devices)
+  fastify.get(
+    '/me/sessions',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const sessions = await listSessions(request.user!.id, request.user!.sid);
+        reply.send(sessions);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  fastify.delete(
+    '/me/sessions',
+    { schema: revokeAllSessionsSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { keepCurrent } = request.query as { keepCurrent?: 'true' | 'false' };
+        const result = await revokeAllSessions(
+          request.user!.id,
+          keepCurrent === 'true' ? request.user!.sid : undefined
+        );
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(400).send({ error: errorMessage });
+      }
+    }
+  );
+
+  fastify.delete(
+    '/me/sessions/:sessionId',
+    { schema: sessionParamsSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { sessionId } = request.params as { sessionId: string };
+        const result = await revokeSession(request.user!.id, sessionId);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
   // Preferences
   fastify.get(
     '/me/preferences',
@@ -19,4 +19,17 @@ export const preferencesSchema = z.object({
     language: z.string().optional(),
     theme: z.enum(['light', 'dark', 'system']).optional(),
   }),
-});
\ No newline at end of file
+});
+
+export const sessionParamsSchema = z.object({
+  params: z.object({
+    sessionId: z.string().uuid(),
+  }),
+});
+
+export const revokeAllSessionsSchema = z.object({
+  querystring: z.object({
+    // Keep the session making the request signed in
+    keepCurrent: z.enum(['true', 'false']).optional(),
+  }),
+});
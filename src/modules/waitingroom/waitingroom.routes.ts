@@ -0,0 +1,59 @@
+import { FastifyInstance } from 'fastify';
+import { requireRole } from '../../middleware/rbac';
+import { waitingRoomEventSchema, waitingRoomStatusSchema } from './waitingroom.schema';
+import { joinWaitingRoom, getWaitingRoomStatus, getWaitingRoomStats } from './waitingroom.service';
+
+export default async (fastify: FastifyInstance) => {
+  // Take a place in an event's waiting room (authenticated)
+  fastify.post(
+    '/events/:eventId/join',
+    { schema: waitingRoomEventSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const result = await joinWaitingRoom(eventId, request.user!.id);
+        reply.status(result.status === 'WAITING' ? 202 : 200).send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Place in line / admission window (authenticated) - polling fallback for SSE updates
+  fastify.get(
+    '/events/:eventId/status',
+    { schema: waitingRoomStatusSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const { token } = request.query as { token?: string };
+        const result = await getWaitingRoomStatus(eventId, request.user!.id, token);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Queue length and admission rate (organizer/admin)
+  fastify.get(
+    '/events/:eventId/stats',
+    { schema: waitingRoomEventSchema, preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { eventId } = request.params as { eventId: string };
+        const stats = await getWaitingRoomStats(eventId, request.user!.id, request.user!.role);
+        reply.send(stats);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+};
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const waitingRoomEventSchema = z.object({
+  params: z.object({
+    eventId: z.string().uuid(),
+  }),
+});
+
+export const waitingRoomStatusSchema = z.object({
+  params: z.object({
+    eventId: z.string().uuid(),
+  }),
+  querystring: z.object({
+    token: z.string().uuid().optional(),
+  }),
+});
@@ -0,0 +1,330 @@
+// Virtual waiting room – buyers for a high-demand on-sale queue in Redis and are let through to checkout in batches
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { redis } from '../../lib/redis';
+
+// Token lifecycle:
+//   join → WAITING (token in the event's queue, scored by arrival)
+//        → ADMITTED (popped by the per-minute batch, or straight away while there is no queue)
+//        → expired (admission window over - join again for a new place in line)
+// Only an admitted token, sent as the X-Queue-Token header, can buy tickets for the event.
+
+const ADMISSION_TTL_SECONDS = 15 * 60; // Time an admitted buyer has to check out
+const QUEUE_TOKEN_TTL_SECONDS = 6 * 60 * 60; // How long a place in line is kept
+const POSITION_UPDATE_LIMIT = 5000; // Buyers further back poll the status endpoint instead
+
+export const QUEUE_TOKEN_HEADER = 'x-queue-token';
+
+const NOT_ON_SALE = ['DRAFT', 'CANCELLED', 'COMPLETED'];
+
+const keys = {
+  queue: (eventId: string) => `waitroom:${eventId}:queue`,
+  sequence: (eventId: string) => `waitroom:${eventId}:seq`,
+  token: (eventId: string, token: string) => `waitroom:${eventId}:token:${token}`,
+  user: (eventId: string, userId: string) => `waitroom:${eventId}:user:${userId}`,
+  admitted: (eventId: string, token: string) => `waitroom:${eventId}:admitted:${token}`,
+  // Admissions in the current minute - shared by instant admissions and the batch sweep
+  rate: (eventId: string) => `waitroom:${eventId}:rate:${Math.floor(Date.now() / 60000)}`,
+};
+
+type WaitingRoomEvent = { id: string; title: string; waitingRoomRate: number };
+
+const getWaitingRoomEvent = async (eventId: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, title: true, status: true, waitingRoomEnabled: true, waitingRoomRate: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  return event;
+};
+
+const estimateWaitMinutes = (position: number, rate: number) => Math.ceil(position / Math.max(rate, 1));
+
+const admittedStatus = async (eventId: string, token: string) => {
+  const ttl = await redis.ttl(keys.admitted(eventId, token));
+
+  return {
+    eventId,
+    token,
+    status: 'ADMITTED' as const,
+    position: 0,
+    estimatedWaitMinutes: 0,
+    admittedUntil: new Date(Date.now() + Math.max(ttl, 0) * 1000),
+  };
+};
+
+// Current place in line for a token, or null once it has left the queue without being admitted
+const getTokenStatus = async (event: WaitingRoomEvent, token: string) => {
+  if (await redis.exists(keys.admitted(event.id, token))) {
+    return admittedStatus(event.id, token);
+  }
+
+  const rank = await redis.zrank(keys.queue(event.id), token);
+  if (rank === null) {
+    return null;
+  }
+
+  return {
+    eventId: event.id,
+    token,
+    status: 'WAITING' as const,
+    position: rank + 1,
+    estimatedWaitMinutes: estimateWaitMinutes(rank + 1, event.waitingRoomRate),
+    admittedUntil: null,
+  };
+};
+
+const admitToken = async (eventId: string, token: string, userId: string) => {
+  await redis.set(keys.admitted(eventId, token), userId, { ex: ADMISSION_TTL_SECONDS });
+};
+
+// Buyer behind each queue token (null once the place in line has lapsed), fetched in one round trip
+const lookupQueueUsers = async (eventId: string, tokens: string[]) => {
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  return redis.mget<(string | null)[]>(...tokens.map((token) => keys.token(eventId, token)));
+};
+
+// Push a waiting room update to the buyer's open SSE connections
+const notifyBuyer = async (userId: string, data: Record<string, unknown>) => {
+  try {
+    const { sendSSENotification } = await import('../../app');
+    sendSSENotification(userId, { type: 'waiting-room', ...data });
+  } catch (error) {
+    // Non-critical - the client can poll the status endpoint
+    console.error(`[Waiting room] Failed to notify user ${userId}:`, error);
+  }
+};
+
+/**
+ * Take a place in the event's waiting room. Buyers arriving while nobody is
+ * queued and the minute's admissions aren't used up go straight through.
+ * Joining again returns the existing place instead of moving to the back.
+ */
+export const joinWaitingRoom = async (eventId: string, userId: string) => {
+  const event = await getWaitingRoomEvent(eventId);
+
+  if (NOT_ON_SALE.includes(event.status)) {
+    throw new Error('Tickets for this event are not on sale');
+  }
+
+  if (!event.waitingRoomEnabled) {
+    return { eventId, token: null, status: 'NOT_REQUIRED' as const };
+  }
+
+  const existing = await redis.get<string>(keys.user(eventId, userId));
+  if (existing) {
+    const current = await getTokenStatus(event, existing);
+    if (current) {
+      return current;
+    }
+  }
+
+  const token = randomUUID();
+  await redis.set(keys.token(eventId, token), userId, { ex: QUEUE_TOKEN_TTL_SECONDS });
+  await redis.set(keys.user(eventId, userId), token, { ex: QUEUE_TOKEN_TTL_SECONDS });
+
+  if ((await redis.zcard(keys.queue(eventId))) === 0) {
+    const rateKey = keys.rate(eventId);
+    const admittedThisMinute = await redis.incr(rateKey);
+    await redis.expire(rateKey, 120);
+
+    if (admittedThisMinute <= event.waitingRoomRate) {
+      await admitToken(eventId, token, userId);
+      return admittedStatus(eventId, token);
+    }
+  }
+
+  const sequence = await redis.incr(keys.sequence(eventId));
+  await redis.zadd(keys.queue(eventId), { score: sequence, member: token });
+  await redis.expire(keys.queue(eventId), QUEUE_TOKEN_TTL_SECONDS);
+  await redis.expire(keys.sequence(eventId), QUEUE_TOKEN_TTL_SECONDS);
+
+  return (await getTokenStatus(event, token))!;
+};
+
+// Where a buyer stands in the waiting room (polling fallback for SSE)
+export const getWaitingRoomStatus = async (eventId: string, userId: string, token?: string) => {
+  const event = await getWaitingRoomEvent(eventId);
+
+  if (!event.waitingRoomEnabled) {
+    return { eventId, token: null, status: 'NOT_REQUIRED' as const };
+  }
+
+  const queueToken = token ?? (await redis.get<string>(keys.user(eventId, userId)));
+  if (!queueToken || (await redis.get<string>(keys.token(eventId, queueToken))) !== userId) {
+    throw new Error('Queue token not found. Join the waiting room to get a place in line.');
+  }
+
+  const status = await getTokenStatus(event, queueToken);
+  if (!status) {
+    throw new Error('Queue token not found. Your admission has expired - join the waiting room again.');
+  }
+
+  return status;
+};
+
+/**
+ * Let the next batch through for one event, up to its per-minute rate less
+ * anyone admitted instantly this minute, then tell everyone still waiting
+ * where they now stand.
+ */
+const admitNextBatch = async (event: WaitingRoomEvent) => {
+  const rateKey = keys.rate(event.id);
+  const admittedThisMinute = Number((await redis.get<number>(rateKey)) ?? 0);
+  const batchSize = event.waitingRoomRate - admittedThisMinute;
+
+  let admitted = 0;
+  let popped = 0;
+  if (batchSize > 0) {
+    // ZPOPMIN returns [member, score, member, score, ...]
+    const members = await redis.zpopmin<string>(keys.queue(event.id), batchSize);
+    const tokens = members.filter((_, index) => index % 2 === 0).map(String);
+    popped = tokens.length;
+
+    if (tokens.length > 0) {
+      await redis.incrby(rateKey, tokens.length);
+      await redis.expire(rateKey, 120);
+    }
+
+    const userIds = await lookupQueueUsers(event.id, tokens);
+    // Places in line that lapsed are dropped
+    const admissions = tokens.flatMap((token, index) => {
+      const userId = userIds[index];
+      return userId ? [{ token, userId }] : [];
+    });
+
+    if (admissions.length > 0) {
+      const pipeline = redis.pipeline();
+      for (const { token, userId } of admissions) {
+        pipeline.set(keys.admitted(event.id, token), userId, { ex: ADMISSION_TTL_SECONDS });
+      }
+      await pipeline.exec();
+    }
+
+    for (const { token, userId } of admissions) {
+      admitted += 1;
+
+      await notifyBuyer(userId, {
+        eventId: event.id,
+        eventTitle: event.title,
+        token,
+        status: 'ADMITTED',
+        position: 0,
+        admittedUntil: new Date(Date.now() + ADMISSION_TTL_SECONDS * 1000),
+      });
+    }
+  }
+
+  const waiting = await redis.zcard(keys.queue(event.id));
+
+  // The queue only ever shrinks from the front, so positions move only when this sweep popped someone.
+  // Otherwise everyone still stands where they were last told.
+  if (waiting > 0 && popped > 0) {
+    const queued = (await redis.zrange<string[]>(keys.queue(event.id), 0, POSITION_UPDATE_LIMIT - 1)).map(String);
+    const userIds = await lookupQueueUsers(event.id, queued);
+
+    for (const [index, token] of queued.entries()) {
+      const userId = userIds[index];
+      if (!userId) {
+        continue;
+      }
+
+      await notifyBuyer(userId, {
+        eventId: event.id,
+        token,
+        status: 'WAITING',
+        position: index + 1,
+        estimatedWaitMinutes: estimateWaitMinutes(index + 1, event.waitingRoomRate),
+      });
+    }
+  }
+
+  return { admitted, waiting };
+};
+
+/**
+ * Admission sweep for every event with a waiting room on sale - runs every minute.
+ * One event failing doesn't hold up the rest.
+ */
+export const admitWaitingRooms = async () => {
+  const events = await prisma.event.findMany({
+    where: { waitingRoomEnabled: true, status: { in: ['PUBLISHED', 'POSTPONED'] } },
+    select: { id: true, title: true, waitingRoomRate: true },
+  });
+
+  let admitted = 0;
+  let waiting = 0;
+
+  for (const event of events) {
+    try {
+      const result = await admitNextBatch(event);
+      admitted += result.admitted;
+      waiting += result.waiting;
+    } catch (error) {
+      console.error(`[Waiting room] Failed to admit buyers for event ${event.id}:`, error);
+    }
+  }
+
+  return { events: events.length, admitted, waiting };
+};
+
+/**
+ * Checkout gate: every event behind the given tiers that has a waiting room
+ * needs an admitted queue token belonging to the buyer.
+ */
+export const assertQueueAdmission = async (ticketIds: string[], userId: string, token?: string) => {
+  const tickets = await prisma.ticket.findMany({
+    where: { id: { in: ticketIds }, event: { waitingRoomEnabled: true } },
+    select: { event: { select: { id: true, title: true } } },
+  });
+
+  const events = new Map(tickets.map((ticket) => [ticket.event.id, ticket.event]));
+
+  for (const event of events.values()) {
+    if (!token) {
+      throw new Error(`Waiting room: "${event.title}" is in high demand. Join the waiting room and check out once you are admitted.`);
+    }
+
+    if ((await redis.get<string>(keys.admitted(event.id, token))) !== userId) {
+      throw new Error(`Waiting room: your queue token for "${event.title}" has not been admitted yet or has expired.`);
+    }
+  }
+};
+
+// Queue length and this minute's admissions (organizer/admin)
+export const getWaitingRoomStats = async (eventId: string, userId: string, userRole: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, title: true, organizerId: true, waitingRoomEnabled: true, waitingRoomRate: true },
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  if (userRole !== 'ADMIN' && event.organizerId !== userId) {
+    throw new Error('Unauthorized: You can only view the waiting room for your own events');
+  }
+
+  const [waiting, admittedThisMinute] = await Promise.all([
+    redis.zcard(keys.queue(eventId)),
+    redis.get<number>(keys.rate(eventId)),
+  ]);
+
+  return {
+    eventId,
+    eventTitle: event.title,
+    enabled: event.waitingRoomEnabled,
+    ratePerMinute: event.waitingRoomRate,
+    waiting,
+    admittedThisMinute: Number(admittedThisMinute ?? 0),
+    estimatedClearMinutes: estimateWaitMinutes(waiting, event.waitingRoomRate),
+  };
+};
@@ -0,0 +1,98 @@
+import { FastifyInstance } from 'fastify';
+import { requireRole } from '../../middleware/rbac';
+import { joinWaitlistSchema } from './waitlist.schema';
+import {
+  joinWaitlist,
+  getMyWaitlists,
+  getWaitlistEntry,
+  leaveWaitlist,
+  getTicketWaitlist,
+} from './waitlist.service';
+
+export default async (fastify: FastifyInstance) => {
+  // Join the waitlist for a sold-out ticket tier (authenticated)
+  fastify.post(
+    '/',
+    { schema: joinWaitlistSchema, preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { ticketId, quantity } = request.body as { ticketId: string; quantity?: number };
+        const entry = await joinWaitlist(request.user!.id, ticketId, quantity ?? 1);
+        reply.status(201).send(entry);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Your waitlist entries and offers (authenticated)
+  fastify.get(
+    '/mine',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const entries = await getMyWaitlists(request.user!.id);
+        reply.send(entries);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        reply.status(500).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Waitlist for a ticket tier (organizer/admin)
+  fastify.get(
+    '/tickets/:ticketId',
+    { preHandler: [fastify.authenticate, requireRole(['ORGANIZER', 'ADMIN'])] },
+    async (request, reply) => {
+      try {
+        const { ticketId } = request.params as { ticketId: string };
+        const waitlist = await getTicketWaitlist(ticketId, request.user!.id, request.user!.role);
+        reply.send(waitlist);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Your place in line, or the offer being held for you (authenticated)
+  fastify.get(
+    '/:entryId',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { entryId } = request.params as { entryId: string };
+        const entry = await getWaitlistEntry(entryId, request.user!.id);
+        reply.send(entry);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+
+  // Leave the waitlist or decline an offer (authenticated)
+  fastify.delete(
+    '/:entryId',
+    { preHandler: [fastify.authenticate] },
+    async (request, reply) => {
+      try {
+        const { entryId } = request.params as { entryId: string };
+        const result = await leaveWaitlist(entryId, request.user!.id);
+        reply.send(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('Unauthorized') ? 403 :
+                          errorMessage.includes('not found') ? 404 : 400;
+        reply.status(statusCode).send({ error: errorMessage });
+      }
+    }
+  );
+};
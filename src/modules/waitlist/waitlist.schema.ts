@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const joinWaitlistSchema = z.object({
+  body: z.object({
+    ticketId: z.string().uuid(),
+    quantity: z.number().int().min(1).default(1),
+  }),
+});
@@ -0,0 +1,427 @@
+// Ticket waitlists – returned seats are offered to the people waiting, in the order they joined
+import { prisma } from '../../lib/prisma';
+import { logAudit } from '../../lib/audit';
+import { getFrontendUrl } from '../../lib/email';
+import { sendWaitlistOfferEmail } from '../../lib/queue';
+import { createNotification } from '../notifications/notification.service';
+import { syncTicketStatus, restockReservation } from '../tickets/reservations.service';
+
+// Entry lifecycle:
+//   WAITING → OFFERED (seats held as a reservation) → PURCHASED (reservation checked out and paid)
+//                                                   → EXPIRED (offer lapsed - the next person is offered)
+//                                                   → DECLINED (attendee let the offer go)
+//   WAITING → CANCELLED (attendee left the waitlist)
+// The reservation sweep moves OFFERED entries on as their holds convert or lapse.
+
+const OFFER_TTL_MS = 30 * 60 * 1000; // Time to check out an offer
+const SWEEP_BATCH_SIZE = 50;
+
+export const OPEN_WAITLIST_STATUSES = ['WAITING', 'OFFERED'];
+
+const NOT_ON_SALE = ['DRAFT', 'CANCELLED', 'COMPLETED'];
+
+// 1-based place in line among people still waiting
+const getPosition = async (entry: { id: string; ticketId: string; createdAt: Date }) =>
+  (await prisma.waitlistEntry.count({
+    where: { ticketId: entry.ticketId, status: 'WAITING', createdAt: { lt: entry.createdAt } },
+  })) + 1;
+
+/**
+ * Join the waitlist for a sold-out tier. Only one open entry per person per tier.
+ */
+export const joinWaitlist = async (userId: string, ticketId: string, quantity: number) => {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    select: {
+      id: true,
+      name: true,
+      availableQuantity: true,
+      maxPerPurchase: true,
+      salesEndTime: true,
+      event: { select: { id: true, title: true, status: true } },
+    },
+  });
+
+  if (!ticket) {
+    throw new Error('Ticket not found');
+  }
+
+  if (NOT_ON_SALE.includes(ticket.event.status) || (ticket.salesEndTime && ticket.salesEndTime < new Date())) {
+    throw new Error('Tickets for this event are not on sale');
+  }
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > ticket.maxPerPurchase) {
+    throw new Error(`You can wait for between 1 and ${ticket.maxPerPurchase} ${ticket.name} ticket(s)`);
+  }
+
+  const waiting = await prisma.waitlistEntry.count({ where: { ticketId, status: 'WAITING' } });
+  if (ticket.availableQuantity >= quantity && waiting === 0) {
+    throw new Error(`${ticket.name} tickets are still available - you can buy them now`);
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: { ticketId, userId, status: { in: OPEN_WAITLIST_STATUSES } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new Error('You are already on the waitlist for this ticket');
+  }
+
+  const entry = await prisma.waitlistEntry.create({
+    data: { ticketId, userId, quantity },
+  });
+
+  await logAudit('WAITLIST_JOINED', 'WaitlistEntry', entry.id, userId, {
+    ticketId,
+    eventId: ticket.event.id,
+    quantity,
+  });
+
+  // Seats may already be waiting for someone (e.g. nobody ahead wanted this many)
+  await processTicketWaitlist(ticketId);
+
+  return getWaitlistEntry(entry.id, userId);
+};
+
+const formatEntry = async (entry: {
+  id: string;
+  ticketId: string;
+  quantity: number;
+  status: string;
+  reservationId: string | null;
+  offeredAt: Date | null;
+  offerExpiresAt: Date | null;
+  createdAt: Date;
+  ticket: { name: string; event: { id: string; title: string; startTime: Date } };
+}) => ({
+  id: entry.id,
+  ticketId: entry.ticketId,
+  ticketName: entry.ticket.name,
+  event: entry.ticket.event,
+  quantity: entry.quantity,
+  status: entry.status,
+  position: entry.status === 'WAITING' ? await getPosition(entry) : null,
+  // Check the offer out with POST /api/tickets/reservations/:reservationId/checkout
+  reservationId: entry.status === 'OFFERED' ? entry.reservationId : null,
+  offeredAt: entry.offeredAt,
+  offerExpiresAt: entry.status === 'OFFERED' ? entry.offerExpiresAt : null,
+  joinedAt: entry.createdAt,
+});
+
+const entryInclude = {
+  ticket: { select: { name: true, event: { select: { id: true, title: true, startTime: true } } } },
+} as const;
+
+export const getWaitlistEntry = async (entryId: string, userId: string) => {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId }, include: entryInclude });
+
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+
+  if (entry.userId !== userId) {
+    throw new Error('Unauthorized: This is not your waitlist entry');
+  }
+
+  return formatEntry(entry);
+};
+
+// Your open waitlist entries and recent offers
+export const getMyWaitlists = async (userId: string) => {
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { userId, status: { in: [...OPEN_WAITLIST_STATUSES, 'EXPIRED'] } },
+    include: entryInclude,
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  return Promise.all(entries.map(formatEntry));
+};
+
+/**
+ * Leave a waitlist. Letting an offer go releases its seats to the next person.
+ */
+export const leaveWaitlist = async (entryId: string, userId: string) => {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: entryId },
+    include: { reservation: { select: { id: true, status: true, orderId: true, quantity: true, ticketId: true } } },
+  });
+
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+
+  if (entry.userId !== userId) {
+    throw new Error('Unauthorized: This is not your waitlist entry');
+  }
+
+  if (entry.status === 'WAITING') {
+    const { count } = await prisma.waitlistEntry.updateMany({
+      where: { id: entryId, status: 'WAITING' },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (count === 0) {
+      throw new Error('This waitlist entry has just changed - refresh and try again');
+    }
+  } else if (entry.status === 'OFFERED') {
+    if (entry.reservation?.orderId) {
+      throw new Error('You have already started checking out this offer. Cancel the order instead.');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id: entryId, status: 'OFFERED' },
+        data: { status: 'DECLINED' },
+      });
+
+      if (count === 0) {
+        throw new Error('This waitlist entry has just changed - refresh and try again');
+      }
+
+      // Give the held seats back (only if the hold is still live and not being checked out)
+      if (entry.reservation) {
+        const hold = await tx.ticketReservation.findUnique({
+          where: { id: entry.reservation.id },
+          select: { orderId: true },
+        });
+        if (hold?.orderId) {
+          throw new Error('You have already started checking out this offer. Cancel the order instead.');
+        }
+        await restockReservation(tx, entry.reservation, 'RELEASED');
+      }
+    });
+
+    await processTicketWaitlist(entry.ticketId);
+  } else {
+    throw new Error(`This waitlist entry is already ${entry.status.toLowerCase()}`);
+  }
+
+  await logAudit('WAITLIST_LEFT', 'WaitlistEntry', entryId, userId, {
+    ticketId: entry.ticketId,
+    previousStatus: entry.status,
+  });
+
+  return { message: entry.status === 'OFFERED' ? 'Offer declined' : 'You have left the waitlist' };
+};
+
+// Move OFFERED entries on once their hold has been paid for or has lapsed
+const settleOffers = async (ticketId: string) => {
+  const offered = await prisma.waitlistEntry.findMany({
+    where: { ticketId, status: 'OFFERED' },
+    select: { id: true, reservation: { select: { status: true } } },
+  });
+
+  for (const entry of offered) {
+    const holdStatus = entry.reservation?.status;
+    if (holdStatus === 'ACTIVE') continue;
+
+    await prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'OFFERED' },
+      data: { status: holdStatus === 'CONVERTED' ? 'PURCHASED' : 'EXPIRED' },
+    });
+  }
+};
+
+// Hold seats for the first waiting entry that fits in what's available
+const offerNext = async (ticketId: string) => {
+  const now = new Date();
+  const offerExpiresAt = new Date(now.getTime() + OFFER_TTL_MS);
+
+  return prisma.$transaction(async (tx) => {
+    const ticket = await tx.ticket.findUnique({
+      where: { id: ticketId },
+      select: { availableQuantity: true, salesEndTime: true, event: { select: { status: true } } },
+    });
+
+    if (
+      !ticket ||
+      ticket.availableQuantity <= 0 ||
+      NOT_ON_SALE.includes(ticket.event.status) ||
+      (ticket.salesEndTime && ticket.salesEndTime < now)
+    ) {
+      return null;
+    }
+
+    // People who want fewer seats than are free move ahead of those who want more
+    const entry = await tx.waitlistEntry.findFirst({
+      where: { ticketId, status: 'WAITING', quantity: { lte: ticket.availableQuantity } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!entry) {
+      return null;
+    }
+
+    const { count } = await tx.ticket.updateMany({
+      where: { id: ticketId, availableQuantity: { gte: entry.quantity } },
+      data: { availableQuantity: { decrement: entry.quantity } },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const reservation = await tx.ticketReservation.create({
+      data: { ticketId, userId: entry.userId, quantity: entry.quantity, expiresAt: offerExpiresAt },
+    });
+
+    const { count: offered } = await tx.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'WAITING' },
+      data: { status: 'OFFERED', reservationId: reservation.id, offeredAt: now, offerExpiresAt },
+    });
+
+    if (offered === 0) {
+      throw new Error('Waitlist entry changed while making an offer');
+    }
+
+    await syncTicketStatus(tx, ticketId);
+
+    return { entry, reservation };
+  });
+};
+
+const notifyOffer = async (entryId: string, reservationId: string) => {
+  const entry = await prisma.waitlistEntry.findUniqueOrThrow({
+    where: { id: entryId },
+    include: {
+      user: { select: { email: true, fullName: true } },
+      ticket: { select: { name: true, event: { select: { id: true, title: true, startTime: true } } } },
+    },
+  });
+
+  const { event } = entry.ticket;
+  const minutes = Math.round(OFFER_TTL_MS / 60000);
+
+  try {
+    await createNotification({
+      userId: entry.userId,
+      eventId: event.id,
+      type: 'WAITLIST_OFFER',
+      title: '🎉 Tickets available for you',
+      message: `${entry.quantity} ${entry.ticket.name} ticket(s) for "${event.title}" are being held for you for ${minutes} minutes.`,
+      data: { waitlistEntryId: entry.id, reservationId, expiresAt: entry.offerExpiresAt },
+    });
+  } catch {
+    // Non-critical
+  }
+
+  try {
+    await sendWaitlistOfferEmail(entry.user.email, {
+      entryId: entry.id,
+      customerName: entry.user.fullName || 'there',
+      eventName: event.title,
+      ticketType: entry.ticket.name,
+      quantity: entry.quantity,
+      eventDate: event.startTime.toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' }),
+      checkoutLink: `${getFrontendUrl()}/checkout/reservations/${reservationId}`,
+      expiresIn: `${minutes} minutes`,
+    });
+  } catch (emailError) {
+    // The in-app notification still carries the offer
+    console.error(`Failed to queue waitlist offer email for ${entry.id}:`, emailError);
+  }
+};
+
+/**
+ * Offer any free seats on a tier to the people waiting for it, in order.
+ * Safe to call whenever inventory may have come back.
+ */
+export const processTicketWaitlist = async (ticketId: string) => {
+  await settleOffers(ticketId);
+
+  let offers = 0;
+  while (true) {
+    const offer = await offerNext(ticketId);
+    if (!offer) break;
+
+    offers++;
+    await logAudit('WAITLIST_OFFERED', 'WaitlistEntry', offer.entry.id, null, {
+      ticketId,
+      reservationId: offer.reservation.id,
+      quantity: offer.entry.quantity,
+      expiresAt: offer.reservation.expiresAt,
+    });
+    await notifyOffer(offer.entry.id, offer.reservation.id);
+  }
+
+  return offers;
+};
+
+// Sweep every tier with people waiting or offers outstanding (run from the scheduled-task webhook)
+export const processWaitlists = async () => {
+  const tiers = await prisma.waitlistEntry.groupBy({
+    by: ['ticketId'],
+    where: { status: { in: OPEN_WAITLIST_STATUSES } },
+    orderBy: { ticketId: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const summary = { tiers: tiers.length, offers: 0 };
+  for (const { ticketId } of tiers) {
+    try {
+      summary.offers += await processTicketWaitlist(ticketId);
+    } catch (error) {
+      console.error(`[Waitlist] Failed to process waitlist for ticket ${ticketId}:`, error);
+    }
+  }
+
+  return summary;
+};
+
+// Close the waitlists for an event that won't sell any more tickets
+export const closeEventWaitlists = async (eventId: string) => {
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { status: 'WAITING', ticket: { eventId } },
+    data: { status: 'CANCELLED' },
+  });
+  return count;
+};
+
+// Waitlist for a tier (organizer/admin)
+export const getTicketWaitlist = async (ticketId: string, userId: string, userRole: string) => {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    select: { id: true, name: true, availableQuantity: true, event: { select: { organizerId: true } } },
+  });
+
+  if (!ticket) {
+    throw new Error('Ticket not found');
+  }
+
+  if (ticket.event.organizerId !== userId && userRole !== 'ADMIN') {
+    throw new Error('Unauthorized: You can only view waitlists for your own events');
+  }
+
+  const [entries, byStatus] = await Promise.all([
+    prisma.waitlistEntry.findMany({
+      where: { ticketId, status: { in: OPEN_WAITLIST_STATUSES } },
+      include: { user: { select: { id: true, fullName: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.waitlistEntry.groupBy({
+      by: ['status'],
+      where: { ticketId },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  return {
+    ticketId: ticket.id,
+    ticketName: ticket.name,
+    availableQuantity: ticket.availableQuantity,
+    summary: Object.fromEntries(
+      byStatus.map((row) => [row.status, { entries: row._count._all, tickets: row._sum.quantity ?? 0 }])
+    ),
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      user: entry.user,
+      quantity: entry.quantity,
+      status: entry.status,
+      offerExpiresAt: entry.offerExpiresAt,
+      joinedAt: entry.createdAt,
+    })),
+  };
+};
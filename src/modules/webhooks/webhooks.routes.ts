@@ -2,9 +2,35 @@
 // Webhook endpoints that QStash calls to process background jobs
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { qstashReceiver, EmailJobPayload, NftMintJobPayload, NotificationJobPayload } from '../../lib/qstash';
-import { sendEmail, sendTicketConfirmation, sendEventReminder, TicketConfirmationData, EventReminderData } from '../../lib/email';
+import {
+  sendEmail,
+  sendTicketConfirmation,
+  sendEventReminder,
+  sendRefundConfirmation,
+  sendTicketTransferInvite,
+  sendStaffInvite,
+  sendWaitlistOffer,
+  sendPasswordResetEmail,
+  sendEmailVerification,
+  sendAccountUnlock,
+  TicketConfirmationData,
+  EventReminderData,
+  RefundConfirmationData,
+  TicketTransferInviteData,
+  StaffInviteData,
+  WaitlistOfferData,
+  PasswordResetData,
+  EmailVerificationData,
+  AccountUnlockData,
+} from '../../lib/email';
 import { logAudit } from '../../lib/audit';
 import { envConfig } from '../../config/env';
+import { reconcilePendingPayments } from '../payments/payments.service';
+import { releaseExpiredReservations } from '../tickets/reservations.service';
+import { processRefundBatch } from '../refunds/event-refunds.service';
+import { releaseExpiredResaleHolds } from '../resale/resale.service';
+import { processWaitlists } from '../waitlist/waitlist.service';
+import { admitWaitingRooms } from '../waitingroom/waitingroom.service';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Signature Verification Middleware
@@ -61,6 +87,41 @@ interface EventReminderPayload extends EventReminderData {
   to: string;
 }
 
+interface RefundConfirmationPayload extends RefundConfirmationData {
+  type: 'refund-confirmation';
+  to: string;
+}
+
+interface TicketTransferInvitePayload extends TicketTransferInviteData {
+  type: 'ticket-transfer-invite';
+  to: string;
+}
+
+interface StaffInvitePayload extends StaffInviteData {
+  type: 'staff-invite';
+  to: string;
+}
+
+interface WaitlistOfferPayload extends WaitlistOfferData {
+  type: 'waitlist-offer';
+  to: string;
+}
+
+interface PasswordResetPayload extends PasswordResetData {
+  type: 'password-reset';
+  to: string;
+}
+
+interface EmailVerificationPayload extends EmailVerificationData {
+  type: 'email-verification';
+  to: string;
+}
+
+interface AccountUnlockPayload extends AccountUnlockData {
+  type: 'account-unlock';
+  to: string;
+}
+
 interface GenericEmailPayload {
   type?: 'generic';
   to: string;
@@ -70,7 +131,17 @@ interface GenericEmailPayload {
   orderId?: string;
 }
 
-type ExtendedEmailPayload = TicketConfirmationPayload | EventReminderPayload | GenericEmailPayload;
+type ExtendedEmailPayload =
+  | TicketConfirmationPayload
+  | EventReminderPayload
+  | RefundConfirmationPayload
+  | TicketTransferInvitePayload
+  | StaffInvitePayload
+  | WaitlistOfferPayload
+  | PasswordResetPayload
+  | EmailVerificationPayload
+  | AccountUnlockPayload
+  | GenericEmailPayload;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Webhook Routes
@@ -112,6 +183,67 @@ export default async function webhookRoutes(fastify: FastifyInstance) {
               eventName: data.eventName,
             });
           }
+        } else if (payload.type === 'refund-confirmation') {
+          const { type, to: recipient, ...data } = payload as RefundConfirmationPayload;
+          result = await sendRefundConfirmation(recipient, data);
+
+          if (result.success) {
+            await logAudit('REFUND_CONFIRMATION_SENT', 'Order', data.orderId, null, {
+              to: recipient,
+              refundAmount: data.refundAmount,
+            });
+          }
+        } else if (payload.type === 'ticket-transfer-invite') {
+          const { type, to: recipient, ...data } = payload as TicketTransferInvitePayload;
+          result = await sendTicketTransferInvite(recipient, data);
+
+          if (result.success) {
+            await logAudit('TRANSFER_INVITE_SENT', 'TicketTransfer', data.transferId, null, {
+              to: recipient,
+              eventName: data.eventName,
+            });
+          }
+        } else if (payload.type === 'staff-invite') {
+          const { type, to: recipient, ...data } = payload as StaffInvitePayload;
+          result = await sendStaffInvite(recipient, data);
+
+          if (result.success) {
+            await logAudit('STAFF_INVITE_SENT', 'EventStaff', data.staffId, null, {
+              to: recipient,
+              eventName: data.eventName,
+            });
+          }
+        } else if (payload.type === 'waitlist-offer') {
+          const { type, to: recipient, ...data } = payload as WaitlistOfferPayload;
+          result = await sendWaitlistOffer(recipient, data);
+
+          if (result.success) {
+            await logAudit('WAITLIST_OFFER_EMAIL_SENT', 'WaitlistEntry', data.entryId, null, {
+              to: recipient,
+              eventName: data.eventName,
+            });
+          }
+        } else if (payload.type === 'password-reset') {
+          const { type, to: recipient, ...data } = payload as PasswordResetPayload;
+          result = await sendPasswordResetEmail(recipient, data);
+
+          if (result.success) {
+            await logAudit('PASSWORD_RESET_EMAIL_SENT', 'User', null, null, { to: recipient });
+          }
+        } else if (payload.type === 'email-verification') {
+          const { type, to: recipient, ...data } = payload as EmailVerificationPayload;
+          result = await sendEmailVerification(recipient, data);
+
+          if (result.success) {
+            await logAudit('EMAIL_VERIFICATION_SENT', 'User', null, null, { to: recipient });
+          }
+        } else if (payload.type === 'account-unlock') {
+          const { type, to: recipient, ...data } = payload as AccountUnlockPayload;
+          result = await sendAccountUnlock(recipient, data);
+
+          if (result.success) {
+            await logAudit('ACCOUNT_UNLOCK_EMAIL_SENT', 'User', null, null, { to: recipient });
+          }
         } else {
           // Generic email
           const { to: recipient, subject, text, html, orderId } = payload as GenericEmailPayload;
@@ -274,6 +406,39 @@ export default async function webhookRoutes(fastify: FastifyInstance) {
             request.log.info('📅 Sending event reminders...');
             break;
 
+          case 'reconcile-pending-payments': {
+            // Catch M-Pesa payments whose callback never arrived
+            const summary = await reconcilePendingPayments();
+            request.log.info(summary, '💳 Reconciled pending payments');
+            break;
+          }
+
+          case 'release-expired-reservations': {
+            // Return abandoned checkout holds to inventory
+            const summary = await releaseExpiredReservations();
+            request.log.info(summary, '🎟️ Released expired reservations');
+            const resale = await releaseExpiredResaleHolds();
+            request.log.info(resale, '🔁 Relisted expired resale holds');
+            // Offer the returned seats (and lapsed offers) to the next people waiting
+            const waitlists = await processWaitlists();
+            request.log.info(waitlists, '⏳ Processed ticket waitlists');
+            break;
+          }
+
+          case 'admit-waiting-rooms': {
+            // Let the next batch of queued buyers through to checkout
+            const summary = await admitWaitingRooms();
+            request.log.info(summary, '🚪 Admitted waiting room batches');
+            break;
+          }
+
+          case 'process-refund-batch': {
+            // Pay out the next slice of a cancelled event's refunds
+            const summary = await processRefundBatch(payload.batchId as string);
+            request.log.info(summary, '💸 Processed refund batch');
+            break;
+          }
+
           case 'generate-daily-report':
             // Example: Generate daily analytics report
             request.log.info('📊 Generating daily report...');
@@ -10,6 +10,7 @@ declare module 'fastify' {
       email: string;
       role: string;
       address?: string;
+      sid?: string; // Session (refresh token family) the access token was issued for
     };
   }
 
@@ -28,12 +29,14 @@ declare module '@fastify/jwt' {
       email?: string;
       role: string;
       address?: string;
+      sid?: string; // Session (refresh token family) the access token was issued for
     };
     user: {
       id: string;
       email: string;
       role: string;
       address?: string;
+      sid?: string; // Session (refresh token family) the access token was issued for
     };
   }
 }
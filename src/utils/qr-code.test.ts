@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  generateQRCodeData,
+  verifyQRCodeData,
+  generateTicketSecret,
+  generateRotatingQRCodeData,
+  parseRotatingQRCodeData,
+  verifyRotatingCode,
+  ROTATING_QR_PERIOD_SECONDS,
+  ROTATING_QR_DIGITS,
+  QRPayload,
+} from './qr-code';
+
+const payload: QRPayload = {
+  ticketId: 'purchase-1',
+  ticketNumber: 'MBT-0001',
+  eventId: 'event-1',
+  userId: 'user-1',
+  ticketType: 'VIP',
+  timestamp: 1_700_000_000_000,
+};
+
+// Codes issued before Ed25519 signing: base64 JSON carrying a truncated HMAC
+const legacyCode = (data: object, secret: string) => {
+  const sig = crypto.createHmac('sha256', secret).update(JSON.stringify(data)).digest('hex').substring(0, 12);
+  return Buffer.from(JSON.stringify({ ...data, sig })).toString('base64');
+};
+
+describe('signed QR codes', () => {
+  it('round-trips the ticket payload', () => {
+    const code = generateQRCodeData(payload);
+
+    expect(code.startsWith('MBT2.')).toBe(true);
+    expect(verifyQRCodeData(code)).toEqual(payload);
+  });
+
+  it('rejects a code whose payload was edited', () => {
+    const [prefix, kid, , signature] = generateQRCodeData(payload).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ t: payload.ticketId, n: payload.ticketNumber, e: 'other-event', u: payload.userId, c: 'VVIP', i: payload.timestamp })
+    ).toString('base64url');
+
+    expect(verifyQRCodeData(`${prefix}.${kid}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects unknown keys and malformed codes', () => {
+    const [prefix, , encoded, signature] = generateQRCodeData(payload).split('.');
+
+    expect(verifyQRCodeData(`${prefix}.unknown-kid.${encoded}.${signature}`)).toBeNull();
+    expect(verifyQRCodeData('MBT2.only.three')).toBeNull();
+    expect(verifyQRCodeData('not a ticket')).toBeNull();
+  });
+});
+
+describe('legacy QR codes', () => {
+  const saved = { QR_SECRET: process.env.QR_SECRET, JWT_SECRET: process.env.JWT_SECRET };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('verifies codes signed with the configured secret', () => {
+    process.env.QR_SECRET = 'legacy-secret';
+
+    expect(verifyQRCodeData(legacyCode(payload, 'legacy-secret'))).toEqual(payload);
+    expect(verifyQRCodeData(legacyCode(payload, 'some-other-secret'))).toBeNull();
+  });
+
+  it('rejects every legacy code when no secret is configured', () => {
+    delete process.env.QR_SECRET;
+    delete process.env.JWT_SECRET;
+
+    expect(verifyQRCodeData(legacyCode(payload, 'mobi-tickets-fallback-secret-123'))).toBeNull();
+  });
+});
+
+describe('rotating QR codes', () => {
+  const secret = generateTicketSecret();
+  const period = ROTATING_QR_PERIOD_SECONDS * 1000;
+  const at = 1_700_000_010_000;
+
+  const codeAt = (time: number) => parseRotatingQRCodeData(generateRotatingQRCodeData('purchase-1', secret, time).qrData)!.code;
+
+  it('produces a parseable code for the current window', () => {
+    const { qrData, validUntil } = generateRotatingQRCodeData('purchase-1', secret, at);
+    const parsed = parseRotatingQRCodeData(qrData);
+
+    expect(parsed?.ticketId).toBe('purchase-1');
+    expect(parsed?.code).toHaveLength(ROTATING_QR_DIGITS);
+    expect(validUntil.getTime() % period).toBe(0);
+    expect(validUntil.getTime()).toBeGreaterThan(at);
+    expect(validUntil.getTime() - at).toBeLessThanOrEqual(period);
+  });
+
+  it('accepts the current code and one window of clock drift either way', () => {
+    const code = codeAt(at);
+
+    expect(verifyRotatingCode(secret, code, at)).toBe(true);
+    expect(verifyRotatingCode(secret, code, at + period)).toBe(true);
+    expect(verifyRotatingCode(secret, code, at - period)).toBe(true);
+  });
+
+  it('rejects expired codes and codes from another ticket secret', () => {
+    const code = codeAt(at);
+
+    expect(verifyRotatingCode(secret, code, at + 2 * period)).toBe(false);
+    expect(verifyRotatingCode(generateTicketSecret(), code, at)).toBe(false);
+  });
+
+  it('matches the RFC 6238 test vector', () => {
+    // SHA-1 seed "12345678901234567890" at T = 59s gives 94287082
+    const rfcSecret = Buffer.from('12345678901234567890').toString('hex');
+    expect(verifyRotatingCode(rfcSecret, '94287082', 59_000)).toBe(true);
+  });
+
+  it('only parses well-formed rotating content', () => {
+    expect(parseRotatingQRCodeData('MBTR:purchase-1:1234567')).toBeNull();
+    expect(parseRotatingQRCodeData('MBTR:purchase-1:1234567a')).toBeNull();
+    expect(parseRotatingQRCodeData('MBTR:purchase-1:12345678:extra')).toBeNull();
+    expect(parseRotatingQRCodeData('MBT2.kid.payload.sig')).toBeNull();
+    expect(parseRotatingQRCodeData(' MBTR:purchase-1:12345678 ')).toEqual({ ticketId: 'purchase-1', code: '12345678' });
+  });
+});
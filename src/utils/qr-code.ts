@@ -1,7 +1,9 @@
 import crypto from 'crypto'
+import { getActiveTicketKey, getTicketKey } from '../lib/ticket-keys'
 
-// Use a dedicated secret, falling back for development
-const QR_SECRET = process.env.QR_SECRET || process.env.JWT_SECRET || 'mobi-tickets-fallback-secret-123'
+// Secret behind the original HMAC-signed codes - only used to verify tickets issued before Ed25519 signing.
+// Without one, legacy codes are rejected rather than checked against a guessable default.
+const legacyQRSecret = () => process.env.QR_SECRET || process.env.JWT_SECRET
 
 export interface QRPayload {
   ticketId: string
@@ -12,23 +14,85 @@ export interface QRPayload {
   timestamp: number
 }
 
+// Signed ticket token: MBT2.<kid>.<base64url payload>.<base64url Ed25519 signature>
+// The signature covers "MBT2.<kid>.<payload>", so gate devices need only the public key for <kid>.
+export const SIGNED_QR_PREFIX = 'MBT2'
+
+// Short keys keep the QR code sparse
+interface CompactPayload {
+  t: string // ticketId
+  n: string // ticketNumber
+  e: string // eventId
+  u: string // userId
+  c: string // ticketType
+  i: number // timestamp
+}
+
 /**
  * Generate a signed QR code payload.
- * The signature prevents attendees from forging or modifying ticket QR codes.
+ * The Ed25519 signature prevents attendees from forging or modifying ticket QR codes.
  */
 export function generateQRCodeData(payload: QRPayload): string {
-  const data = JSON.stringify(payload)
-  const signature = crypto
-    .createHmac('sha256', QR_SECRET)
-    .update(data)
-    .digest('hex')
-    .substring(0, 12) // Short signature ensures the QR code doesn't become too dense
-  
-  const qrPayload = {
-    ...payload,
-    sig: signature
+  const key = getActiveTicketKey()
+  const compact: CompactPayload = {
+    t: payload.ticketId,
+    n: payload.ticketNumber,
+    e: payload.eventId,
+    u: payload.userId,
+    c: payload.ticketType,
+    i: payload.timestamp,
+  }
+
+  const signingInput = `${SIGNED_QR_PREFIX}.${key.kid}.${Buffer.from(JSON.stringify(compact)).toString('base64url')}`
+  const signature = crypto.sign(null, Buffer.from(signingInput), key.privateKey!).toString('base64url')
+
+  return `${signingInput}.${signature}`
+}
+
+function verifySignedToken(token: string): QRPayload | null {
+  const parts = token.split('.')
+  if (parts.length !== 4 || parts[0] !== SIGNED_QR_PREFIX) return null
+
+  const [prefix, kid, encodedPayload, signature] = parts as [string, string, string, string]
+  const key = getTicketKey(kid)
+  if (!key) return null // Unknown or withdrawn key
+
+  const valid = crypto.verify(
+    null,
+    Buffer.from(`${prefix}.${kid}.${encodedPayload}`),
+    key.publicKey,
+    Buffer.from(signature, 'base64url')
+  )
+  if (!valid) return null
+
+  const compact = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8')) as CompactPayload
+  return {
+    ticketId: compact.t,
+    ticketNumber: compact.n,
+    eventId: compact.e,
+    userId: compact.u,
+    ticketType: compact.c,
+    timestamp: compact.i,
   }
-  return Buffer.from(JSON.stringify(qrPayload)).toString('base64')
+}
+
+// Codes issued before Ed25519 signing: base64 JSON with a truncated HMAC
+function verifyLegacyQRCodeData(qrString: string): QRPayload | null {
+  const secret = legacyQRSecret()
+  if (!secret) return null
+
+  const decoded = JSON.parse(Buffer.from(qrString, 'base64').toString('utf-8'))
+  const { sig, ...payload } = decoded
+
+  const expectedSig = crypto
+    .createHmac('sha256', secret)
+    .update(JSON.stringify(payload))
+    .digest('hex')
+    .substring(0, 12)
+
+  if (typeof sig !== 'string' || sig.length !== expectedSig.length) return null
+  if (!crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expectedSig))) return null // Signature mismatch - Tampered
+  return payload as QRPayload
 }
 
 /**
@@ -37,18 +101,81 @@ export function generateQRCodeData(payload: QRPayload): string {
  */
 export function verifyQRCodeData(qrString: string): QRPayload | null {
   try {
-    const decoded = JSON.parse(Buffer.from(qrString, 'base64').toString('utf-8'))
-    const { sig, ...payload } = decoded
-    
-    const expectedSig = crypto
-      .createHmac('sha256', QR_SECRET)
-      .update(JSON.stringify(payload))
-      .digest('hex')
-      .substring(0, 12)
-    
-    if (sig !== expectedSig) return null // Signature mismatch - Tampered
-    return payload as QRPayload
+    return qrString.startsWith(`${SIGNED_QR_PREFIX}.`)
+      ? verifySignedToken(qrString)
+      : verifyLegacyQRCodeData(qrString)
   } catch {
     return null
   }
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rotating QR codes
+// ─────────────────────────────────────────────────────────────────────────────
+// The attendee app derives a fresh code every 30 seconds from a per-ticket secret
+// (TOTP, RFC 6238: HMAC-SHA1, 8 digits), so a screenshot stops working almost immediately.
+// QR content: MBTR:<ticketPurchaseId>:<code>
+
+export const ROTATING_QR_PREFIX = 'MBTR'
+export const ROTATING_QR_PERIOD_SECONDS = 30
+export const ROTATING_QR_DIGITS = 8
+// Windows either side of the scanner's clock that are still accepted
+const ROTATING_QR_SKEW_STEPS = 1
+
+/**
+ * Create a secret for a ticket's rotating code (hex, 160 bits)
+ */
+export function generateTicketSecret(): string {
+  return crypto.randomBytes(20).toString('hex')
+}
+
+const timeStep = (at: number) => Math.floor(at / 1000 / ROTATING_QR_PERIOD_SECONDS)
+
+// HOTP (RFC 4226) value for one time step
+function computeCode(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8)
+  buffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = crypto.createHmac('sha1', Buffer.from(secret, 'hex')).update(buffer).digest()
+  const offset = hmac[hmac.length - 1]! & 0x0f
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** ROTATING_QR_DIGITS
+
+  return binary.toString().padStart(ROTATING_QR_DIGITS, '0')
+}
+
+/**
+ * QR content for the current window, plus when it stops being current
+ */
+export function generateRotatingQRCodeData(ticketId: string, secret: string, at = Date.now()) {
+  const step = timeStep(at)
+  return {
+    qrData: `${ROTATING_QR_PREFIX}:${ticketId}:${computeCode(secret, step)}`,
+    validUntil: new Date((step + 1) * ROTATING_QR_PERIOD_SECONDS * 1000),
+  }
+}
+
+/**
+ * Split rotating QR content into its ticket id and code; null if it isn't a rotating code
+ */
+export function parseRotatingQRCodeData(qrString: string): { ticketId: string; code: string } | null {
+  const [prefix, ticketId, code, ...rest] = qrString.trim().split(':')
+  if (prefix !== ROTATING_QR_PREFIX || !ticketId || !code || rest.length > 0) return null
+  if (!/^\d+$/.test(code) || code.length !== ROTATING_QR_DIGITS) return null
+  return { ticketId, code }
+}
+
+/**
+ * Check a rotating code against the ticket's secret, allowing for clock drift between
+ * the attendee's phone and the scanner
+ */
+export function verifyRotatingCode(secret: string, code: string, at = Date.now()): boolean {
+  const step = timeStep(at)
+  const given = Buffer.from(code)
+
+  for (let drift = -ROTATING_QR_SKEW_STEPS; drift <= ROTATING_QR_SKEW_STEPS; drift++) {
+    const expected = Buffer.from(computeCode(secret, step + drift))
+    if (expected.length === given.length && crypto.timingSafeEqual(expected, given)) return true
+  }
+
+  return false
+}
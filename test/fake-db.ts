@@ -0,0 +1,141 @@
+// In-memory stand-in for the Prisma client, for service tests that exercise guarded state transitions.
+// Supports plain and compound-unique equality, in/not/lt/lte/gt/gte and OR in `where`,
+// increment/decrement in `data`, orderBy and take. select/include are ignored - rows are
+// returned whole (as copies, like Prisma), so fixtures carry any relations a service reads.
+type Row = Record<string, any>;
+
+const OPERATORS = ['in', 'not', 'lt', 'lte', 'gt', 'gte', 'equals'];
+
+const isPlainObject = (value: unknown): value is Row =>
+  value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+const matchesCondition = (value: unknown, condition: Row) =>
+  Object.entries(condition).every(([op, operand]) => {
+    const v = comparable(value) as any;
+    const o = comparable(operand) as any;
+    switch (op) {
+      case 'in':
+        return (operand as unknown[]).map(comparable).includes(v);
+      case 'not':
+        return (v ?? null) !== o;
+      case 'lt':
+        return v < o;
+      case 'lte':
+        return v <= o;
+      case 'gt':
+        return v > o;
+      case 'gte':
+        return v >= o;
+      default:
+        return (v ?? null) === o;
+    }
+  });
+
+export const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+    if (key === 'AND') {
+      return (condition as Row[]).every((branch) => matches(row, branch));
+    }
+    if (isPlainObject(condition)) {
+      return Object.keys(condition).some((k) => OPERATORS.includes(k))
+        ? matchesCondition(row[key], condition)
+        : matches(row, condition); // compound unique, e.g. deviceId_clientScanId
+    }
+    return (comparable(row[key]) ?? null) === comparable(condition);
+  });
+
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) && 'increment' in value) {
+      row[key] = (row[key] ?? 0) + value.increment;
+    } else if (isPlainObject(value) && 'decrement' in value) {
+      row[key] = (row[key] ?? 0) - value.decrement;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  }
+  return row;
+};
+
+const sortRows = (rows: Row[], orderBy?: Row | Row[]) => {
+  const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [field, direction] = Object.entries(order)[0]!;
+      const x = comparable(a[field]) as any;
+      const y = comparable(b[field]) as any;
+      if (x !== y) {
+        return (x < y ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+      }
+    }
+    return 0;
+  });
+};
+
+const copy = (row: Row | undefined) => (row ? { ...row } : null);
+
+export const createTable = (name: string, initial: Row[] = [], defaults: Row = {}) => {
+  const rows = initial.map((row) => ({ ...defaults, ...row }));
+  let sequence = rows.length;
+
+  const find = (args: { where?: Row; orderBy?: Row | Row[] } = {}) =>
+    sortRows(
+      rows.filter((row) => matches(row, args.where)),
+      args.orderBy
+    );
+
+  return {
+    rows,
+    findUnique: async (args: { where: Row }) => copy(find(args)[0]),
+    findUniqueOrThrow: async (args: { where: Row }) => {
+      const row = find(args)[0];
+      if (!row) {
+        throw new Error(`No ${name} found`);
+      }
+      return copy(row)!;
+    },
+    findFirst: async (args: { where?: Row; orderBy?: Row | Row[] } = {}) => copy(find(args)[0]),
+    findMany: async (args: { where?: Row; orderBy?: Row | Row[]; take?: number } = {}) =>
+      find(args)
+        .slice(0, args.take)
+        .map((row) => copy(row)!),
+    count: async (args: { where?: Row } = {}) => find(args).length,
+    create: async (args: { data: Row }) => {
+      const row = applyData({ ...defaults, id: `${name}-${++sequence}`, createdAt: new Date() }, args.data);
+      rows.push(row);
+      return copy(row)!;
+    },
+    update: async (args: { where: Row; data: Row }) => {
+      const row = find(args)[0];
+      if (!row) {
+        throw new Error(`No ${name} found to update`);
+      }
+      return copy(applyData(row, args.data))!;
+    },
+    updateMany: async (args: { where?: Row; data: Row }) => {
+      const matched = find(args);
+      matched.forEach((row) => applyData(row, args.data));
+      return { count: matched.length };
+    },
+  };
+};
+
+export type FakeTable = ReturnType<typeof createTable>;
+
+/**
+ * A fake client made of the given tables. $transaction runs the callback against the
+ * same tables (no rollback - tests assert on what a successful run leaves behind).
+ */
+export const createFakeDb = <T extends Record<string, FakeTable>>(tables: T) => {
+  type FakeDb = T & { $transaction: <R>(fn: (tx: FakeDb) => Promise<R>) => Promise<R> };
+  const db: FakeDb = {
+    ...tables,
+    $transaction: async (fn) => fn(db),
+  };
+  return db;
+};